@@ -1,11 +1,34 @@
 import React from "react";
-import { AppBar, Box, Container, Toolbar, Typography, Alert } from "@mui/material";
+import {
+  AppBar,
+  Box,
+  Container,
+  IconButton,
+  MenuItem,
+  Stack,
+  Tab,
+  Tabs,
+  TextField,
+  Toolbar,
+  Tooltip,
+  Typography,
+  Alert,
+} from "@mui/material";
+import CompareIcon from "@mui/icons-material/Compare";
 import Networks from "./Networks";
-import { getDockerClient } from "./api";
+import Containers from "./Containers";
+import { getDockerClient, setDockerContext, setExecBackend } from "./api";
+import { listContexts, loadSelectedContext, saveSelectedContext, type DockerContextRow } from "./contexts";
+import ContextCompareDialog from "./ContextCompareDialog";
 
 export default function App() {
   const [ddClientAvailable, setDdClientAvailable] = React.useState(false);
   const [isChecking, setIsChecking] = React.useState(true);
+  const [contexts, setContexts] = React.useState<DockerContextRow[]>([]);
+  // null targets the CLI's current context
+  const [context, setContext] = React.useState<string | null>(null);
+  const [compareOpen, setCompareOpen] = React.useState(false);
+  const [tab, setTab] = React.useState<"networks" | "containers">("networks");
 
   React.useEffect(() => {
     // Check if Docker Desktop client is available
@@ -24,6 +47,28 @@ export default function App() {
         } catch (err: any) {
           console.error("Docker Desktop client test failed:", err);
         }
+      } else {
+        // Outside Docker Desktop, run every docker command against in-memory engines.
+        // Loaded on demand so the simulator stays out of the extension's bundle.
+        const { createDockerSimulator, createSimulatedContexts } = await import("./simulator");
+        setExecBackend(
+          createSimulatedContexts(
+            { "desktop-linux": createDockerSimulator({ demo: true }), "build-vm": createDockerSimulator() },
+            "desktop-linux"
+          )
+        );
+      }
+
+      // Pick up the context chosen last time, if it still exists
+      try {
+        const found = await listContexts();
+        const saved = loadSelectedContext();
+        const initial = found.some((c) => c.Name === saved && !c.Current) ? saved : null;
+        setDockerContext(initial);
+        setContext(initial);
+        setContexts(found);
+      } catch (err: any) {
+        console.warn("Failed to list Docker contexts:", err);
       }
       setIsChecking(false);
     };
@@ -31,6 +76,62 @@ export default function App() {
     checkClient();
   }, []);
 
+  function selectContext(name: string) {
+    // Choosing the CLI's current context drops --context altogether
+    const next = contexts.find((c) => c.Name === name)?.Current ? null : name;
+    setDockerContext(next);
+    saveSelectedContext(next);
+    setContext(next);
+  }
+
+  const contextControls = contexts.length > 1 && (
+    <Stack direction="row" gap={1} alignItems="center">
+      <TextField
+        size="small"
+        select
+        label="Context"
+        value={context || contexts.find((c) => c.Current)?.Name || ""}
+        onChange={(e) => selectContext(e.target.value)}
+        sx={{ minWidth: 200 }}
+      >
+        {contexts.map((c) => (
+          <MenuItem key={c.Name} value={c.Name} disabled={!!c.Error}>
+            <Box>
+              <Typography variant="body2">{c.Name}</Typography>
+              <Typography variant="caption" color="text.secondary">
+                {c.Error || c.DockerEndpoint}
+              </Typography>
+            </Box>
+          </MenuItem>
+        ))}
+      </TextField>
+      <Tooltip title="Compare a network across contexts">
+        <IconButton onClick={() => setCompareOpen(true)}>
+          <CompareIcon />
+        </IconButton>
+      </Tooltip>
+    </Stack>
+  );
+
+  // Remounting per context drops every view, cache and filter of the previous engine.
+  // Networks stays mounted while hidden so its filters and live updates survive tab switches.
+  const networks = !isChecking && (
+    <>
+      <Tabs value={tab} onChange={(_, v) => setTab(v)} sx={{ mb: 2 }}>
+        <Tab value="networks" label="Networks" />
+        <Tab value="containers" label="Containers" />
+      </Tabs>
+      <Box hidden={tab !== "networks"}>
+        <Networks key={context || ""} />
+      </Box>
+      {tab === "containers" && <Containers key={context || ""} />}
+    </>
+  );
+
+  const compareDialog = (
+    <ContextCompareDialog open={compareOpen} contexts={contexts} onClose={() => setCompareOpen(false)} />
+  );
+
   // Show banner if running in browser/dev mode
   if (!ddClientAvailable && !isChecking) {
     return (
@@ -38,17 +139,21 @@ export default function App() {
         <Alert severity="info" sx={{ mb: 2 }}>
           <Typography variant="h6">Development Mode</Typography>
           <Typography variant="body2">
-            Docker Desktop client is not available. This extension must be run inside Docker Desktop.
+            Docker Desktop client is not available. Commands run against an in-memory simulator with sample networks
+            and containers; changes are lost on reload.
           </Typography>
           <Typography variant="caption" sx={{ mt: 1, display: "block" }}>
-            The UI will work normally when loaded in Docker Desktop.
+            Commands the simulator doesn't implement (e.g. connectivity tests) fail. The UI talks to the real engine
+            when loaded in Docker Desktop.
           </Typography>
         </Alert>
+        {contextControls}
         <Box sx={{ flex: 1, overflow: "auto" }}>
           <Container maxWidth="xl" sx={{ py: 2 }}>
-            <Networks />
+            {networks}
           </Container>
         </Box>
+        {compareDialog}
       </Box>
     );
   }
@@ -65,14 +170,16 @@ export default function App() {
               Initializing...
             </Typography>
           )}
+          {contextControls}
         </Toolbar>
       </AppBar>
 
       <Box sx={{ flex: 1, overflow: "auto" }}>
         <Container maxWidth="xl" sx={{ py: 2 }}>
-          <Networks />
+          {networks}
         </Container>
       </Box>
+      {compareDialog}
     </Box>
   );
 }
@@ -0,0 +1,129 @@
+import React from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  Typography,
+} from "@mui/material";
+
+import { classifyDockerError, type DockerError, type ErrorAction } from "./dockerErrors";
+import DockerErrorAlert from "./DockerErrorAlert";
+import StepList from "./StepList";
+import type { NetworkInspect, OperationStep } from "./types";
+
+export type BulkItem = { id: string; label: string };
+
+export type BulkAction = {
+  title: string;
+  description?: string;
+  confirmLabel: string;
+  items: BulkItem[];
+  run: (item: BulkItem) => Promise<unknown>;
+  /** Called once every item has been attempted */
+  onFinished?: () => void;
+};
+
+/**
+ * Confirms a destructive action on several items, runs it one item at a time and
+ * reports the outcome of each, so one failure doesn't hide the others.
+ */
+export default function BulkActionDialog(props: {
+  action: BulkAction | null;
+  /** Known networks, used to explain failures such as subnet overlaps */
+  networks?: NetworkInspect[];
+  onClose: () => void;
+  /** Offered for failures that come with a fix, e.g. disconnecting containers before a remove */
+  onErrorAction?: (action: ErrorAction) => void;
+}) {
+  const { action, networks, onClose, onErrorAction } = props;
+  const [steps, setSteps] = React.useState<OperationStep[] | null>(null);
+  const [fixable, setFixable] = React.useState<DockerError[]>([]);
+  const [running, setRunning] = React.useState(false);
+
+  React.useEffect(() => {
+    setSteps(null);
+    setFixable([]);
+    setRunning(false);
+  }, [action]);
+
+  async function confirm() {
+    if (!action) return;
+    setRunning(true);
+    const current: OperationStep[] = action.items.map((item) => ({ label: item.label, status: "pending" }));
+    setSteps([...current]);
+    const failures: DockerError[] = [];
+    for (let i = 0; i < action.items.length; i++) {
+      current[i] = { ...current[i], status: "running" };
+      setSteps([...current]);
+      try {
+        await action.run(action.items[i]);
+        current[i] = { ...current[i], status: "done" };
+      } catch (e: any) {
+        const failure = classifyDockerError(e, networks);
+        current[i] = { ...current[i], status: "failed", error: failure.message };
+        if (failure.actions.length) failures.push(failure);
+      }
+      setSteps([...current]);
+    }
+    setFixable(failures);
+    setRunning(false);
+    action.onFinished?.();
+  }
+
+  const failed = steps?.filter((s) => s.status === "failed").length || 0;
+  const finished = !!steps && !running;
+
+  return (
+    <Dialog open={!!action} onClose={running ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{action?.title}</DialogTitle>
+      <DialogContent>
+        {action && !steps && (
+          <Stack spacing={1}>
+            {action.description && <Typography variant="body2">{action.description}</Typography>}
+            <Box sx={{ maxHeight: "40vh", overflow: "auto" }}>
+              {action.items.map((item) => (
+                <Typography key={item.id} variant="body2" component="div">
+                  • {item.label}
+                </Typography>
+              ))}
+            </Box>
+          </Stack>
+        )}
+        {steps && (
+          <Stack spacing={2}>
+            <Box sx={{ maxHeight: "50vh", overflow: "auto" }}>
+              <StepList steps={steps} />
+            </Box>
+            {finished && (
+              <Alert severity={failed === 0 ? "success" : failed === steps.length ? "error" : "warning"}>
+                {steps.length - failed} succeeded, {failed} failed.
+              </Alert>
+            )}
+            {finished &&
+              onErrorAction &&
+              fixable.map((failure, i) => <DockerErrorAlert key={i} error={failure} onAction={onErrorAction} />)}
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {!steps ? (
+          <>
+            <Button onClick={onClose}>Cancel</Button>
+            <Button variant="contained" color="error" onClick={confirm}>
+              {action?.confirmLabel}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={onClose} disabled={running}>
+            Close
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
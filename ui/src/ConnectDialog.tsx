@@ -0,0 +1,242 @@
+import React from "react";
+import {
+  Autocomplete,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import LinkIcon from "@mui/icons-material/Link";
+
+import { listContainers } from "./containerApi";
+import { classifyDockerError, type DockerError, type ErrorAction } from "./dockerErrors";
+import DockerErrorAlert from "./DockerErrorAlert";
+import { validateStaticIp } from "./ipam";
+import KeyValueEditor, { mapFromKeyValues, type KeyValue } from "./KeyValueEditor";
+import type { ConnectOptions } from "./networkApi";
+import type { ContainerListRow, NetworkInspect } from "./types";
+import { hasErrors, issueFor, validateConnect, validateName } from "./validation";
+
+function containerNetworks(c: ContainerListRow) {
+  return (c.Networks || "").split(",").filter(Boolean);
+}
+
+export default function ConnectDialog(props: {
+  open: boolean;
+  networks: NetworkInspect[];
+  /** Network name to preselect */
+  initialNetwork?: string;
+  onClose: () => void;
+  onSubmit: (network: string, container: string, opts: ConnectOptions) => Promise<void>;
+  /** Offered for failures with a fix, e.g. force-disconnecting a stale endpoint */
+  onErrorAction?: (action: ErrorAction) => void;
+}) {
+  const { open, networks, initialNetwork, onClose, onSubmit, onErrorAction } = props;
+  const [containers, setContainers] = React.useState<ContainerListRow[]>([]);
+  const [loadingContainers, setLoadingContainers] = React.useState(false);
+  const [network, setNetwork] = React.useState<string | null>(null);
+  const [container, setContainer] = React.useState<ContainerListRow | null>(null);
+  const [aliases, setAliases] = React.useState<string[]>([]);
+  const [aliasInput, setAliasInput] = React.useState("");
+  const [ipv4, setIpv4] = React.useState("");
+  const [ipv6, setIpv6] = React.useState("");
+  const [linkLocalIps, setLinkLocalIps] = React.useState<string[]>([]);
+  const [driverOpts, setDriverOpts] = React.useState<KeyValue[]>([]);
+  const [error, setError] = React.useState<DockerError | null>(null);
+  const [busy, setBusy] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setNetwork(initialNetwork || null);
+    setContainer(null);
+    setAliases([]);
+    setAliasInput("");
+    setIpv4("");
+    setIpv6("");
+    setLinkLocalIps([]);
+    setDriverOpts([]);
+    setError(null);
+    setLoadingContainers(true);
+    listContainers()
+      .then(setContainers)
+      .catch((e) => setError(classifyDockerError(e, networks)))
+      .finally(() => setLoadingContainers(false));
+  }, [open]);
+
+  const target = networks.find((n) => n.Name === network);
+  const ipv4Error = ipv4.trim() ? validateStaticIp(ipv4.trim(), 4, target) : null;
+  const ipv6Error = ipv6.trim() ? validateStaticIp(ipv6.trim(), 6, target) : null;
+  // Subnet membership is checked above; this covers names, aliases, link-local addresses and driver option keys
+  const issues = validateConnect(network || "", container?.Names || "", {
+    aliases,
+    linkLocalIps,
+    driverOpts: mapFromKeyValues(driverOpts),
+  }).filter((i) => (i.field === "network" ? !!network : i.field === "container" ? !!container : true));
+  const aliasError = (aliasInput.trim() && validateName(aliasInput, "alias")) || issueFor(issues, "aliases")?.message;
+  const linkLocalError = issueFor(issues, "linkLocalIps")?.message;
+  const invalid = !network || !container || !!ipv4Error || !!ipv6Error || hasErrors(issues);
+
+  async function submit() {
+    if (!network || !container) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onSubmit(network, container.Names, {
+        aliases: aliases.length ? aliases : undefined,
+        ipv4: ipv4.trim() || undefined,
+        ipv6: ipv6.trim() || undefined,
+        linkLocalIps: linkLocalIps.length ? linkLocalIps : undefined,
+        driverOpts: mapFromKeyValues(driverOpts),
+      });
+    } catch (e: any) {
+      setError(classifyDockerError(e, networks));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Connect container to network</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {error && <DockerErrorAlert error={error} onAction={onErrorAction} />}
+
+          <Autocomplete
+            options={networks.map((n) => n.Name)}
+            value={network}
+            onChange={(_, v) => setNetwork(v)}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label="Network"
+                autoFocus={!initialNetwork}
+                error={!!issueFor(issues, "network")}
+                helperText={issueFor(issues, "network")?.message}
+              />
+            )}
+          />
+
+          <Autocomplete
+            options={containers}
+            loading={loadingContainers}
+            value={container}
+            onChange={(_, v) => setContainer(v)}
+            getOptionLabel={(c) => c.Names}
+            isOptionEqualToValue={(a, b) => a.ID === b.ID}
+            getOptionDisabled={(c) => !!network && containerNetworks(c).includes(network)}
+            filterOptions={(options, state) => {
+              const s = state.inputValue.toLowerCase();
+              return options.filter(
+                (c) => c.Names.toLowerCase().includes(s) || c.Image.toLowerCase().includes(s) || c.ID.startsWith(s)
+              );
+            }}
+            renderOption={(optionProps, c) => (
+              <Box component="li" {...optionProps} key={c.ID}>
+                <Box sx={{ minWidth: 0, flex: 1 }}>
+                  <Stack direction="row" gap={1} alignItems="center">
+                    <Typography variant="body2" noWrap>
+                      <b>{c.Names}</b>
+                    </Typography>
+                    <Chip size="small" label={c.State} color={c.State === "running" ? "success" : "default"} variant="outlined" />
+                  </Stack>
+                  <Typography variant="caption" color="text.secondary" component="div" noWrap>
+                    {c.Image}
+                    {containerNetworks(c).length ? ` • ${containerNetworks(c).join(", ")}` : ""}
+                    {network && containerNetworks(c).includes(network) ? " • already connected" : ""}
+                  </Typography>
+                </Box>
+              </Box>
+            )}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label="Container"
+                placeholder="Search by name, image or ID"
+                autoFocus={!!initialNetwork}
+                error={!!issueFor(issues, "container")}
+                helperText={issueFor(issues, "container")?.message}
+              />
+            )}
+          />
+
+          <Divider />
+          <Typography variant="subtitle2">Endpoint options (optional)</Typography>
+
+          <Autocomplete
+            multiple
+            freeSolo
+            options={[]}
+            value={aliases}
+            onChange={(_, v) => setAliases(v)}
+            inputValue={aliasInput}
+            onInputChange={(_, v) => setAliasInput(v)}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label="Aliases"
+                placeholder="Type an alias and press Enter"
+                error={!!aliasError}
+                helperText={aliasError || undefined}
+              />
+            )}
+          />
+          <Stack direction="row" gap={1}>
+            <TextField
+              label="IPv4 address"
+              value={ipv4}
+              onChange={(e) => setIpv4(e.target.value)}
+              error={!!ipv4Error}
+              helperText={ipv4Error || " "}
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              label="IPv6 address"
+              value={ipv6}
+              onChange={(e) => setIpv6(e.target.value)}
+              error={!!ipv6Error}
+              helperText={ipv6Error || " "}
+              sx={{ flex: 1 }}
+            />
+          </Stack>
+          <Autocomplete
+            multiple
+            freeSolo
+            options={[]}
+            value={linkLocalIps}
+            onChange={(_, v) => setLinkLocalIps(v)}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label="Link-local addresses"
+                placeholder="e.g. 169.254.0.10"
+                error={!!linkLocalError}
+                helperText={linkLocalError}
+              />
+            )}
+          />
+          <Typography variant="body2">Driver options</Typography>
+          <KeyValueEditor rows={driverOpts} onChange={setDriverOpts} addLabel="Add driver option" />
+          {issueFor(issues, "driverOpts") && (
+            <Typography variant="caption" color="error">
+              {issueFor(issues, "driverOpts")!.message}
+            </Typography>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" startIcon={<LinkIcon />} onClick={submit} disabled={invalid || busy}>
+          Connect
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
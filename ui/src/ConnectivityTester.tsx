@@ -0,0 +1,136 @@
+import React from "react";
+import { Alert, Box, Button, Chip, CircularProgress, MenuItem, Stack, TextField, Typography } from "@mui/material";
+import CheckCircleIcon from "@mui/icons-material/CheckCircle";
+import ErrorIcon from "@mui/icons-material/Error";
+import NetworkCheckIcon from "@mui/icons-material/NetworkCheck";
+
+import { parseDockerError } from "./api";
+import { HELPER_IMAGE, testConnectivity, type ConnectivityResult, type ConnectivityTest } from "./connectivity";
+import type { NetworkInspect } from "./types";
+
+const TEST_LABELS: Record<ConnectivityTest, string> = {
+  ping: "Ping",
+  tcp: "TCP port",
+  dns: "DNS",
+};
+
+/** Runs ping / TCP / DNS checks between two containers attached to a network. */
+export default function ConnectivityTester(props: { network: NetworkInspect }) {
+  const { network } = props;
+  const endpoints = Object.entries(network.Containers || {});
+  const [source, setSource] = React.useState("");
+  const [target, setTarget] = React.useState("");
+  const [port, setPort] = React.useState("");
+  const [running, setRunning] = React.useState(false);
+  const [results, setResults] = React.useState<ConnectivityResult[] | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setSource("");
+    setTarget("");
+    setResults(null);
+    setError(null);
+  }, [network.Id]);
+
+  const portNumber = port.trim() ? Number(port) : undefined;
+  const portError = portNumber !== undefined && (!Number.isInteger(portNumber) || portNumber < 1 || portNumber > 65535);
+  const targetEndpoint = network.Containers?.[target];
+  const targetAddress = (targetEndpoint?.IPv4Address || targetEndpoint?.IPv6Address || "").split("/")[0];
+
+  async function run() {
+    if (!targetEndpoint) return;
+    setRunning(true);
+    setResults(null);
+    setError(null);
+    try {
+      setResults(
+        await testConnectivity({ source, targetName: targetEndpoint.Name, targetAddress, port: portNumber })
+      );
+    } catch (e: any) {
+      setError(parseDockerError(e));
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  if (endpoints.length < 2) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        Attach at least two containers to test connectivity between them.
+      </Typography>
+    );
+  }
+
+  return (
+    <Stack spacing={1.5}>
+      <Stack direction="row" gap={1}>
+        <TextField size="small" select label="From" value={source} onChange={(e) => setSource(e.target.value)} sx={{ flex: 1 }}>
+          {endpoints.map(([id, c]) => (
+            <MenuItem key={id} value={id} disabled={id === target}>
+              {c.Name}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField size="small" select label="To" value={target} onChange={(e) => setTarget(e.target.value)} sx={{ flex: 1 }}>
+          {endpoints.map(([id, c]) => (
+            <MenuItem key={id} value={id} disabled={id === source}>
+              {c.Name}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          size="small"
+          label="TCP port"
+          placeholder="optional"
+          value={port}
+          onChange={(e) => setPort(e.target.value)}
+          error={portError}
+          sx={{ width: 110 }}
+        />
+      </Stack>
+      <Stack direction="row" gap={1} alignItems="center">
+        <Button
+          size="small"
+          variant="outlined"
+          startIcon={running ? <CircularProgress size={14} /> : <NetworkCheckIcon />}
+          disabled={!source || !target || !targetAddress || portError || running}
+          onClick={run}
+        >
+          Test connectivity
+        </Button>
+        <Typography variant="caption" color="text.secondary">
+          Uses the source's own tools, or a {HELPER_IMAGE} helper in its network namespace
+        </Typography>
+      </Stack>
+
+      {error && <Alert severity="error">{error}</Alert>}
+
+      {results && (
+        <Box sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, overflow: "hidden" }}>
+          {results.map((r) => (
+            <Stack
+              key={r.test}
+              direction="row"
+              gap={1}
+              alignItems="center"
+              sx={{ px: 1.5, py: 1, "&:not(:last-child)": { borderBottom: "1px solid", borderColor: "divider" } }}
+            >
+              {r.ok ? <CheckCircleIcon fontSize="small" color="success" /> : <ErrorIcon fontSize="small" color="error" />}
+              <Box sx={{ minWidth: 0, flex: 1 }}>
+                <Typography variant="body2">
+                  <b>{TEST_LABELS[r.test]}</b>
+                  {r.latencyMs !== undefined ? ` • ${r.latencyMs} ms` : ""}
+                  {r.address ? ` • ${r.address}` : ""}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" sx={{ wordBreak: "break-word" }}>
+                  {r.detail}
+                </Typography>
+              </Box>
+              <Chip size="small" variant="outlined" label={r.via === "exec" ? "docker exec" : "helper"} />
+            </Stack>
+          ))}
+        </Box>
+      )}
+    </Stack>
+  );
+}
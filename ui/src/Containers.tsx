@@ -0,0 +1,396 @@
+import React from "react";
+import {
+  Box,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Paper,
+  Skeleton,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import RefreshIcon from "@mui/icons-material/Refresh";
+import TableRowsIcon from "@mui/icons-material/TableRows";
+import GridOnIcon from "@mui/icons-material/GridOn";
+import FiberManualRecordIcon from "@mui/icons-material/FiberManualRecord";
+
+import type { StreamHandle } from "./api";
+import { inspectContainers, listContainers } from "./containerApi";
+import { classifyDockerError, type DockerError, type ErrorAction } from "./dockerErrors";
+import DockerErrorAlert from "./DockerErrorAlert";
+import { trackConnect, trackDisconnect } from "./history";
+import { listNetworks, watchNetworkEvents } from "./networkApi";
+import type { ContainerInspect, ContainerListRow, EndpointSettings, NetworkListRow } from "./types";
+
+type ContainerEntry = {
+  row: ContainerListRow;
+  inspect?: ContainerInspect;
+};
+
+// Runtime connects and disconnects are refused for these
+const FIXED_NETWORKS = new Set(["host", "none"]);
+
+function endpointsOf(c: ContainerEntry): Record<string, EndpointSettings> {
+  return c.inspect?.NetworkSettings.Networks || {};
+}
+
+function addresses(e: EndpointSettings) {
+  const ips = [e.IPAddress && `${e.IPAddress}${e.IPPrefixLen ? `/${e.IPPrefixLen}` : ""}`, e.GlobalIPv6Address];
+  return ips.filter(Boolean).join(", ");
+}
+
+/** Containers sharing another container's stack or the host's can't join other networks. */
+function sharedStack(c: ContainerEntry) {
+  const mode = c.inspect?.HostConfig?.NetworkMode || "";
+  return mode === "host" || mode.startsWith("container:");
+}
+
+/**
+ * Container-first view: every container with the networks it is on and its address
+ * on each, plus a networks × containers matrix whose cells connect and disconnect.
+ */
+export default function Containers() {
+  const [containers, setContainers] = React.useState<ContainerEntry[]>([]);
+  const [networks, setNetworks] = React.useState<NetworkListRow[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<DockerError | null>(null);
+  const [q, setQ] = React.useState("");
+  const [view, setView] = React.useState<"list" | "matrix">("list");
+  const [pending, setPending] = React.useState<Set<string>>(new Set());
+  const [live, setLive] = React.useState(false);
+  const reloadTimer = React.useRef<ReturnType<typeof setTimeout>>();
+
+  async function refresh() {
+    setLoading(true);
+    setError(null);
+    try {
+      const [rows, nets] = await Promise.all([listContainers(), listNetworks()]);
+      const inspected = await inspectContainers(rows.map((r) => r.ID));
+      const byId = new Map(inspected.map((c) => [c.Id, c]));
+      setContainers(
+        rows.map((row) => ({ row, inspect: byId.get(row.ID) })).sort((a, b) => a.row.Names.localeCompare(b.row.Names))
+      );
+      // host and none go last; they are shown but can't be toggled
+      setNetworks(
+        nets.sort(
+          (a, b) =>
+            Number(FIXED_NETWORKS.has(a.Name)) - Number(FIXED_NETWORKS.has(b.Name)) || a.Name.localeCompare(b.Name)
+        )
+      );
+    } catch (e: any) {
+      setError(classifyDockerError(e));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Bursts of events (compose up, prune) collapse into one reload
+  function scheduleRefresh() {
+    clearTimeout(reloadTimer.current);
+    reloadTimer.current = setTimeout(refresh, 500);
+  }
+
+  React.useEffect(() => {
+    refresh();
+    let stream: StreamHandle | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    const connect = () => {
+      let closed = false;
+      try {
+        stream = watchNetworkEvents(scheduleRefresh, () => {
+          if (closed) return;
+          closed = true;
+          setLive(false);
+          if (!stopped) retry = setTimeout(connect, 5000);
+        });
+        setLive(true);
+      } catch (e: any) {
+        console.warn("Live updates unavailable:", e);
+      }
+    };
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(retry);
+      clearTimeout(reloadTimer.current);
+      stream?.close();
+    };
+  }, []);
+
+  async function toggle(c: ContainerEntry, network: string) {
+    const key = `${c.row.ID}:${network}`;
+    setPending((prev) => new Set(prev).add(key));
+    setError(null);
+    try {
+      if (endpointsOf(c)[network]) await trackDisconnect(network, c.row.Names, false);
+      else await trackConnect(network, c.row.Names);
+      await refresh();
+    } catch (e: any) {
+      setError(classifyDockerError(e));
+    } finally {
+      setPending((prev) => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+  }
+
+  async function runErrorAction(action: ErrorAction) {
+    setError(null);
+    try {
+      if (action.kind === "force-disconnect") await trackDisconnect(action.network, action.container, true);
+      await refresh();
+    } catch (e: any) {
+      setError(classifyDockerError(e));
+    }
+  }
+
+  const filtered = React.useMemo(() => {
+    const s = q.trim().toLowerCase();
+    if (!s) return containers;
+    return containers.filter(
+      (c) =>
+        c.row.Names.toLowerCase().includes(s) ||
+        c.row.Image.toLowerCase().includes(s) ||
+        c.row.ID.startsWith(s) ||
+        Object.keys(endpointsOf(c)).some((n) => n.toLowerCase().includes(s))
+    );
+  }, [containers, q]);
+
+  function renderList() {
+    return (
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Container</TableCell>
+            <TableCell>Image</TableCell>
+            <TableCell>Networks</TableCell>
+            <TableCell>Status</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {filtered.map((c) => {
+            const endpoints = Object.entries(endpointsOf(c));
+            return (
+              <TableRow key={c.row.ID} hover>
+                <TableCell>
+                  <Stack direction="row" gap={1} alignItems="center">
+                    <Typography variant="body2">
+                      <b>{c.row.Names}</b>
+                    </Typography>
+                    <Chip
+                      size="small"
+                      variant="outlined"
+                      label={c.row.State}
+                      color={c.row.State === "running" ? "success" : "default"}
+                    />
+                  </Stack>
+                </TableCell>
+                <TableCell>
+                  <Typography variant="body2" color="text.secondary" sx={{ wordBreak: "break-all" }}>
+                    {c.row.Image}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  {endpoints.length === 0 ? (
+                    <Typography variant="body2" color="text.secondary">
+                      {c.inspect ? "—" : "…"}
+                    </Typography>
+                  ) : (
+                    <Stack spacing={0.5}>
+                      {endpoints.map(([name, e]) => (
+                        <Stack key={name} direction="row" gap={1} alignItems="center">
+                          <Chip size="small" label={name} />
+                          <Typography variant="body2" component="code">
+                            {addresses(e) || (c.row.State === "running" ? "no address" : "not running")}
+                          </Typography>
+                          {(e.Aliases || []).length > 0 && (
+                            <Typography variant="caption" color="text.secondary">
+                              aliases: {e.Aliases!.join(", ")}
+                            </Typography>
+                          )}
+                        </Stack>
+                      ))}
+                    </Stack>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Typography variant="body2" color="text.secondary">
+                    {c.row.Status}
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    );
+  }
+
+  function renderMatrix() {
+    return (
+      <Box sx={{ overflow: "auto", maxHeight: "70vh" }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ position: "sticky", left: 0, zIndex: 3, bgcolor: "background.paper" }}>Container</TableCell>
+              {networks.map((n) => (
+                <TableCell key={n.ID} align="center" sx={{ verticalAlign: "bottom", px: 0.5 }}>
+                  <Tooltip title={`${n.Driver} • ${n.Scope}`}>
+                    <Typography
+                      variant="caption"
+                      sx={{ writingMode: "vertical-rl", transform: "rotate(180deg)", whiteSpace: "nowrap" }}
+                    >
+                      {n.Name}
+                    </Typography>
+                  </Tooltip>
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {filtered.map((c) => {
+              const endpoints = endpointsOf(c);
+              const shared = sharedStack(c);
+              return (
+                <TableRow key={c.row.ID} hover>
+                  <TableCell sx={{ position: "sticky", left: 0, zIndex: 1, bgcolor: "background.paper", whiteSpace: "nowrap" }}>
+                    <Typography variant="body2" color={c.row.State === "running" ? "text.primary" : "text.secondary"}>
+                      {c.row.Names}
+                    </Typography>
+                  </TableCell>
+                  {networks.map((n) => {
+                    const endpoint = endpoints[n.Name];
+                    const busy = pending.has(`${c.row.ID}:${n.Name}`);
+                    const fixed = FIXED_NETWORKS.has(n.Name) || shared;
+                    const title = fixed
+                      ? shared
+                        ? `${c.row.Names} shares another network stack (${c.inspect?.HostConfig?.NetworkMode})`
+                        : `Containers can't be connected to or disconnected from ${n.Name} while they exist`
+                      : endpoint
+                        ? `Disconnect from ${n.Name}${addresses(endpoint) ? ` (${addresses(endpoint)})` : ""}`
+                        : `Connect to ${n.Name}`;
+                    return (
+                      <TableCell key={n.ID} align="center" padding="none">
+                        {busy ? (
+                          <CircularProgress size={18} />
+                        ) : (
+                          <Tooltip title={title}>
+                            <span>
+                              <Checkbox
+                                size="small"
+                                checked={!!endpoint}
+                                disabled={fixed || !c.inspect}
+                                onChange={() => toggle(c, n.Name)}
+                              />
+                            </span>
+                          </Tooltip>
+                        )}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Stack direction="row" gap={1} alignItems="center" sx={{ mb: 2 }} flexWrap="wrap">
+        <TextField
+          size="small"
+          sx={{ flex: 1, minWidth: 200 }}
+          placeholder="Search containers (name, image, id, network)…"
+          value={q}
+          onChange={(e) => setQ(e.target.value)}
+        />
+        <Tooltip title="Refresh">
+          <span>
+            <IconButton onClick={refresh} disabled={loading}>
+              <RefreshIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+
+        <Tooltip title={live ? "Updating live from Docker events" : "Not receiving Docker events"}>
+          <Chip
+            size="small"
+            label={live ? "Live" : "Offline"}
+            color={live ? "success" : "default"}
+            variant="outlined"
+            icon={<FiberManualRecordIcon sx={{ fontSize: 10 }} />}
+          />
+        </Tooltip>
+
+        <ToggleButtonGroup size="small" exclusive value={view} onChange={(_, v) => v && setView(v)}>
+          <ToggleButton value="list">
+            <Tooltip title="List">
+              <TableRowsIcon fontSize="small" />
+            </Tooltip>
+          </ToggleButton>
+          <ToggleButton value="matrix">
+            <Tooltip title="Network membership matrix">
+              <GridOnIcon fontSize="small" />
+            </Tooltip>
+          </ToggleButton>
+        </ToggleButtonGroup>
+      </Stack>
+
+      {error && (
+        <DockerErrorAlert
+          error={{ ...error, actions: error.actions.filter((a) => a.kind === "refresh" || a.kind === "force-disconnect") }}
+          onAction={runErrorAction}
+          onClose={() => setError(null)}
+          sx={{ mb: 2 }}
+        />
+      )}
+
+      <Paper sx={{ overflow: "hidden" }}>
+        <Box sx={{ px: 2, py: 1.5, bgcolor: "background.default", borderBottom: "1px solid", borderColor: "divider" }}>
+          <Typography variant="subtitle2">
+            {loading && containers.length === 0
+              ? "Loading..."
+              : `${filtered.length} container${filtered.length !== 1 ? "s" : ""}`}
+            {view === "matrix" ? ` • ${networks.length} network${networks.length !== 1 ? "s" : ""}` : ""}
+          </Typography>
+        </Box>
+
+        {loading && containers.length === 0 ? (
+          <Box sx={{ p: 2 }}>
+            <Stack spacing={1}>
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} variant="rectangular" height={40} />
+              ))}
+            </Stack>
+          </Box>
+        ) : filtered.length === 0 ? (
+          <Box sx={{ p: 4, textAlign: "center" }}>
+            <Typography variant="body2" color="text.secondary">
+              {containers.length === 0 ? "No containers found" : "No containers match your search"}
+            </Typography>
+          </Box>
+        ) : view === "matrix" ? (
+          renderMatrix()
+        ) : (
+          renderList()
+        )}
+      </Paper>
+    </Box>
+  );
+}
@@ -0,0 +1,230 @@
+import React from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  MenuItem,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { alpha } from "@mui/material/styles";
+
+import { classifyDockerError } from "./dockerErrors";
+import type { DockerContextRow } from "./contexts";
+import { inspectNetwork, listNetworks } from "./networkApi";
+import { compareNetworks } from "./networkDiff";
+import type { NetworkInspect } from "./types";
+
+type ContextResult = { network?: NetworkInspect; error?: string };
+
+/** The same network name inspected in several Docker contexts, one column per context. */
+export default function ContextCompareDialog(props: {
+  open: boolean;
+  contexts: DockerContextRow[];
+  onClose: () => void;
+}) {
+  const { open, contexts, onClose } = props;
+  const [chosen, setChosen] = React.useState<string[]>([]);
+  const [names, setNames] = React.useState<string[]>([]);
+  const [name, setName] = React.useState("");
+  const [results, setResults] = React.useState<Record<string, ContextResult>>({});
+  const [loading, setLoading] = React.useState(false);
+  const [hideSame, setHideSame] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) return;
+    setChosen(contexts.filter((c) => !c.Error).map((c) => c.Name));
+    setName("");
+    setResults({});
+  }, [open]);
+
+  // Names offered are the union across the chosen contexts; unreachable engines just contribute none
+  React.useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    Promise.allSettled(chosen.map((c) => listNetworks(c))).then((lists) => {
+      if (cancelled) return;
+      const all = new Set<string>();
+      lists.forEach((l) => l.status === "fulfilled" && l.value.forEach((n) => all.add(n.Name)));
+      setNames(Array.from(all).sort());
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, chosen]);
+
+  React.useEffect(() => {
+    if (!open || !name) return;
+    let cancelled = false;
+    setLoading(true);
+    Promise.all(
+      chosen.map(async (c): Promise<[string, ContextResult]> => {
+        try {
+          return [c, { network: await inspectNetwork(name, c) }];
+        } catch (e: any) {
+          const failure = classifyDockerError(e);
+          // A missing network is an expected answer, not an error
+          return [c, failure.code === "NOT_FOUND" ? {} : { error: failure.message }];
+        }
+      })
+    ).then((entries) => {
+      if (cancelled) return;
+      setResults(Object.fromEntries(entries));
+      setLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, name, chosen]);
+
+  function toggle(context: string) {
+    // Columns keep the order of `docker context ls`
+    setChosen((prev) =>
+      contexts.map((c) => c.Name).filter((c) => (c === context ? !prev.includes(c) : prev.includes(c)))
+    );
+  }
+
+  const columns = chosen.filter((c) => results[c]);
+  const sections = React.useMemo(
+    () => compareNetworks(columns.map((c) => results[c].network)),
+    [results, columns.join(",")]
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Compare across contexts</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Stack direction="row" gap={1} flexWrap="wrap">
+            {contexts.map((c) => (
+              <FormControlLabel
+                key={c.Name}
+                control={
+                  <Checkbox
+                    size="small"
+                    checked={chosen.includes(c.Name)}
+                    disabled={!!c.Error}
+                    onChange={() => toggle(c.Name)}
+                  />
+                }
+                label={c.Name}
+              />
+            ))}
+          </Stack>
+
+          <Stack direction="row" gap={2} alignItems="center">
+            <TextField
+              size="small"
+              select
+              label="Network"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              sx={{ minWidth: 260 }}
+            >
+              {names.map((n) => (
+                <MenuItem key={n} value={n}>
+                  {n}
+                </MenuItem>
+              ))}
+            </TextField>
+            {loading && <CircularProgress size={20} />}
+            <Box sx={{ flex: 1 }} />
+            <FormControlLabel
+              control={<Switch size="small" checked={hideSame} onChange={(e) => setHideSame(e.target.checked)} />}
+              label="Only differences"
+            />
+          </Stack>
+
+          {columns
+            .filter((c) => results[c].error)
+            .map((c) => (
+              <Alert key={c} severity="error" sx={{ whiteSpace: "pre-line" }}>
+                <b>{c}:</b> {results[c].error}
+              </Alert>
+            ))}
+
+          {!name ? (
+            <Typography variant="body2" color="text.secondary">
+              Pick a network name to see how it is configured in each context.
+            </Typography>
+          ) : (
+            columns.length > 0 && (
+              <Box sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, overflow: "auto" }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell />
+                      {columns.map((c) => (
+                        <TableCell key={c}>
+                          <b>{c}</b>
+                          {!results[c].network && !results[c].error && (
+                            <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+                              No network named {name}
+                            </Typography>
+                          )}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {sections.map((section) => {
+                      const rows = hideSame ? section.rows.filter((r) => r.differs) : section.rows;
+                      if (rows.length === 0) return null;
+                      return (
+                        <React.Fragment key={section.title}>
+                          <TableRow>
+                            <TableCell colSpan={columns.length + 1} sx={{ bgcolor: "action.hover" }}>
+                              <Typography variant="subtitle2">{section.title}</Typography>
+                            </TableCell>
+                          </TableRow>
+                          {rows.map((r) => (
+                            <TableRow
+                              key={r.key}
+                              sx={r.differs ? { bgcolor: (theme) => alpha(theme.palette.warning.main, 0.12) } : undefined}
+                            >
+                              <TableCell>
+                                <Typography variant="body2" component="code" sx={{ wordBreak: "break-all" }}>
+                                  {r.key}
+                                </Typography>
+                              </TableCell>
+                              {r.values.map((v, i) => (
+                                <TableCell key={columns[i]} sx={{ wordBreak: "break-all" }}>
+                                  {v ?? (
+                                    <Typography variant="body2" color="text.secondary">
+                                      —
+                                    </Typography>
+                                  )}
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          ))}
+                        </React.Fragment>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </Box>
+            )
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
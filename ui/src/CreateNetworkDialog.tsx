@@ -0,0 +1,414 @@
+import React from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  FormControlLabel,
+  IconButton,
+  MenuItem,
+  Stack,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import AddIcon from "@mui/icons-material/Add";
+import DeleteIcon from "@mui/icons-material/Delete";
+
+import type { DockerError, ErrorAction } from "./dockerErrors";
+import DockerErrorAlert from "./DockerErrorAlert";
+import KeyValueEditor, { keyValuesFromMap, mapFromKeyValues, type KeyValue } from "./KeyValueEditor";
+import { specFromInspect, type NetworkSpec } from "./networkSpec";
+import { ENCRYPTED_OPTION } from "./swarm";
+import type { NetworkInspect } from "./types";
+import { hasErrors, issueFor, validateNetworkSpec, type FieldIssue } from "./validation";
+
+const DRIVERS = ["bridge", "overlay", "macvlan", "ipvlan"];
+
+type PoolForm = {
+  subnet: string;
+  ipRange: string;
+  gateway: string;
+  auxAddresses: KeyValue[];
+};
+
+type CreateForm = {
+  name: string;
+  driver: string;
+  scope: string;
+  attachable: boolean;
+  /** Overlay only: `-o encrypted`, IPsec between nodes */
+  encrypted: boolean;
+  internal: boolean;
+  ipv6: boolean;
+  configOnly: boolean;
+  configFrom: string;
+  ipamDriver: string;
+  ipamOptions: KeyValue[];
+  pools: PoolForm[];
+  options: KeyValue[];
+  labels: KeyValue[];
+};
+
+const EMPTY_POOL: PoolForm = { subnet: "", ipRange: "", gateway: "", auxAddresses: [] };
+
+const EMPTY_FORM: CreateForm = {
+  name: "",
+  driver: "bridge",
+  scope: "",
+  attachable: false,
+  encrypted: false,
+  internal: false,
+  ipv6: false,
+  configOnly: false,
+  configFrom: "",
+  ipamDriver: "",
+  ipamOptions: [],
+  pools: [],
+  options: [],
+  labels: [],
+};
+
+/** Error or warning text for a field, shown under it as the user types */
+function fieldProps(issue?: FieldIssue) {
+  return { error: issue?.severity === "error", helperText: issue?.message };
+}
+
+function IssueText(props: { issue?: FieldIssue }) {
+  if (!props.issue) return null;
+  return (
+    <Typography variant="caption" color={props.issue.severity === "error" ? "error" : "warning.main"}>
+      {props.issue.message}
+    </Typography>
+  );
+}
+
+function formFromSpec(spec: NetworkSpec): CreateForm {
+  const { [ENCRYPTED_OPTION]: encrypted, ...options } = spec.options || {};
+  return {
+    name: spec.name,
+    driver: spec.driver,
+    scope: spec.scope || "",
+    attachable: !!spec.attachable,
+    encrypted: spec.driver === "overlay" && encrypted !== undefined,
+    internal: !!spec.internal,
+    ipv6: !!spec.ipv6,
+    configOnly: !!spec.configOnly,
+    configFrom: spec.configFrom || "",
+    ipamDriver: spec.ipamDriver || "",
+    ipamOptions: keyValuesFromMap(spec.ipamOptions),
+    pools: (spec.pools || []).map((p) => ({
+      subnet: p.subnet || "",
+      ipRange: p.ipRange || "",
+      gateway: p.gateway || "",
+      auxAddresses: keyValuesFromMap(p.auxAddresses),
+    })),
+    options: keyValuesFromMap(spec.driver === "overlay" ? options : spec.options),
+    labels: keyValuesFromMap(spec.labels),
+  };
+}
+
+/** Pools in form order, blank ones included, so validation issues line up with the form */
+function poolSpecs(form: CreateForm) {
+  return form.pools.map((p) => ({
+    subnet: p.subnet.trim() || undefined,
+    ipRange: p.ipRange.trim() || undefined,
+    gateway: p.gateway.trim() || undefined,
+    auxAddresses: mapFromKeyValues(p.auxAddresses),
+  }));
+}
+
+function specFromForm(form: CreateForm): NetworkSpec {
+  const pools = poolSpecs(form).filter((p) => p.subnet || p.ipRange || p.gateway || p.auxAddresses);
+  // IPAM and driver options come from the referenced network when using --config-from
+  const inherits = !!form.configFrom;
+  const options = mapFromKeyValues(form.options);
+  const encrypted = form.driver === "overlay" && form.encrypted ? { [ENCRYPTED_OPTION]: "" } : undefined;
+  return {
+    name: form.name.trim(),
+    driver: form.driver,
+    scope: form.scope || undefined,
+    attachable: form.attachable || undefined,
+    internal: form.internal || undefined,
+    ipv6: (!inherits && form.ipv6) || undefined,
+    configOnly: form.configOnly || undefined,
+    configFrom: form.configFrom || undefined,
+    ipamDriver: (!inherits && form.ipamDriver.trim()) || undefined,
+    ipamOptions: inherits ? undefined : mapFromKeyValues(form.ipamOptions),
+    pools: !inherits && pools.length ? pools : undefined,
+    options: inherits || !(options || encrypted) ? undefined : { ...options, ...encrypted },
+    labels: mapFromKeyValues(form.labels),
+  };
+}
+
+export default function CreateNetworkDialog(props: {
+  open: boolean;
+  /** Set when editing an existing network */
+  editing: NetworkInspect | null;
+  /** Names of config-only networks usable with --config-from */
+  configOnlyNetworks: string[];
+  /** Overlay networks with swarm scope can only be created on a swarm manager */
+  swarmManager: boolean;
+  error: DockerError | null;
+  onClose: () => void;
+  onSubmit: (spec: NetworkSpec) => void;
+  onErrorAction?: (action: ErrorAction) => void;
+}) {
+  const { open, editing, configOnlyNetworks, swarmManager, error, onClose, onSubmit, onErrorAction } = props;
+  const [form, setForm] = React.useState<CreateForm>(EMPTY_FORM);
+
+  React.useEffect(() => {
+    if (open) setForm(editing ? formFromSpec(specFromInspect(editing)) : EMPTY_FORM);
+  }, [open, editing]);
+
+  const inherits = !!form.configFrom;
+  const overlay = form.driver === "overlay";
+
+  const spec = specFromForm(form);
+  const issues = validateNetworkSpec({ ...spec, pools: inherits ? undefined : poolSpecs(form) });
+  const issue = (field: string) => issueFor(issues, field);
+  // An empty name is only flagged once the user starts typing; Create stays disabled either way
+  const nameIssue = form.name ? issue("name") : undefined;
+  const nameTaken = error?.code === "NAME_CONFLICT";
+  const subnetRejected = error?.code === "INVALID_SUBNET" || error?.code === "POOL_OVERLAP";
+
+  const updatePool = (index: number, patch: Partial<PoolForm>) =>
+    setForm((s) => ({ ...s, pools: s.pools.map((p, i) => (i === index ? { ...p, ...patch } : p)) }));
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{editing ? "Edit network" : "Create network"}</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {editing && (
+            <Alert severity="info">
+              Docker can't change a network in place. Saving disconnects the{" "}
+              {Object.keys(editing.Containers || {}).length} attached container(s), removes the network, recreates it
+              with these settings and reconnects them. Any failure is rolled back.
+            </Alert>
+          )}
+          <TextField
+            label="Name"
+            value={form.name}
+            onChange={(e) => setForm((s) => ({ ...s, name: e.target.value }))}
+            required
+            autoFocus
+            error={nameTaken || nameIssue?.severity === "error"}
+            helperText={nameTaken ? error.message : nameIssue?.message}
+          />
+          <Stack direction="row" gap={2}>
+            <TextField
+              label="Driver"
+              select
+              value={form.driver}
+              onChange={(e) => setForm((s) => ({ ...s, driver: e.target.value }))}
+              disabled={form.configOnly}
+              {...fieldProps(issue("driver"))}
+              sx={{ flex: 1 }}
+            >
+              {(DRIVERS.includes(form.driver) ? DRIVERS : [...DRIVERS, form.driver]).map((d) => (
+                <MenuItem key={d} value={d}>
+                  {d}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Scope"
+              select
+              value={form.scope}
+              onChange={(e) => setForm((s) => ({ ...s, scope: e.target.value }))}
+              sx={{ flex: 1 }}
+            >
+              <MenuItem value="">Driver default</MenuItem>
+              <MenuItem value="local">local</MenuItem>
+              <MenuItem value="swarm">swarm</MenuItem>
+              <MenuItem value="global">global</MenuItem>
+            </TextField>
+          </Stack>
+
+          {overlay && (
+            <Alert severity={swarmManager || form.configOnly ? "info" : "warning"}>
+              {swarmManager
+                ? "Overlay networks span the swarm. Turn on Attachable to let standalone containers join, not just services. Encryption adds IPsec between nodes at some cost in throughput."
+                : "This engine isn't a swarm manager, so Docker will refuse to create an overlay network. Run docker swarm init or switch to a manager node."}
+            </Alert>
+          )}
+
+          <Stack direction="row" gap={1} flexWrap="wrap">
+            <FormControlLabel
+              control={
+                <Switch checked={form.attachable} onChange={(e) => setForm((s) => ({ ...s, attachable: e.target.checked }))} />
+              }
+              label="Attachable"
+            />
+            {overlay && (
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={form.encrypted}
+                    disabled={inherits}
+                    onChange={(e) => setForm((s) => ({ ...s, encrypted: e.target.checked }))}
+                  />
+                }
+                label="Encrypted"
+              />
+            )}
+            <FormControlLabel
+              control={
+                <Switch checked={form.internal} onChange={(e) => setForm((s) => ({ ...s, internal: e.target.checked }))} />
+              }
+              label="Internal"
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.ipv6}
+                  disabled={inherits}
+                  onChange={(e) => setForm((s) => ({ ...s, ipv6: e.target.checked }))}
+                />
+              }
+              label="IPv6"
+            />
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={form.configOnly}
+                  disabled={inherits}
+                  onChange={(e) => setForm((s) => ({ ...s, configOnly: e.target.checked }))}
+                />
+              }
+              label="Config only"
+            />
+          </Stack>
+
+          <TextField
+            label="Config from"
+            select
+            value={form.configFrom}
+            onChange={(e) => setForm((s) => ({ ...s, configFrom: e.target.value }))}
+            disabled={form.configOnly}
+            helperText="Take IPAM and driver options from a config-only network"
+          >
+            <MenuItem value="">None</MenuItem>
+            {configOnlyNetworks.map((n) => (
+              <MenuItem key={n} value={n}>
+                {n}
+              </MenuItem>
+            ))}
+          </TextField>
+
+          <Divider />
+          <Typography variant="subtitle2">IPAM (optional)</Typography>
+          <TextField
+            label="IPAM driver"
+            value={form.ipamDriver}
+            onChange={(e) => setForm((s) => ({ ...s, ipamDriver: e.target.value }))}
+            placeholder="default"
+            disabled={inherits}
+            {...fieldProps(issue("ipamDriver"))}
+          />
+          <KeyValueEditor
+            rows={form.ipamOptions}
+            onChange={(ipamOptions) => setForm((s) => ({ ...s, ipamOptions }))}
+            addLabel="Add IPAM option"
+            disabled={inherits}
+          />
+          <IssueText issue={issue("ipamOptions")} />
+
+          {form.pools.map((pool, i) => (
+            <Box key={i} sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, p: 1.5 }}>
+              <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+                <Typography variant="body2">
+                  <b>Pool {i + 1}</b>
+                </Typography>
+                <Tooltip title="Remove pool">
+                  <IconButton size="small" onClick={() => setForm((s) => ({ ...s, pools: s.pools.filter((_, j) => j !== i) }))}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Stack>
+              <Stack spacing={1.5}>
+                <TextField
+                  size="small"
+                  label="Subnet (e.g. 172.28.0.0/16 or fd00:28::/64)"
+                  value={pool.subnet}
+                  onChange={(e) => updatePool(i, { subnet: e.target.value })}
+                  {...fieldProps(issue(`pools.${i}.subnet`))}
+                  error={issue(`pools.${i}.subnet`)?.severity === "error" || subnetRejected}
+                />
+                <Stack direction="row" gap={1}>
+                  <TextField
+                    size="small"
+                    label="IP range (e.g. 172.28.5.0/24)"
+                    value={pool.ipRange}
+                    onChange={(e) => updatePool(i, { ipRange: e.target.value })}
+                    {...fieldProps(issue(`pools.${i}.ipRange`))}
+                    sx={{ flex: 1 }}
+                  />
+                  <TextField
+                    size="small"
+                    label="Gateway (e.g. 172.28.0.1)"
+                    value={pool.gateway}
+                    onChange={(e) => updatePool(i, { gateway: e.target.value })}
+                    {...fieldProps(issue(`pools.${i}.gateway`))}
+                    sx={{ flex: 1 }}
+                  />
+                </Stack>
+                <KeyValueEditor
+                  rows={pool.auxAddresses}
+                  onChange={(auxAddresses) => updatePool(i, { auxAddresses })}
+                  addLabel="Add aux address"
+                  keyPlaceholder="host"
+                  valuePlaceholder="address"
+                />
+                <IssueText issue={issue(`pools.${i}.auxAddresses`)} />
+              </Stack>
+            </Box>
+          ))}
+          <Button
+            size="small"
+            startIcon={<AddIcon />}
+            sx={{ alignSelf: "flex-start" }}
+            disabled={inherits}
+            onClick={() => setForm((s) => ({ ...s, pools: [...s.pools, { ...EMPTY_POOL }] }))}
+          >
+            Add subnet pool
+          </Button>
+          {subnetRejected && <DockerErrorAlert error={error} onAction={onErrorAction} />}
+
+          <Divider />
+          <Typography variant="subtitle2">Driver options</Typography>
+          <KeyValueEditor
+            rows={form.options}
+            onChange={(options) => setForm((s) => ({ ...s, options }))}
+            addLabel="Add option"
+            keyPlaceholder="com.docker.network.driver.mtu"
+            disabled={inherits}
+          />
+          <IssueText issue={issue("options")} />
+
+          <Divider />
+          <Typography variant="subtitle2">Labels</Typography>
+          <KeyValueEditor
+            rows={form.labels}
+            onChange={(labels) => setForm((s) => ({ ...s, labels }))}
+            addLabel="Add label"
+          />
+          <IssueText issue={issue("labels")} />
+
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" disabled={hasErrors(issues)} onClick={() => onSubmit(spec)}>
+          {editing ? "Save" : "Create"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
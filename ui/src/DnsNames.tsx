@@ -0,0 +1,152 @@
+import React from "react";
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  FormControlLabel,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography,
+  alpha,
+} from "@mui/material";
+import WarningAmberIcon from "@mui/icons-material/WarningAmber";
+
+import { parseDockerError } from "./api";
+import { inspectContainers } from "./containerApi";
+import { collectDnsNames, type DnsName, type DnsNameKind } from "./dns";
+import type { NetworkInspect } from "./types";
+
+const KIND_COLORS: Record<DnsNameKind, "primary" | "secondary" | "default" | "info"> = {
+  container: "primary",
+  service: "secondary",
+  alias: "info",
+  id: "default",
+};
+
+/** Names the embedded DNS resolves on a network, with round-robin collisions highlighted. */
+export default function DnsNames(props: { network: NetworkInspect }) {
+  const { network } = props;
+  const [names, setNames] = React.useState<DnsName[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [showIds, setShowIds] = React.useState(false);
+
+  const containerIds = Object.keys(network.Containers || {});
+  const idsKey = containerIds.join(",");
+
+  React.useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    inspectContainers(containerIds)
+      .then((containers) => !cancelled && setNames(collectDnsNames(network, containers)))
+      .catch((e) => !cancelled && setError(parseDockerError(e)))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [network.Id, idsKey]);
+
+  // The default bridge has no embedded DNS; containers there only see /etc/hosts links
+  if (network.Name === "bridge") {
+    return (
+      <Alert severity="info">
+        The default bridge network has no embedded DNS. Containers can only reach each other by IP address or legacy
+        --link entries. Use a user-defined network for name resolution.
+      </Alert>
+    );
+  }
+  if (network.Driver === "host" || network.Driver === "null") {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        Containers on this network don't get network-scoped DNS names.
+      </Typography>
+    );
+  }
+
+  const visible = names.filter((n) => showIds || !(n.kinds.length === 1 && n.kinds[0] === "id"));
+  const ambiguous = names.filter((n) => n.ambiguous);
+
+  return (
+    <Stack spacing={1.5}>
+      {error && <Alert severity="error">{error}</Alert>}
+      {ambiguous.length > 0 && (
+        <Alert severity="warning">
+          {ambiguous.length} name{ambiguous.length !== 1 ? "s resolve" : " resolves"} to several containers. DNS
+          answers round-robin between them, so lookups may reach a different container each time.
+        </Alert>
+      )}
+      <Stack direction="row" justifyContent="space-between" alignItems="center">
+        <Typography variant="body2" color="text.secondary">
+          {loading ? "Inspecting containers..." : `${visible.length} name${visible.length !== 1 ? "s" : ""}`}
+        </Typography>
+        <FormControlLabel
+          control={<Switch size="small" checked={showIds} onChange={(e) => setShowIds(e.target.checked)} />}
+          label="Show container IDs"
+        />
+      </Stack>
+
+      {loading && names.length === 0 ? (
+        <CircularProgress size={20} />
+      ) : visible.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No containers attached.
+        </Typography>
+      ) : (
+        <Box sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, overflow: "auto" }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Name</TableCell>
+                <TableCell>Source</TableCell>
+                <TableCell>Resolves to</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {visible.map((n) => (
+                <TableRow
+                  key={n.name}
+                  sx={n.ambiguous ? { bgcolor: (theme) => alpha(theme.palette.warning.main, 0.12) } : undefined}
+                >
+                  <TableCell>
+                    <Stack direction="row" gap={0.5} alignItems="center">
+                      {n.ambiguous && (
+                        <Tooltip title="Round-robin: several containers share this name">
+                          <WarningAmberIcon fontSize="small" color="warning" />
+                        </Tooltip>
+                      )}
+                      <code>{n.name}</code>
+                    </Stack>
+                  </TableCell>
+                  <TableCell>
+                    <Stack direction="row" gap={0.5} flexWrap="wrap">
+                      {n.kinds.map((k) => (
+                        <Chip key={k} size="small" label={k} color={KIND_COLORS[k]} variant="outlined" />
+                      ))}
+                    </Stack>
+                  </TableCell>
+                  <TableCell>
+                    {n.targets.map((t) => (
+                      <Typography key={t.containerId} variant="body2" noWrap title={t.containerId}>
+                        {t.containerName}
+                        {t.address ? ` (${t.address})` : ""}
+                        {n.ambiguous && t.project ? ` • ${t.project}` : ""}
+                      </Typography>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Box>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,53 @@
+import React from "react";
+import { Alert, Box, Button, Collapse, Stack, Typography, type SxProps, type Theme } from "@mui/material";
+
+import type { DockerError, ErrorAction } from "./dockerErrors";
+
+/** A failed command: the explanation, buttons for the fixes on offer, and docker's own output on demand. */
+export default function DockerErrorAlert(props: {
+  error: DockerError;
+  onAction?: (action: ErrorAction) => void;
+  onClose?: () => void;
+  sx?: SxProps<Theme>;
+}) {
+  const { error, onAction, onClose, sx } = props;
+  const [showDetails, setShowDetails] = React.useState(false);
+  // Nothing to add when the message already is docker's output
+  const hasDetails = error.stderr !== error.message || !!error.command;
+
+  return (
+    <Alert severity="error" onClose={onClose} sx={{ whiteSpace: "pre-line", ...sx }}>
+      {error.message}
+      {(hasDetails || (onAction && error.actions.length > 0)) && (
+        <Stack direction="row" gap={1} flexWrap="wrap" sx={{ mt: 1 }}>
+          {onAction &&
+            error.actions.map((action) => (
+              <Button key={action.kind} size="small" variant="outlined" color="error" onClick={() => onAction(action)}>
+                {action.label}
+              </Button>
+            ))}
+          {hasDetails && (
+            <Button size="small" color="inherit" onClick={() => setShowDetails((v) => !v)}>
+              {showDetails ? "Hide details" : "Details"}
+            </Button>
+          )}
+        </Stack>
+      )}
+      <Collapse in={showDetails} unmountOnExit>
+        <Box sx={{ mt: 1, fontFamily: "monospace", fontSize: 12, wordBreak: "break-all" }}>
+          {error.command && (
+            <Typography variant="caption" component="div" sx={{ fontFamily: "inherit" }}>
+              $ {error.command}
+            </Typography>
+          )}
+          <Typography variant="caption" component="div" sx={{ fontFamily: "inherit" }}>
+            {error.stderr}
+          </Typography>
+          <Typography variant="caption" component="div" color="text.secondary" sx={{ fontFamily: "inherit" }}>
+            {error.code}
+          </Typography>
+        </Box>
+      </Collapse>
+    </Alert>
+  );
+}
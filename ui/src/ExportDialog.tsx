@@ -0,0 +1,149 @@
+import React from "react";
+import {
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import FileDownloadIcon from "@mui/icons-material/FileDownload";
+
+import { specFromInspect, toComposeYaml, toSpecJson } from "./networkSpec";
+import type { NetworkInspect } from "./types";
+
+type Format = "compose" | "json";
+
+export function download(filename: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ExportDialog(props: {
+  open: boolean;
+  networks: NetworkInspect[];
+  onClose: () => void;
+}) {
+  const { open, networks, onClose } = props;
+  const [format, setFormat] = React.useState<Format>("compose");
+  const [selected, setSelected] = React.useState<Set<string>>(new Set());
+  const [copied, setCopied] = React.useState(false);
+
+  React.useEffect(() => {
+    if (open) {
+      setSelected(new Set(networks.map((n) => n.Id)));
+      setCopied(false);
+    }
+  }, [open]);
+
+  const output = React.useMemo(() => {
+    const specs = networks.filter((n) => selected.has(n.Id)).map(specFromInspect);
+    if (specs.length === 0) return "";
+    return format === "compose" ? toComposeYaml(specs) : toSpecJson(specs);
+  }, [networks, selected, format]);
+
+  function toggle(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Export networks</DialogTitle>
+      <DialogContent>
+        <Stack direction="row" gap={2} sx={{ mt: 1 }}>
+          <Box sx={{ width: 220, flexShrink: 0, maxHeight: "50vh", overflow: "auto" }}>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  size="small"
+                  checked={selected.size === networks.length && networks.length > 0}
+                  indeterminate={selected.size > 0 && selected.size < networks.length}
+                  onChange={(e) => setSelected(new Set(e.target.checked ? networks.map((n) => n.Id) : []))}
+                />
+              }
+              label={<Typography variant="subtitle2">All networks</Typography>}
+            />
+            {networks.map((n) => (
+              <FormControlLabel
+                key={n.Id}
+                sx={{ display: "flex" }}
+                control={<Checkbox size="small" checked={selected.has(n.Id)} onChange={() => toggle(n.Id)} />}
+                label={
+                  <Typography variant="body2" noWrap title={n.Name}>
+                    {n.Name}
+                  </Typography>
+                }
+              />
+            ))}
+          </Box>
+
+          <Box sx={{ flex: 1, minWidth: 0 }}>
+            <ToggleButtonGroup size="small" exclusive value={format} onChange={(_, v) => v && setFormat(v)} sx={{ mb: 1 }}>
+              <ToggleButton value="compose">Compose YAML</ToggleButton>
+              <ToggleButton value="json">JSON spec</ToggleButton>
+            </ToggleButtonGroup>
+            <Box
+              component="pre"
+              sx={{
+                fontSize: 12,
+                whiteSpace: "pre-wrap",
+                wordBreak: "break-word",
+                bgcolor: "background.paper",
+                border: "1px solid",
+                borderColor: "divider",
+                borderRadius: 2,
+                p: 1,
+                m: 0,
+                height: "45vh",
+                overflow: "auto",
+              }}
+            >
+              {output || "Select at least one network."}
+            </Box>
+          </Box>
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        <Button
+          startIcon={<ContentCopyIcon />}
+          disabled={!output}
+          onClick={async () => {
+            await navigator.clipboard.writeText(output);
+            setCopied(true);
+          }}
+        >
+          {copied ? "Copied" : "Copy"}
+        </Button>
+        <Button
+          variant="contained"
+          startIcon={<FileDownloadIcon />}
+          disabled={!output}
+          onClick={() =>
+            format === "compose"
+              ? download("networks.compose.yaml", output, "application/yaml")
+              : download("networks.json", output, "application/json")
+          }
+        >
+          Download
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,137 @@
+import React from "react";
+import { Alert, Box, Button, Chip, CircularProgress, Drawer, Stack, Tooltip, Typography } from "@mui/material";
+import CheckCircleIcon from "@mui/icons-material/CheckCircle";
+import ErrorIcon from "@mui/icons-material/Error";
+import UndoIcon from "@mui/icons-material/Undo";
+
+import { parseDockerError } from "./api";
+import {
+  clearHistory,
+  loadHistory,
+  subscribeHistory,
+  undoBlocker,
+  undoOperation,
+  type HistoryAction,
+  type HistoryEntry,
+} from "./history";
+
+const ACTION_COLORS: Record<HistoryAction, "success" | "error" | "primary" | "warning" | "default"> = {
+  create: "success",
+  remove: "error",
+  prune: "error",
+  connect: "primary",
+  disconnect: "warning",
+  edit: "default",
+};
+
+/** Recorded network operations, newest first, with undo where it's possible. */
+export default function HistoryPanel(props: { open: boolean; onClose: () => void; onChanged: () => void }) {
+  const { open, onClose, onChanged } = props;
+  const [entries, setEntries] = React.useState<HistoryEntry[]>(loadHistory);
+  const [undoing, setUndoing] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => subscribeHistory(setEntries), []);
+
+  async function undo(entry: HistoryEntry) {
+    setUndoing(entry.id);
+    setError(null);
+    try {
+      await undoOperation(entry);
+      onChanged();
+    } catch (e: any) {
+      setError(parseDockerError(e));
+    } finally {
+      setUndoing(null);
+    }
+  }
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose}>
+      <Box sx={{ width: 560, p: 2, height: "100%", overflow: "auto" }}>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+          <Typography variant="h6">History</Typography>
+          <Button size="small" onClick={clearHistory} disabled={entries.length === 0}>
+            Clear
+          </Button>
+        </Stack>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 1, whiteSpace: "pre-line" }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {entries.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            Creates, removals, prunes, connects and disconnects made from this extension show up here.
+          </Typography>
+        ) : (
+          <Box sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, overflow: "hidden" }}>
+            {entries.map((e) => {
+              const blocker = undoBlocker(e);
+              return (
+                <Box
+                  key={e.id}
+                  sx={{
+                    px: 1.5,
+                    py: 1,
+                    opacity: e.undoneAt ? 0.6 : 1,
+                    "&:not(:last-child)": { borderBottom: "1px solid", borderColor: "divider" },
+                  }}
+                >
+                  <Stack direction="row" gap={1} alignItems="center">
+                    {e.ok ? (
+                      <CheckCircleIcon fontSize="small" color="success" />
+                    ) : (
+                      <ErrorIcon fontSize="small" color="error" />
+                    )}
+                    <Chip size="small" label={e.action} color={ACTION_COLORS[e.action]} variant="outlined" />
+                    {e.context && <Chip size="small" label={e.context} />}
+                    <Typography variant="body2" noWrap sx={{ flex: 1, minWidth: 0 }}>
+                      <b>{e.network}</b>
+                      {e.container ? ` • ${e.container}` : ""}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" noWrap>
+                      {new Date(e.time).toLocaleString()}
+                    </Typography>
+                    <Tooltip title={blocker || "Undo"}>
+                      <span>
+                        <Button
+                          size="small"
+                          startIcon={undoing === e.id ? <CircularProgress size={14} /> : <UndoIcon />}
+                          disabled={!!blocker || !!undoing}
+                          onClick={() => undo(e)}
+                        >
+                          Undo
+                        </Button>
+                      </span>
+                    </Tooltip>
+                  </Stack>
+                  <Typography
+                    variant="caption"
+                    component="code"
+                    color="text.secondary"
+                    sx={{ display: "block", wordBreak: "break-all", mt: 0.5 }}
+                  >
+                    {e.command}
+                  </Typography>
+                  {e.error && (
+                    <Typography variant="caption" color="error" sx={{ display: "block" }}>
+                      {e.error}
+                    </Typography>
+                  )}
+                  {e.undoneAt && (
+                    <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+                      Undone {new Date(e.undoneAt).toLocaleString()}
+                    </Typography>
+                  )}
+                </Box>
+              );
+            })}
+          </Box>
+        )}
+      </Box>
+    </Drawer>
+  );
+}
@@ -0,0 +1,205 @@
+import React from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from "@mui/material";
+import FileUploadIcon from "@mui/icons-material/FileUpload";
+import CheckCircleIcon from "@mui/icons-material/CheckCircle";
+import ErrorIcon from "@mui/icons-material/Error";
+
+import { parseDockerError } from "./api";
+import { trackCreate } from "./history";
+import { parseSpecs, type NetworkSpec } from "./networkSpec";
+
+type Result = { name: string; ok: boolean; message?: string };
+
+export default function ImportDialog(props: {
+  open: boolean;
+  existingNames: Set<string>;
+  onClose: () => void;
+  onImported: () => void;
+}) {
+  const { open, existingNames, onClose, onImported } = props;
+  const [text, setText] = React.useState("");
+  const [specs, setSpecs] = React.useState<NetworkSpec[]>([]);
+  const [parseError, setParseError] = React.useState<string | null>(null);
+  const [selected, setSelected] = React.useState<Set<string>>(new Set());
+  const [results, setResults] = React.useState<Result[] | null>(null);
+  const [busy, setBusy] = React.useState(false);
+  const fileInput = React.useRef<HTMLInputElement>(null);
+
+  React.useEffect(() => {
+    if (open) {
+      setText("");
+      setSpecs([]);
+      setParseError(null);
+      setResults(null);
+    }
+  }, [open]);
+
+  function onTextChange(value: string) {
+    setText(value);
+    setResults(null);
+    try {
+      const parsed = parseSpecs(value);
+      setSpecs(parsed);
+      setSelected(new Set(parsed.filter((s) => !existingNames.has(s.name)).map((s) => s.name)));
+      setParseError(null);
+    } catch (e: any) {
+      setSpecs([]);
+      setParseError(e.message);
+    }
+  }
+
+  async function onImport() {
+    setBusy(true);
+    const out: Result[] = [];
+    for (const spec of specs.filter((s) => selected.has(s.name))) {
+      try {
+        await trackCreate(spec);
+        out.push({ name: spec.name, ok: true });
+      } catch (e: any) {
+        out.push({ name: spec.name, ok: false, message: parseDockerError(e) });
+      }
+    }
+    setResults(out);
+    setBusy(false);
+    onImported();
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import networks</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Stack direction="row" gap={1} alignItems="center">
+            <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+              Paste a Compose <code>networks:</code> block or a JSON spec exported from this extension.
+            </Typography>
+            <Button size="small" startIcon={<FileUploadIcon />} onClick={() => fileInput.current?.click()}>
+              Load file
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".yaml,.yml,.json"
+              hidden
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                if (file) onTextChange(await file.text());
+                e.target.value = "";
+              }}
+            />
+          </Stack>
+
+          <TextField
+            multiline
+            minRows={6}
+            maxRows={14}
+            value={text}
+            onChange={(e) => onTextChange(e.target.value)}
+            placeholder={"networks:\n  backend:\n    driver: bridge"}
+            InputProps={{ sx: { fontFamily: "monospace", fontSize: 12 } }}
+          />
+
+          {parseError && <Alert severity="error">{parseError}</Alert>}
+
+          {specs.length > 0 && (
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell padding="checkbox" />
+                  <TableCell>Name</TableCell>
+                  <TableCell>Driver</TableCell>
+                  <TableCell>Subnets</TableCell>
+                  <TableCell>Flags</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {specs.map((spec) => {
+                  const exists = existingNames.has(spec.name);
+                  const result = results?.find((r) => r.name === spec.name);
+                  return (
+                    <TableRow key={spec.name}>
+                      <TableCell padding="checkbox">
+                        <Checkbox
+                          size="small"
+                          checked={selected.has(spec.name)}
+                          disabled={busy || !!results}
+                          onChange={(e) =>
+                            setSelected((prev) => {
+                              const next = new Set(prev);
+                              if (e.target.checked) next.add(spec.name);
+                              else next.delete(spec.name);
+                              return next;
+                            })
+                          }
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Stack direction="row" gap={1} alignItems="center">
+                          <Typography variant="body2">{spec.name}</Typography>
+                          {exists && <Chip size="small" label="exists" color="warning" variant="outlined" />}
+                          {result &&
+                            (result.ok ? (
+                              <CheckCircleIcon fontSize="small" color="success" />
+                            ) : (
+                              <ErrorIcon fontSize="small" color="error" titleAccess={result.message} />
+                            ))}
+                        </Stack>
+                        {result?.message && (
+                          <Typography variant="caption" color="error">
+                            {result.message}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{spec.driver}</TableCell>
+                      <TableCell>
+                        {(spec.pools || []).map((p, i) => (
+                          <Typography key={i} variant="caption" component="div">
+                            {p.subnet || "auto"}
+                            {p.gateway ? ` via ${p.gateway}` : ""}
+                          </Typography>
+                        ))}
+                      </TableCell>
+                      <TableCell>
+                        <Box sx={{ display: "flex", gap: 0.5, flexWrap: "wrap" }}>
+                          {spec.internal && <Chip size="small" label="internal" />}
+                          {spec.attachable && <Chip size="small" label="attachable" />}
+                          {spec.ipv6 && <Chip size="small" label="ipv6" />}
+                        </Box>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>{results ? "Done" : "Cancel"}</Button>
+        {!results && (
+          <Button variant="contained" disabled={busy || selected.size === 0} onClick={onImport}>
+            Create {selected.size || ""} network{selected.size !== 1 ? "s" : ""}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+import { Alert, Box, Chip, Link, Paper, Stack, Typography } from "@mui/material";
+
+import type { IpamFinding, IpamFindingKind } from "./ipam";
+import type { NetworkInspect } from "./types";
+
+const KIND_LABELS: Record<IpamFindingKind, string> = {
+  invalid: "invalid",
+  overlap: "overlap",
+  "gateway-outside": "gateway",
+  "range-outside": "ip-range",
+};
+
+export default function IpamReport(props: {
+  findings: IpamFinding[];
+  networks: NetworkInspect[];
+  loading: boolean;
+  onNetworkClick: (id: string) => void;
+}) {
+  const { findings, networks, loading, onNetworkClick } = props;
+  const names = new Map(networks.map((n) => [n.Id, n.Name]));
+  const subnetCount = networks.reduce((sum, n) => sum + (n.IPAM?.Config || []).filter((c) => c.Subnet).length, 0);
+
+  return (
+    <Paper sx={{ p: 2, mb: 2 }}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="subtitle2">IPAM report</Typography>
+        <Typography variant="caption" color="text.secondary">
+          {loading
+            ? "Inspecting networks…"
+            : `${subnetCount} subnet${subnetCount !== 1 ? "s" : ""} across ${networks.length} network${networks.length !== 1 ? "s" : ""}`}
+        </Typography>
+      </Stack>
+
+      {findings.length === 0 ? (
+        <Alert severity="success">No overlapping subnets or misplaced gateways and ip-ranges found.</Alert>
+      ) : (
+        <Stack spacing={1}>
+          {findings.map((f, i) => (
+            <Alert key={i} severity={f.severity} icon={false}>
+              <Stack direction="row" gap={1} alignItems="center" flexWrap="wrap">
+                <Chip size="small" label={KIND_LABELS[f.kind]} color={f.severity} variant="outlined" />
+                <Typography variant="body2">{f.message}</Typography>
+                <Box sx={{ flex: 1 }} />
+                {f.networkIds.map((id) => (
+                  <Link key={id} component="button" variant="body2" onClick={() => onNetworkClick(id)}>
+                    {names.get(id) || id.slice(0, 12)}
+                  </Link>
+                ))}
+              </Stack>
+            </Alert>
+          ))}
+        </Stack>
+      )}
+    </Paper>
+  );
+}
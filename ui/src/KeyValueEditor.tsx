@@ -0,0 +1,70 @@
+import { Button, IconButton, Stack, TextField, Tooltip } from "@mui/material";
+import AddIcon from "@mui/icons-material/Add";
+import RemoveCircleOutlineIcon from "@mui/icons-material/RemoveCircleOutline";
+
+export type KeyValue = { key: string; value: string };
+
+export function keyValuesFromMap(map?: Record<string, string> | null): KeyValue[] {
+  return Object.entries(map || {}).map(([key, value]) => ({ key, value }));
+}
+
+/** Drops rows without a key; returns undefined when nothing is left. */
+export function mapFromKeyValues(rows: KeyValue[]): Record<string, string> | undefined {
+  const entries = rows.filter((r) => r.key.trim()).map((r) => [r.key.trim(), r.value] as const);
+  return entries.length ? Object.fromEntries(entries) : undefined;
+}
+
+export default function KeyValueEditor(props: {
+  rows: KeyValue[];
+  onChange: (rows: KeyValue[]) => void;
+  addLabel: string;
+  keyPlaceholder?: string;
+  valuePlaceholder?: string;
+  disabled?: boolean;
+}) {
+  const { rows, onChange, addLabel, keyPlaceholder, valuePlaceholder, disabled } = props;
+
+  const update = (index: number, patch: Partial<KeyValue>) =>
+    onChange(rows.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  return (
+    <Stack spacing={1}>
+      {rows.map((row, i) => (
+        <Stack key={i} direction="row" gap={1} alignItems="center">
+          <TextField
+            size="small"
+            placeholder={keyPlaceholder || "key"}
+            value={row.key}
+            onChange={(e) => update(i, { key: e.target.value })}
+            disabled={disabled}
+            sx={{ flex: 1 }}
+          />
+          <TextField
+            size="small"
+            placeholder={valuePlaceholder || "value"}
+            value={row.value}
+            onChange={(e) => update(i, { value: e.target.value })}
+            disabled={disabled}
+            sx={{ flex: 1 }}
+          />
+          <Tooltip title="Remove">
+            <span>
+              <IconButton size="small" disabled={disabled} onClick={() => onChange(rows.filter((_, j) => j !== i))}>
+                <RemoveCircleOutlineIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </Stack>
+      ))}
+      <Button
+        size="small"
+        startIcon={<AddIcon />}
+        sx={{ alignSelf: "flex-start" }}
+        disabled={disabled}
+        onClick={() => onChange([...rows, { key: "", value: "" }])}
+      >
+        {addLabel}
+      </Button>
+    </Stack>
+  );
+}
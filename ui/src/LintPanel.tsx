@@ -0,0 +1,141 @@
+import React from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Collapse,
+  Link,
+  MenuItem,
+  Paper,
+  Stack,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import SettingsIcon from "@mui/icons-material/Settings";
+
+import { LINT_RULES, defaultLintConfig, type LintConfig, type LintSeverity, type LintViolation } from "./lint";
+import type { NetworkInspect } from "./types";
+
+const SEVERITIES: LintSeverity[] = ["error", "warning", "info"];
+
+/** Health panel: lint violations summarized by severity, plus per-rule settings. */
+export default function LintPanel(props: {
+  violations: LintViolation[];
+  networks: NetworkInspect[];
+  config: LintConfig;
+  loading: boolean;
+  onConfigChange: (config: LintConfig) => void;
+  onNetworkClick: (id: string) => void;
+}) {
+  const { violations, networks, config, loading, onConfigChange, onNetworkClick } = props;
+  const [showRules, setShowRules] = React.useState(false);
+  const names = new Map(networks.map((n) => [n.Id, n.Name]));
+  const labels = new Map(LINT_RULES.map((r) => [r.id, r.label]));
+  const counts = SEVERITIES.map((s) => [s, violations.filter((v) => v.severity === s).length] as const);
+
+  function updateRule(id: keyof LintConfig, patch: Partial<LintConfig[keyof LintConfig]>) {
+    onConfigChange({ ...config, [id]: { ...config[id], ...patch } });
+  }
+
+  return (
+    <Paper sx={{ p: 2, mb: 2 }}>
+      <Stack direction="row" gap={1} alignItems="center" sx={{ mb: 1 }}>
+        <Typography variant="subtitle2">Network health</Typography>
+        {counts
+          .filter(([, n]) => n > 0)
+          .map(([s, n]) => (
+            <Chip key={s} size="small" label={`${n} ${s}${n !== 1 ? "s" : ""}`} color={s} variant="outlined" />
+          ))}
+        <Box sx={{ flex: 1 }} />
+        {loading && (
+          <Typography variant="caption" color="text.secondary">
+            Inspecting networks…
+          </Typography>
+        )}
+        <Button size="small" startIcon={<SettingsIcon />} onClick={() => setShowRules(!showRules)}>
+          Rules
+        </Button>
+      </Stack>
+
+      <Collapse in={showRules}>
+        <Box sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, mb: 1.5 }}>
+          {LINT_RULES.map((rule) => {
+            const rc = config[rule.id];
+            return (
+              <Stack
+                key={rule.id}
+                direction="row"
+                gap={1.5}
+                alignItems="center"
+                sx={{ px: 1.5, py: 1, "&:not(:last-child)": { borderBottom: "1px solid", borderColor: "divider" } }}
+              >
+                <Switch size="small" checked={rc.enabled} onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })} />
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="body2">{rule.title}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {rule.description}
+                  </Typography>
+                </Box>
+                {rule.paramLabel && (
+                  <TextField
+                    size="small"
+                    type="number"
+                    label={rule.paramLabel}
+                    value={rc.param ?? ""}
+                    disabled={!rc.enabled}
+                    onChange={(e) => updateRule(rule.id, { param: e.target.value ? Number(e.target.value) : undefined })}
+                    sx={{ width: 200 }}
+                  />
+                )}
+                <TextField
+                  size="small"
+                  select
+                  label="Severity"
+                  value={rc.severity}
+                  disabled={!rc.enabled}
+                  onChange={(e) => updateRule(rule.id, { severity: e.target.value as LintSeverity })}
+                  sx={{ width: 120 }}
+                >
+                  {SEVERITIES.map((s) => (
+                    <MenuItem key={s} value={s}>
+                      {s}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              </Stack>
+            );
+          })}
+          <Stack direction="row" justifyContent="flex-end" sx={{ p: 1 }}>
+            <Button size="small" onClick={() => onConfigChange(defaultLintConfig())}>
+              Reset to defaults
+            </Button>
+          </Stack>
+        </Box>
+      </Collapse>
+
+      {violations.length === 0 ? (
+        <Alert severity="success">No rule violations found.</Alert>
+      ) : (
+        <Stack spacing={1}>
+          {violations.map((v, i) => (
+            <Alert key={i} severity={v.severity} icon={false}>
+              <Stack direction="row" gap={1} alignItems="center" flexWrap="wrap">
+                <Tooltip title={LINT_RULES.find((r) => r.id === v.ruleId)?.title}>
+                  <Chip size="small" label={labels.get(v.ruleId)} color={v.severity} variant="outlined" />
+                </Tooltip>
+                <Typography variant="body2">{v.message}</Typography>
+                <Box sx={{ flex: 1 }} />
+                <Link component="button" variant="body2" onClick={() => onNetworkClick(v.networkId)}>
+                  {names.get(v.networkId) || v.networkId.slice(0, 12)}
+                </Link>
+              </Stack>
+            </Alert>
+          ))}
+        </Stack>
+      )}
+    </Paper>
+  );
+}
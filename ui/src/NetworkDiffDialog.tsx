@@ -0,0 +1,247 @@
+import React from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  ListSubheader,
+  MenuItem,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { alpha, type SxProps, type Theme } from "@mui/material/styles";
+import DeleteIcon from "@mui/icons-material/Delete";
+import SwapHorizIcon from "@mui/icons-material/SwapHoriz";
+
+import { countDifferences, diffNetworks, type DiffStatus } from "./networkDiff";
+import { deleteNetworkSnapshot, loadNetworkSnapshots, type NetworkSnapshot } from "./snapshots";
+import type { NetworkInspect } from "./types";
+
+const STATUS_COLORS: Record<Exclude<DiffStatus, "same">, "warning" | "success" | "error"> = {
+  changed: "warning",
+  added: "success",
+  removed: "error",
+};
+
+function rowSx(status: DiffStatus): SxProps<Theme> | undefined {
+  if (status === "same") return undefined;
+  const color = STATUS_COLORS[status];
+  return { bgcolor: (theme) => alpha(theme.palette[color].main, 0.12) };
+}
+
+// Select values are "net:<network id>" for live networks and "snap:<snapshot id>" for saved snapshots
+export type DiffSource = string;
+
+export function networkSource(id: string): DiffSource {
+  return `net:${id}`;
+}
+
+/** Compares two networks, or a network against a saved snapshot, section by section. */
+export default function NetworkDiffDialog(props: {
+  open: boolean;
+  networks: NetworkInspect[];
+  initialLeft?: DiffSource;
+  initialRight?: DiffSource;
+  onClose: () => void;
+}) {
+  const { open, networks, initialLeft, initialRight, onClose } = props;
+  const [snapshots, setSnapshots] = React.useState<NetworkSnapshot[]>([]);
+  const [left, setLeft] = React.useState<DiffSource>("");
+  const [right, setRight] = React.useState<DiffSource>("");
+  const [hideSame, setHideSame] = React.useState(true);
+
+  React.useEffect(() => {
+    if (!open) return;
+    const saved = loadNetworkSnapshots();
+    setSnapshots(saved);
+    setLeft(initialLeft || "");
+    // With only a left network given, default to its most recent snapshot
+    const leftName = networks.find((n) => networkSource(n.Id) === initialLeft)?.Name;
+    const latest = saved.find((s) => s.network.Name === leftName);
+    setRight(initialRight || (latest ? `snap:${latest.id}` : ""));
+  }, [open]);
+
+  function resolve(source: DiffSource): NetworkInspect | undefined {
+    if (source.startsWith("net:")) return networks.find((n) => n.Id === source.slice(4));
+    if (source.startsWith("snap:")) return snapshots.find((s) => s.id === source.slice(5))?.network;
+    return undefined;
+  }
+
+  function label(source: DiffSource) {
+    const snap = source.startsWith("snap:") ? snapshots.find((s) => s.id === source.slice(5)) : undefined;
+    if (snap) return `${snap.network.Name} @ ${new Date(snap.time).toLocaleString()}`;
+    return resolve(source)?.Name || "";
+  }
+
+  function removeSnapshot(id: string) {
+    deleteNetworkSnapshot(id);
+    setSnapshots(loadNetworkSnapshots());
+    if (left === `snap:${id}`) setLeft("");
+    if (right === `snap:${id}`) setRight("");
+  }
+
+  const leftNet = resolve(left);
+  const rightNet = resolve(right);
+  const sections = React.useMemo(
+    () => (leftNet && rightNet ? diffNetworks(leftNet, rightNet) : []),
+    [leftNet, rightNet]
+  );
+  const differences = countDifferences(sections);
+
+  function renderPicker(value: DiffSource, onChange: (v: DiffSource) => void, title: string) {
+    return (
+      <TextField
+        size="small"
+        select
+        label={title}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        sx={{ flex: 1 }}
+        SelectProps={{ renderValue: (v) => label(v as string) }}
+      >
+        <ListSubheader>Networks</ListSubheader>
+        {networks.map((n) => (
+          <MenuItem key={n.Id} value={networkSource(n.Id)}>
+            {n.Name}
+          </MenuItem>
+        ))}
+        <ListSubheader>Snapshots</ListSubheader>
+        {snapshots.length === 0 && (
+          <MenuItem disabled value="">
+            Save a snapshot from a network's inspect drawer
+          </MenuItem>
+        )}
+        {snapshots.map((s) => (
+          <MenuItem key={s.id} value={`snap:${s.id}`}>
+            <Stack direction="row" alignItems="center" gap={1} sx={{ width: "100%" }}>
+              <Box sx={{ flex: 1 }}>
+                {s.network.Name}{" "}
+                <Typography component="span" variant="caption" color="text.secondary">
+                  {new Date(s.time).toLocaleString()}
+                </Typography>
+              </Box>
+              <Tooltip title="Delete snapshot">
+                <IconButton
+                  size="small"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removeSnapshot(s.id);
+                  }}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </Stack>
+          </MenuItem>
+        ))}
+      </TextField>
+    );
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Compare networks</DialogTitle>
+      <DialogContent>
+        <Stack direction="row" gap={1} alignItems="center" sx={{ mt: 1, mb: 2 }}>
+          {renderPicker(left, setLeft, "Left")}
+          <Tooltip title="Swap sides">
+            <IconButton
+              onClick={() => {
+                setLeft(right);
+                setRight(left);
+              }}
+            >
+              <SwapHorizIcon />
+            </IconButton>
+          </Tooltip>
+          {renderPicker(right, setRight, "Right")}
+        </Stack>
+
+        {!leftNet || !rightNet ? (
+          <Typography variant="body2" color="text.secondary">
+            Pick two networks, or a network and a snapshot, to compare.
+          </Typography>
+        ) : (
+          <>
+            <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
+              {differences === 0 ? (
+                <Alert severity="success" sx={{ flex: 1, mr: 2 }}>
+                  No differences in configuration or attached containers.
+                </Alert>
+              ) : (
+                <Typography variant="body2">
+                  {differences} difference{differences !== 1 ? "s" : ""}
+                </Typography>
+              )}
+              <FormControlLabel
+                control={<Switch size="small" checked={hideSame} onChange={(e) => setHideSame(e.target.checked)} />}
+                label="Hide unchanged"
+              />
+            </Stack>
+
+            <Box sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, overflow: "auto" }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ width: "25%" }} />
+                    <TableCell sx={{ width: "37.5%" }}>{label(left)}</TableCell>
+                    <TableCell sx={{ width: "37.5%" }}>{label(right)}</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {sections.map((section) => {
+                    const rows = hideSame ? section.rows.filter((r) => r.status !== "same") : section.rows;
+                    if (rows.length === 0) return null;
+                    return (
+                      <React.Fragment key={section.title}>
+                        <TableRow>
+                          <TableCell colSpan={3} sx={{ bgcolor: "action.hover" }}>
+                            <Typography variant="subtitle2">{section.title}</Typography>
+                          </TableCell>
+                        </TableRow>
+                        {rows.map((r) => (
+                          <TableRow
+                            key={r.key}
+                            sx={rowSx(r.status)}
+                          >
+                            <TableCell>
+                              <Typography variant="body2" component="code" sx={{ wordBreak: "break-all" }}>
+                                {r.key}
+                              </Typography>
+                            </TableCell>
+                            <TableCell sx={{ wordBreak: "break-all" }}>
+                              {r.left ?? <Typography variant="body2" color="text.secondary">—</Typography>}
+                            </TableCell>
+                            <TableCell sx={{ wordBreak: "break-all" }}>
+                              {r.right ?? <Typography variant="body2" color="text.secondary">—</Typography>}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </React.Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </Box>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,174 @@
+import {
+  Alert,
+  Box,
+  FormControlLabel,
+  Stack,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+
+import Sparkline from "./Sparkline";
+import { endpointKey, formatBytes, latestRate, type TrafficCounters, type TrafficState } from "./traffic";
+import type { NetworkInspect } from "./types";
+
+function count(rx?: number, tx?: number) {
+  return rx === undefined ? "—" : `${rx} / ${tx}`;
+}
+
+/** Byte totals, plus packets, errors and drops when interface counters are read */
+function Totals({ counters, detailed }: { counters: TrafficCounters; detailed: boolean }) {
+  return (
+    <>
+      <TableCell>
+        {formatBytes(counters.rxBytes)} / {formatBytes(counters.txBytes)}
+      </TableCell>
+      {detailed && (
+        <>
+          <TableCell>{count(counters.rxPackets, counters.txPackets)}</TableCell>
+          <TableCell>{count(counters.rxErrors, counters.txErrors)}</TableCell>
+          <TableCell>{count(counters.rxDropped, counters.txDropped)}</TableCell>
+        </>
+      )}
+    </>
+  );
+}
+
+/** Live traffic of one network and of each container on it. */
+export default function NetworkTraffic(props: {
+  network: NetworkInspect;
+  traffic: TrafficState;
+  interval: number;
+  /** Whether counters are read inside the containers rather than from `docker stats` */
+  probeInterfaces: boolean;
+  onProbeInterfacesChange: (enabled: boolean) => void;
+}) {
+  const { network, traffic, interval, probeInterfaces, onProbeInterfacesChange } = props;
+  const total = traffic.networks.get(network.Id);
+  const containers = Object.entries(network.Containers || {}).sort(([, a], [, b]) => a.Name.localeCompare(b.Name));
+  const unmeasured = traffic.unmeasured.filter((name) => containers.some(([, c]) => c.Name === name));
+
+  if (!interval) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        Traffic sampling is off. Pick a polling interval under Traffic in the toolbar.
+      </Typography>
+    );
+  }
+
+  return (
+    <Stack spacing={2}>
+      <Box>
+        <Stack direction="row" justifyContent="space-between" alignItems="baseline">
+          <Typography variant="subtitle2">Network total</Typography>
+          <Typography variant="caption" color="text.secondary">
+            {latestRate(total) || "—"} • every {interval / 1000}s
+          </Typography>
+        </Stack>
+        <Sparkline points={total?.points || []} width={520} height={64} />
+        <Typography variant="caption" color="text.secondary">
+          Solid: received by containers, dashed: sent.{" "}
+          {probeInterfaces ? "Counters are read inside each container." : "Byte totals come from docker stats."}
+        </Typography>
+      </Box>
+
+      <FormControlLabel
+        control={
+          <Switch size="small" checked={probeInterfaces} onChange={(e) => onProbeInterfacesChange(e.target.checked)} />
+        }
+        label={
+          <Typography variant="body2">
+            Read interface counters inside containers (runs docker exec in each container on every poll)
+          </Typography>
+        }
+      />
+
+      {!probeInterfaces && (
+        <Alert severity="info">
+          docker stats only reports bytes sent and received per container. Without reading interface counters inside
+          containers, packets, errors and drops aren't available, and containers on more than one network aren't counted
+          on any of them.
+        </Alert>
+      )}
+      {probeInterfaces && total?.estimated && (
+        <Alert severity="info">
+          Some containers can't be read directly (no cat or tail in the image), so their totals come from docker stats.
+        </Alert>
+      )}
+      {unmeasured.length > 0 && (
+        <Alert severity="warning">
+          Traffic of {unmeasured.join(", ")} can't be split between its networks and isn't counted.
+        </Alert>
+      )}
+
+      {containers.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No containers on this network.
+        </Typography>
+      ) : (
+        <Stack spacing={1.5}>
+          {containers.map(([id, c]) => {
+            const series = traffic.endpoints.get(endpointKey(network.Id, id));
+            return (
+              <Box key={id}>
+                <Stack direction="row" justifyContent="space-between" alignItems="baseline">
+                  <Typography variant="body2">
+                    <b>{c.Name}</b>
+                    {probeInterfaces && series?.estimated ? " (from docker stats)" : ""}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {series ? latestRate(series) || "—" : c.MacAddress ? "waiting for data" : "not running"}
+                  </Typography>
+                </Stack>
+                <Sparkline points={series?.points || []} width={520} height={40} />
+              </Box>
+            );
+          })}
+        </Stack>
+      )}
+
+      <Box sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, overflow: "auto" }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Container</TableCell>
+              <TableCell>Bytes rx / tx</TableCell>
+              {probeInterfaces && (
+                <>
+                  <TableCell>Packets</TableCell>
+                  <TableCell>Errors</TableCell>
+                  <TableCell>Drops</TableCell>
+                </>
+              )}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {containers.map(([id, c]) => {
+              const series = traffic.endpoints.get(endpointKey(network.Id, id));
+              return (
+                series && (
+                  <TableRow key={id}>
+                    <TableCell>{c.Name}</TableCell>
+                    <Totals counters={series.totals} detailed={probeInterfaces} />
+                  </TableRow>
+                )
+              );
+            })}
+            {total && (
+              <TableRow>
+                <TableCell>
+                  <b>Total</b>
+                </TableCell>
+                <Totals counters={total.totals} detailed={probeInterfaces} />
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </Box>
+    </Stack>
+  );
+}
@@ -1,8 +1,10 @@
 import React from "react";
 import {
   Alert,
+  Badge,
   Box,
   Button,
+  Checkbox,
   Chip,
   Dialog,
   DialogActions,
@@ -17,12 +19,16 @@ import {
   Skeleton,
   Stack,
   Switch,
+  Tab,
   Table,
   TableBody,
   TableCell,
   TableHead,
   TableRow,
+  Tabs,
   TextField,
+  ToggleButton,
+  ToggleButtonGroup,
   Tooltip,
   Typography,
 } from "@mui/material";
@@ -34,112 +40,105 @@ import LinkIcon from "@mui/icons-material/Link";
 import LinkOffIcon from "@mui/icons-material/LinkOff";
 import CleaningServicesIcon from "@mui/icons-material/CleaningServices";
 import FilterListIcon from "@mui/icons-material/FilterList";
+import TableRowsIcon from "@mui/icons-material/TableRows";
+import HubIcon from "@mui/icons-material/Hub";
+import ReportProblemIcon from "@mui/icons-material/ReportProblem";
+import FiberManualRecordIcon from "@mui/icons-material/FiberManualRecord";
+import WorkspacesIcon from "@mui/icons-material/Workspaces";
+import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
+import ChevronRightIcon from "@mui/icons-material/ChevronRight";
+import FileDownloadIcon from "@mui/icons-material/FileDownload";
+import FileUploadIcon from "@mui/icons-material/FileUpload";
+import EditIcon from "@mui/icons-material/Edit";
+import HistoryIcon from "@mui/icons-material/History";
+import RuleIcon from "@mui/icons-material/Rule";
+import CompareArrowsIcon from "@mui/icons-material/CompareArrows";
+import CameraAltIcon from "@mui/icons-material/CameraAlt";
+import PhotoLibraryIcon from "@mui/icons-material/PhotoLibrary";
 
-import { dockerExec, parseJsonLines, parseDockerError } from "./api";
-import type { NetworkInspect, NetworkListRow, NetworkWithDetails } from "./types";
+import type { StreamHandle } from "./api";
+import {
+  SYSTEM_NETWORKS,
+  inspectNetwork,
+  inspectNetworks,
+  listNetworks,
+  networkCreateArgs,
+  rowFromInspect,
+  watchNetworkEvents,
+  type ConnectOptions,
+} from "./networkApi";
+import type {
+  ContainerInspect,
+  DockerEvent,
+  NetworkInspect,
+  NetworkListRow,
+  NetworkWithDetails,
+  SwarmInfo,
+} from "./types";
+import Topology from "./Topology";
+import IpamReport from "./IpamReport";
+import { analyzeIpam, type IpamFinding } from "./ipam";
+import ProjectDrawer from "./ProjectDrawer";
+import { composeProjectOf, groupByComposeProject } from "./compose";
+import ExportDialog from "./ExportDialog";
+import ImportDialog from "./ImportDialog";
+import StepList from "./StepList";
+import type { NetworkSpec } from "./networkSpec";
+import CreateNetworkDialog from "./CreateNetworkDialog";
+import ConnectDialog from "./ConnectDialog";
+import BulkActionDialog, { type BulkAction } from "./BulkActionDialog";
+import PruneDialog from "./PruneDialog";
+import ConnectivityTester from "./ConnectivityTester";
+import DnsNames from "./DnsNames";
+import PublishedPorts from "./PublishedPorts";
+import { analyzeExposure, formatPort } from "./exposure";
+import { inspectContainers } from "./containerApi";
+import { recreateNetwork, type RecreateProgress } from "./recreateNetwork";
+import HistoryPanel from "./HistoryPanel";
+import { recordOperation, trackConnect, trackCreate, trackDisconnect, trackRemove } from "./history";
+import LintPanel from "./LintPanel";
+import NetworkDiffDialog, { networkSource, type DiffSource } from "./NetworkDiffDialog";
+import { saveNetworkSnapshot, type EnvironmentSnapshot } from "./snapshots";
+import SnapshotsDialog from "./SnapshotsDialog";
+import { describeStep, runStep, type RestorePlan } from "./restorePlan";
+import SwarmNetwork from "./SwarmNetwork";
+import { getSwarmInfo, isEncrypted, isSwarmManager, isSwarmOverlay } from "./swarm";
+import { classifyDockerError, type DockerError, type ErrorAction } from "./dockerErrors";
+import DockerErrorAlert from "./DockerErrorAlert";
+import NetworkTraffic from "./NetworkTraffic";
+import Sparkline from "./Sparkline";
+import {
+  TRAFFIC_INTERVALS,
+  addTrafficSample,
+  createTrafficSampler,
+  emptyTrafficState,
+  latestRate,
+  loadTrafficInterval,
+  loadTrafficProbe,
+  saveTrafficInterval,
+  saveTrafficProbe,
+  trafficEndpoints,
+  type TrafficState,
+} from "./traffic";
+import { LINT_RULES, lintNetworks, loadLintConfig, saveLintConfig, type LintConfig, type LintViolation } from "./lint";
 
 function shortId(id: string) {
   return (id || "").slice(0, 12);
 }
 
-async function listNetworks(): Promise<NetworkListRow[]> {
-  // Parse table format since extension API has issues with template strings
-  const r = await dockerExec("network", ["ls"]);
-  if (r.stderr) throw new Error(r.stderr);
-  
-  if (!r.stdout) return [];
-  
-  // Parse the table output: NETWORK ID     NAME    DRIVER    SCOPE
-  const lines = r.stdout.trim().split('\n');
-  if (lines.length <= 1) return []; // Only header or empty
-  
-  return lines.slice(1).map(line => {
-    // Split by whitespace, but handle network names that might contain spaces
-    const trimmed = line.trim();
-    const match = trimmed.match(/^([a-f0-9]{12,})\s+([^\s]+(?:\s+[^\s]+)*?)\s+([^\s]+)\s+([^\s]+)$/);
-    if (match) {
-      return {
-        ID: match[1],
-        Name: match[2].trim(),
-        Driver: match[3],
-        Scope: match[4],
-      } as NetworkListRow;
-    }
-    // Fallback: simple split (may break with spaces in names)
-    const parts = trimmed.split(/\s+/);
-    return {
-      ID: parts[0] || '',
-      Name: parts.slice(1, -2).join(' ') || '',
-      Driver: parts[parts.length - 2] || '',
-      Scope: parts[parts.length - 1] || '',
-    } as NetworkListRow;
-  }).filter(n => n.ID && n.Name); // Filter out invalid entries
-}
-
-async function inspectNetwork(idOrName: string): Promise<NetworkInspect> {
-  const r = await dockerExec("network", ["inspect", idOrName]);
-  if (r.stderr) throw new Error(r.stderr);
-  const arr = JSON.parse(r.stdout || "[]");
-  if (!Array.isArray(arr) || !arr[0]) throw new Error("Unexpected inspect output");
-  return arr[0] as NetworkInspect;
-}
+const MAX_EVENTS = 200;
 
-async function createNetwork(payload: {
-  name: string;
-  driver: string;
-  attachable: boolean;
-  internal: boolean;
-  ipv6: boolean;
-  subnet?: string;
-  gateway?: string;
-}) {
-  const args: string[] = ["create"];
-  if (payload.driver) args.push("--driver", payload.driver);
-  if (payload.attachable) args.push("--attachable");
-  if (payload.internal) args.push("--internal");
-  if (payload.ipv6) args.push("--ipv6");
-  if (payload.subnet) args.push("--subnet", payload.subnet);
-  if (payload.gateway) args.push("--gateway", payload.gateway);
-  args.push(payload.name);
-
-  const r = await dockerExec("network", args);
-  if (r.stderr) throw new Error(r.stderr);
-  return (r.stdout || "").trim();
+function eventTime(e: DockerEvent) {
+  return new Date(e.time * 1000).toLocaleTimeString();
 }
 
-async function removeNetwork(idOrName: string) {
-  const r = await dockerExec("network", ["rm", idOrName]);
-  if (r.stderr) throw new Error(r.stderr);
-}
-
-async function pruneNetworks() {
-  const r = await dockerExec("network", ["prune", "-f"]);
-  if (r.stderr) throw new Error(r.stderr);
-  return r.stdout || "";
-}
-
-async function connectContainer(network: string, container: string) {
-  const r = await dockerExec("network", ["connect", network, container]);
-  if (r.stderr) throw new Error(r.stderr);
-}
-
-async function disconnectContainer(network: string, container: string, force: boolean) {
-  const args = ["disconnect"];
-  if (force) args.push("--force");
-  args.push(network, container);
-  const r = await dockerExec("network", args);
-  if (r.stderr) throw new Error(r.stderr);
-}
-
-const SYSTEM_NETWORKS = new Set(["bridge", "host", "none"]);
-
 export default function Networks() {
   const [rows, setRows] = React.useState<NetworkListRow[]>([]);
   const [networkDetails, setNetworkDetails] = React.useState<Map<string, NetworkInspect>>(new Map());
   const [q, setQ] = React.useState("");
-  const [error, setError] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<DockerError | null>(null);
   const [loading, setLoading] = React.useState(false);
-  const [loadingDetails, setLoadingDetails] = React.useState<Set<string>>(new Set());
+  const [loadingDetails, setLoadingDetails] = React.useState(false);
 
   // Filters
   const [filterDriver, setFilterDriver] = React.useState<string>("all");
@@ -147,44 +146,69 @@ export default function Networks() {
   const [filterSystemOnly, setFilterSystemOnly] = React.useState<boolean>(false);
   const [showFilters, setShowFilters] = React.useState(false);
 
+  const [view, setView] = React.useState<"table" | "graph">("table");
+  const [showIpamReport, setShowIpamReport] = React.useState(false);
+  const [showHealth, setShowHealth] = React.useState(false);
+  const [lintConfig, setLintConfig] = React.useState<LintConfig>(loadLintConfig);
+
+  const [groupByProject, setGroupByProject] = React.useState(false);
+  const [collapsedProjects, setCollapsedProjects] = React.useState<Set<string>>(new Set());
+  const [openProject, setOpenProject] = React.useState<string | null>(null);
+
+  const [selected, setSelected] = React.useState<Set<string>>(new Set());
+  const [selectedEndpoints, setSelectedEndpoints] = React.useState<Set<string>>(new Set());
+  const [bulkAction, setBulkAction] = React.useState<BulkAction | null>(null);
+  const [pruneOpen, setPruneOpen] = React.useState(false);
+  const [historyOpen, setHistoryOpen] = React.useState(false);
+  const [snapshotsOpen, setSnapshotsOpen] = React.useState(false);
+  const [drawerTab, setDrawerTab] = React.useState<"overview" | "dns" | "ports" | "traffic" | "swarm">("overview");
+  const [swarmInfo, setSwarmInfo] = React.useState<SwarmInfo | null>(null);
+  const [attachedContainers, setAttachedContainers] = React.useState<ContainerInspect[]>([]);
+  const [diff, setDiff] = React.useState<{ left?: DiffSource; right?: DiffSource } | null>(null);
+  // Network ID whose snapshot was just saved, so the button can say so
+  const [snapshotSaved, setSnapshotSaved] = React.useState<string | null>(null);
+
   const [drawerOpen, setDrawerOpen] = React.useState(false);
   const [inspected, setInspected] = React.useState<NetworkInspect | null>(null);
 
+  const [selectedContainer, setSelectedContainer] = React.useState<string | null>(null);
+
   const [createOpen, setCreateOpen] = React.useState(false);
-  const [createForm, setCreateForm] = React.useState({
-    name: "",
-    driver: "bridge",
-    attachable: false,
-    internal: false,
-    ipv6: false,
-    subnet: "",
-    gateway: "",
-  });
+  // Set when the create dialog is editing an existing network
+  const [editing, setEditing] = React.useState<NetworkInspect | null>(null);
+  const [recreateProgress, setRecreateProgress] = React.useState<RecreateProgress | null>(null);
 
   const [connectOpen, setConnectOpen] = React.useState(false);
-  const [connectForm, setConnectForm] = React.useState({
-    network: "",
-    container: "",
-  });
+  const [connectNetwork, setConnectNetwork] = React.useState<string | undefined>(undefined);
 
   const [disconnectForce, setDisconnectForce] = React.useState(false);
 
-  // Load network details (for container count and flags) on demand
-  async function loadNetworkDetails(id: string) {
-    if (networkDetails.has(id) || loadingDetails.has(id)) return;
-    setLoadingDetails((prev) => new Set(prev).add(id));
+  const [exportOpen, setExportOpen] = React.useState(false);
+  const [importOpen, setImportOpen] = React.useState(false);
+
+  const [live, setLive] = React.useState(false);
+  const [trafficInterval, setTrafficInterval] = React.useState(loadTrafficInterval);
+  const [trafficProbe, setTrafficProbe] = React.useState(loadTrafficProbe);
+  const [traffic, setTraffic] = React.useState<TrafficState>(emptyTrafficState);
+  const [events, setEvents] = React.useState<DockerEvent[]>([]);
+
+  // Event handlers run outside React's render cycle, so they read details through a ref
+  const networkDetailsRef = React.useRef(networkDetails);
+  networkDetailsRef.current = networkDetails;
+  const pendingInspects = React.useRef<Set<string>>(new Set());
+  const inspectTimer = React.useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  // Load details (for container count and flags) for every network in one batched inspect
+  async function loadNetworkDetails(ids: string[]) {
+    setLoadingDetails(true);
     try {
-      const details = await inspectNetwork(id);
-      setNetworkDetails((prev) => new Map(prev).set(id, details));
+      const details = await inspectNetworks(ids);
+      setNetworkDetails(new Map(details.map((d) => [d.Id, d])));
     } catch (e: any) {
       // Silently fail - details are optional
       console.warn("Failed to load network details:", e);
     } finally {
-      setLoadingDetails((prev) => {
-        const next = new Set(prev);
-        next.delete(id);
-        return next;
-      });
+      setLoadingDetails(false);
     }
   }
 
@@ -214,6 +238,37 @@ export default function Networks() {
     });
   }, [rows, q, filterDriver, filterScope, filterSystemOnly]);
 
+  const composeGroups = React.useMemo(() => groupByComposeProject(filtered, networkDetails), [filtered, networkDetails]);
+
+  // Networks of a project across all rows, not just those matching the current filters
+  function projectNetworks(project: string | null) {
+    return rows.filter((r) => project !== null && composeProjectOf(r, networkDetails.get(r.ID)) === project);
+  }
+
+  function toggleProject(key: string) {
+    setCollapsedProjects((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }
+
+  // System networks can't be removed, so they are never selectable
+  const selectable = filtered.filter((r) => !SYSTEM_NETWORKS.has(r.Name));
+  const selectedRows = rows.filter((r) => selected.has(r.ID));
+  // Checkbox, nine data columns, the optional Traffic column and Actions
+  const columnCount = 11 + (trafficInterval > 0 ? 1 : 0);
+
+  function toggleSelected(id: string) {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
   // Get network with details
   function getNetworkWithDetails(row: NetworkListRow): NetworkWithDetails {
     const details = networkDetails.get(row.ID);
@@ -226,16 +281,20 @@ export default function Networks() {
     };
   }
 
+  // Classified against the known networks so a subnet overlap can name the one in the way
+  function showError(e: any) {
+    setError(classifyDockerError(e, Array.from(networkDetails.values())));
+  }
+
   async function refresh() {
     setLoading(true);
     setError(null);
     try {
       const data = await listNetworks();
       setRows(data);
-      // Clear details cache - will reload on demand
-      setNetworkDetails(new Map());
+      await loadNetworkDetails(data.map((r) => r.ID));
     } catch (e: any) {
-      setError(parseDockerError(e));
+      showError(e);
     } finally {
       setLoading(false);
     }
@@ -243,108 +302,371 @@ export default function Networks() {
 
   React.useEffect(() => {
     refresh();
+    // Engines without swarm support, or the dev simulator, just get no swarm features
+    getSwarmInfo()
+      .then(setSwarmInfo)
+      .catch((e) => console.warn("Failed to read swarm state:", e));
   }, []);
 
-  // Load details for visible networks
+  // Samples traffic of every running endpoint; the next round starts once the previous one is done
   React.useEffect(() => {
-    filtered.slice(0, 20).forEach((row) => {
-      if (!networkDetails.has(row.ID) && !loadingDetails.has(row.ID)) {
-        loadNetworkDetails(row.ID);
+    setTraffic(emptyTrafficState());
+    if (!trafficInterval) return;
+    const sampler = createTrafficSampler({ probeInterfaces: trafficProbe });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    const tick = async () => {
+      try {
+        const { samples, unmeasured } = await sampler.sample(trafficEndpoints(networkDetailsRef.current.values()));
+        if (!stopped) setTraffic((prev) => addTrafficSample(prev, samples, unmeasured, Date.now()));
+      } catch (e: any) {
+        console.warn("Failed to sample network traffic:", e);
       }
-    });
-  }, [filtered]);
+      if (!stopped) timer = setTimeout(tick, trafficInterval);
+    };
+    tick();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }, [trafficInterval, trafficProbe]);
+
+  const swarmManager = isSwarmManager(swarmInfo);
+
+  // Bursts of events (e.g. `docker compose up`) are coalesced into one batched inspect
+  function scheduleReinspect(id: string) {
+    pendingInspects.current.add(id);
+    if (inspectTimer.current) return;
+    inspectTimer.current = setTimeout(async () => {
+      const ids = Array.from(pendingInspects.current);
+      pendingInspects.current.clear();
+      inspectTimer.current = undefined;
+      try {
+        const nets = await inspectNetworks(ids);
+        const byId = new Map(nets.map((n) => [n.Id, n]));
+        setNetworkDetails((prev) => {
+          const next = new Map(prev);
+          nets.forEach((n) => next.set(n.Id, n));
+          return next;
+        });
+        setRows((prev) => {
+          const known = new Set(prev.map((r) => r.ID));
+          const updated = prev.map((r) => (byId.has(r.ID) ? rowFromInspect(byId.get(r.ID)!) : r));
+          return [...updated, ...nets.filter((n) => !known.has(n.Id)).map(rowFromInspect)];
+        });
+        setInspected((prev) => (prev && byId.get(prev.Id)) || prev);
+      } catch (e: any) {
+        console.warn("Failed to refresh network after event:", e);
+      }
+    }, 250);
+  }
+
+  function onDockerEvent(e: DockerEvent) {
+    setEvents((prev) => [e, ...prev].slice(0, MAX_EVENTS));
+
+    if (e.Type === "network") {
+      if (e.Action === "destroy" || e.Action === "remove") {
+        setRows((prev) => prev.filter((r) => r.ID !== e.Actor.ID));
+        setNetworkDetails((prev) => {
+          const next = new Map(prev);
+          next.delete(e.Actor.ID);
+          return next;
+        });
+      } else {
+        scheduleReinspect(e.Actor.ID);
+      }
+    } else if (e.Type === "container" && (e.Action === "start" || e.Action === "die")) {
+      // Endpoint addresses change with the container's lifecycle
+      networkDetailsRef.current.forEach((net) => {
+        if (net.Containers?.[e.Actor.ID]) scheduleReinspect(net.Id);
+      });
+    }
+  }
+
+  // Keep rows and details in sync with changes made outside the extension
+  React.useEffect(() => {
+    let stream: StreamHandle | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const connect = () => {
+      let closed = false;
+      try {
+        stream = watchNetworkEvents(onDockerEvent, () => {
+          if (closed) return;
+          closed = true;
+          setLive(false);
+          if (!stopped) retry = setTimeout(connect, 5000);
+        });
+        setLive(true);
+      } catch (e: any) {
+        // No Docker Desktop client (dev mode)
+        console.warn("Live updates unavailable:", e);
+      }
+    };
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retry);
+      stream?.close();
+    };
+  }, []);
 
-  async function openInspect(idOrName: string) {
+  const inspectedEvents = React.useMemo(() => {
+    if (!inspected) return [];
+    return events.filter(
+      (e) =>
+        (e.Type === "network" && e.Actor.ID === inspected.Id) ||
+        (e.Type === "container" && !!inspected.Containers?.[e.Actor.ID])
+    );
+  }, [events, inspected]);
+
+  const ipamFindings = React.useMemo(() => analyzeIpam(Array.from(networkDetails.values())), [networkDetails]);
+
+  const ipamFindingsByNetwork = React.useMemo(() => {
+    const map = new Map<string, IpamFinding[]>();
+    ipamFindings.forEach((f) => f.networkIds.forEach((id) => map.set(id, [...(map.get(id) || []), f])));
+    return map;
+  }, [ipamFindings]);
+
+  // Published ports come from the attached containers, re-inspected when the set of endpoints changes
+  const attachedContainerIds = React.useMemo(() => {
+    const ids = new Set<string>();
+    networkDetails.forEach((n) => Object.keys(n.Containers || {}).forEach((id) => ids.add(id)));
+    return Array.from(ids).sort().join(",");
+  }, [networkDetails]);
+
+  React.useEffect(() => {
+    if (!attachedContainerIds) {
+      setAttachedContainers([]);
+      return;
+    }
+    inspectContainers(attachedContainerIds.split(","))
+      .then(setAttachedContainers)
+      .catch((e) => console.warn("Failed to inspect attached containers:", e));
+  }, [attachedContainerIds]);
+
+  const exposureByNetwork = React.useMemo(
+    () => analyzeExposure(Array.from(networkDetails.values()), attachedContainers),
+    [networkDetails, attachedContainers]
+  );
+
+  // Any change to the inspected network makes a new snapshot worth saving
+  React.useEffect(() => setSnapshotSaved(null), [inspected]);
+
+  const lintViolations = React.useMemo(
+    () => lintNetworks(Array.from(networkDetails.values()), attachedContainers, lintConfig),
+    [networkDetails, attachedContainers, lintConfig]
+  );
+
+  const lintViolationsByNetwork = React.useMemo(() => {
+    const map = new Map<string, LintViolation[]>();
+    lintViolations.forEach((v) => map.set(v.networkId, [...(map.get(v.networkId) || []), v]));
+    return map;
+  }, [lintViolations]);
+
+  function updateLintConfig(config: LintConfig) {
+    setLintConfig(config);
+    saveLintConfig(config);
+  }
+
+  const graphNetworks = React.useMemo(() => {
+    return filtered.map((r) => networkDetails.get(r.ID)).filter((n): n is NetworkInspect => !!n);
+  }, [filtered, networkDetails]);
+
+  // Endpoints of the selected container across every network we have details for
+  const containerEndpoints = React.useMemo(() => {
+    if (!selectedContainer) return [];
+    return Array.from(networkDetails.values())
+      .filter((net) => net.Containers?.[selectedContainer])
+      .map((net) => ({ network: net, endpoint: net.Containers![selectedContainer] }));
+  }, [selectedContainer, networkDetails]);
+
+  async function openInspect(idOrName: string, tab: typeof drawerTab = "overview") {
     setError(null);
+    setDrawerTab(tab);
     try {
       const net = await inspectNetwork(idOrName);
+      if (net.Id !== inspected?.Id) setSelectedEndpoints(new Set());
       setInspected(net);
       setDrawerOpen(true);
       // Update cache
       setNetworkDetails((prev) => new Map(prev).set(net.Id, net));
     } catch (e: any) {
-      setError(parseDockerError(e));
+      showError(e);
     }
   }
 
-  async function onRemove(row: NetworkListRow) {
-    setError(null);
-    try {
-      await removeNetwork(row.ID);
-      await refresh();
-    } catch (e: any) {
-      setError(parseDockerError(e));
-    }
+  function confirmRemove(targets: NetworkListRow[], title = "Remove networks", action: "remove" | "prune" = "remove") {
+    setBulkAction({
+      title,
+      description: `The following ${targets.length} network${targets.length !== 1 ? "s" : ""} will be removed. Networks with attached containers cannot be removed.`,
+      confirmLabel: "Remove",
+      items: targets.map((r) => ({ id: r.ID, label: r.Name })),
+      run: (item) => trackRemove(item.id, action),
+      onFinished: () => {
+        setSelected(new Set());
+        refresh();
+      },
+    });
   }
 
-  async function onPrune() {
+  function confirmRestore(snapshot: EnvironmentSnapshot, plan: RestorePlan) {
+    setSnapshotsOpen(false);
+    const missing = plan.missingContainers.length
+      ? ` These containers no longer exist and will be skipped: ${plan.missingContainers.join(", ")}.`
+      : "";
+    setBulkAction({
+      title: `Restore "${snapshot.name}"`,
+      description: `The following ${plan.steps.length} step${plan.steps.length !== 1 ? "s" : ""} will make the current networks match the snapshot.${missing}`,
+      confirmLabel: "Restore",
+      items: plan.steps.map((step, i) => ({ id: String(i), label: describeStep(step) })),
+      run: (item) => runStep(plan.steps[Number(item.id)]),
+      onFinished: refresh,
+    });
+  }
+
+  function confirmDisconnect(network: NetworkInspect, containerIds: string[]) {
+    setBulkAction({
+      title: "Disconnect containers",
+      description: `The following containers will be disconnected from ${network.Name}${disconnectForce ? " (forced)" : ""}:`,
+      confirmLabel: "Disconnect",
+      items: containerIds.map((id) => ({ id, label: network.Containers?.[id]?.Name || shortId(id) })),
+      run: (item) => trackDisconnect(network.Name, item.id, disconnectForce),
+      onFinished: async () => {
+        setSelectedEndpoints(new Set());
+        try {
+          const net = await inspectNetwork(network.Id);
+          setInspected(net);
+          setNetworkDetails((prev) => new Map(prev).set(net.Id, net));
+        } catch (e: any) {
+          showError(e);
+        }
+        refresh();
+      },
+    });
+  }
+
+  async function confirmDisconnectAndRemove(idOrName: string) {
+    const net = await inspectNetwork(idOrName);
+    const containers = Object.entries(net.Containers || {});
+    setBulkAction({
+      title: `Remove ${net.Name}`,
+      description: `The ${containers.length} attached container(s) are disconnected${disconnectForce ? " (forced)" : ""}, then the network is removed.`,
+      confirmLabel: "Disconnect and remove",
+      items: [
+        ...containers.map(([id, c]) => ({ id, label: `Disconnect ${c.Name || shortId(id)}` })),
+        { id: net.Id, label: `Remove ${net.Name}` },
+      ],
+      run: (item) => (item.id === net.Id ? trackRemove(net.Id) : trackDisconnect(net.Name, item.id, disconnectForce)),
+      onFinished: refresh,
+    });
+  }
+
+  /** Carries out a fix offered with an error; dialogs close so its result is visible. */
+  async function runErrorAction(action: ErrorAction) {
     setError(null);
+    setBulkAction(null);
+    setCreateOpen(false);
+    setConnectOpen(false);
     try {
-      await pruneNetworks();
-      await refresh();
+      switch (action.kind) {
+        case "disconnect-all-and-remove":
+          await confirmDisconnectAndRemove(action.network);
+          break;
+        case "force-disconnect":
+          await trackDisconnect(action.network, action.container, true);
+          await refresh();
+          break;
+        case "inspect":
+          await openInspect(action.network);
+          break;
+        case "prune":
+          setPruneOpen(true);
+          break;
+        case "refresh":
+          await refresh();
+          break;
+      }
     } catch (e: any) {
-      setError(parseDockerError(e));
+      showError(e);
     }
   }
 
-  async function onCreate() {
+  function onPrune(networks: NetworkInspect[]) {
+    setPruneOpen(false);
+    confirmRemove(networks.map(rowFromInspect), "Prune networks", "prune");
+  }
+
+  function openCreate() {
+    setEditing(null);
+    setCreateOpen(true);
+  }
+
+  async function openEdit(row: NetworkListRow) {
     setError(null);
     try {
-      if (!createForm.name.trim()) throw new Error("Network name is required");
-      await createNetwork({
-        name: createForm.name.trim(),
-        driver: createForm.driver,
-        attachable: createForm.attachable,
-        internal: createForm.internal,
-        ipv6: createForm.ipv6,
-        subnet: createForm.subnet.trim() || undefined,
-        gateway: createForm.gateway.trim() || undefined,
-      });
-      setCreateOpen(false);
-      setCreateForm({
-        name: "",
-        driver: "bridge",
-        attachable: false,
-        internal: false,
-        ipv6: false,
-        subnet: "",
-        gateway: "",
-      });
-      await refresh();
+      setEditing(await inspectNetwork(row.ID));
+      setCreateOpen(true);
     } catch (e: any) {
-      setError(parseDockerError(e));
+      showError(e);
     }
   }
 
-  async function onConnect() {
+  async function onCreate(spec: NetworkSpec) {
     setError(null);
     try {
-      if (!connectForm.network.trim()) throw new Error("Network is required");
-      if (!connectForm.container.trim()) throw new Error("Container name/ID is required");
-      await connectContainer(connectForm.network.trim(), connectForm.container.trim());
-      setConnectOpen(false);
-      setConnectForm({ network: "", container: "" });
-      if (inspected?.Id && inspected.Name === connectForm.network.trim()) {
-        const net = await inspectNetwork(inspected.Id);
-        setInspected(net);
-        setNetworkDetails((prev) => new Map(prev).set(net.Id, net));
+      if (!spec.name) throw new Error("Network name is required");
+      if (editing) {
+        setCreateOpen(false);
+        const ok = await recreateNetwork(editing, spec, setRecreateProgress);
+        recordOperation({
+          action: "edit",
+          network: spec.name,
+          command: `docker network ${networkCreateArgs(spec).join(" ")}`,
+          ok,
+          error: ok ? undefined : "Recreating the network failed and was rolled back",
+          before: editing,
+        });
+      } else {
+        await trackCreate(spec);
+        setCreateOpen(false);
       }
+      setEditing(null);
       await refresh();
     } catch (e: any) {
-      setError(parseDockerError(e));
+      showError(e);
+    }
+  }
+
+  // Errors propagate so the connect dialog can show them next to the form
+  async function onConnect(network: string, container: string, opts: ConnectOptions) {
+    await trackConnect(network, container, opts);
+    setConnectOpen(false);
+    if (inspected?.Id && inspected.Name === network) {
+      const net = await inspectNetwork(inspected.Id);
+      setInspected(net);
+      setNetworkDetails((prev) => new Map(prev).set(net.Id, net));
     }
+    await refresh();
+  }
+
+  function openConnect(network?: string) {
+    setConnectNetwork(network);
+    setConnectOpen(true);
   }
 
   async function onDisconnect(network: string, containerIdOrName: string) {
     setError(null);
     try {
-      await disconnectContainer(network, containerIdOrName, disconnectForce);
+      await trackDisconnect(network, containerIdOrName, disconnectForce);
       const net = await inspectNetwork(network);
       setInspected(net);
       setNetworkDetails((prev) => new Map(prev).set(net.Id, net));
       await refresh();
     } catch (e: any) {
-      setError(parseDockerError(e));
+      showError(e);
     }
   }
 
@@ -359,6 +681,194 @@ export default function Networks() {
     return Array.from(set).sort();
   }, [rows]);
 
+  function renderRow(row: NetworkListRow) {
+    const details = getNetworkWithDetails(row);
+    const isLoadingDetails = loadingDetails && !networkDetails.has(row.ID);
+    const rowFindings = ipamFindingsByNetwork.get(row.ID) || [];
+    const exposure = exposureByNetwork.get(row.ID);
+    const rowViolations = lintViolationsByNetwork.get(row.ID) || [];
+    const trafficSeries = traffic.networks.get(row.ID);
+    return (
+      <TableRow key={row.ID} hover selected={selected.has(row.ID)}>
+        <TableCell padding="checkbox">
+          <Checkbox
+            size="small"
+            checked={selected.has(row.ID)}
+            disabled={SYSTEM_NETWORKS.has(row.Name)}
+            onChange={() => toggleSelected(row.ID)}
+          />
+        </TableCell>
+        <TableCell>
+          <Stack direction="row" gap={1} alignItems="center">
+            <Typography variant="body2" noWrap sx={{ maxWidth: 200 }} title={row.Name}>
+              {row.Name}
+            </Typography>
+            {SYSTEM_NETWORKS.has(row.Name) && (
+              <Chip size="small" label="system" color="default" />
+            )}
+            {networkDetails.get(row.ID)?.Ingress && <Chip size="small" label="ingress" color="secondary" />}
+            {row.Driver === "overlay" && networkDetails.has(row.ID) && isEncrypted(networkDetails.get(row.ID)!) && (
+              <Chip size="small" label="encrypted" color="success" variant="outlined" />
+            )}
+            {rowFindings.length > 0 && (
+              <Tooltip title={rowFindings.map((f, i) => <div key={i}>{f.message}</div>)}>
+                <Chip
+                  size="small"
+                  label="IPAM"
+                  icon={<ReportProblemIcon />}
+                  color={rowFindings.some((f) => f.severity === "error") ? "error" : "warning"}
+                  variant="outlined"
+                  onClick={() => setShowIpamReport(true)}
+                />
+              </Tooltip>
+            )}
+            {rowViolations.map((v, i) => (
+              <Tooltip key={i} title={v.message}>
+                <Chip
+                  size="small"
+                  label={LINT_RULES.find((r) => r.id === v.ruleId)?.label}
+                  color={v.severity}
+                  variant="outlined"
+                  onClick={() => setShowHealth(true)}
+                />
+              </Tooltip>
+            ))}
+          </Stack>
+        </TableCell>
+        <TableCell>
+          <Typography variant="body2" component="code" sx={{ fontSize: "0.875rem" }}>
+            {shortId(row.ID)}
+          </Typography>
+        </TableCell>
+        <TableCell>{row.Driver}</TableCell>
+        <TableCell>{row.Scope}</TableCell>
+        <TableCell align="center">
+          {isLoadingDetails ? (
+            <Skeleton variant="circular" width={24} height={24} />
+          ) : details.EnableIPv6 ? (
+            <Chip size="small" label="IPv6" color="primary" variant="outlined" />
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              —
+            </Typography>
+          )}
+        </TableCell>
+        <TableCell align="center">
+          {isLoadingDetails ? (
+            <Skeleton variant="circular" width={24} height={24} />
+          ) : details.Internal ? (
+            <Chip size="small" label="Internal" color="warning" variant="outlined" />
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              —
+            </Typography>
+          )}
+        </TableCell>
+        <TableCell align="center">
+          {isLoadingDetails ? (
+            <Skeleton variant="circular" width={24} height={24} />
+          ) : details.Attachable ? (
+            <Chip size="small" label="Attachable" color="success" variant="outlined" />
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              —
+            </Typography>
+          )}
+        </TableCell>
+        <TableCell align="center">
+          {isLoadingDetails ? (
+            <Skeleton variant="text" width={30} />
+          ) : details.ContainerCount !== undefined ? (
+            <Typography variant="body2">{details.ContainerCount}</Typography>
+          ) : (
+            <Tooltip title="Click inspect to load details">
+              <Typography variant="body2" color="text.secondary" sx={{ cursor: "help" }}>
+                ?
+              </Typography>
+            </Tooltip>
+          )}
+        </TableCell>
+        <TableCell align="center">
+          {exposure?.ports.length ? (
+            <Stack direction="row" gap={0.5} justifyContent="center">
+              <Tooltip title={exposure.ports.map((p, i) => <div key={i}>{`${p.containerName}: ${formatPort(p)}`}</div>)}>
+                <Chip size="small" label={exposure.ports.length} variant="outlined" />
+              </Tooltip>
+              {exposure.warnings.length > 0 && (
+                <Tooltip
+                  title={exposure.warnings.map((w) => (
+                    <div key={w.containerId}>{`${w.containerName} is reachable through ${w.via.join(", ")}`}</div>
+                  ))}
+                >
+                  <Chip
+                    size="small"
+                    label="Exposed"
+                    icon={<ReportProblemIcon />}
+                    color="warning"
+                    variant="outlined"
+                    onClick={() => openInspect(row.ID, "ports")}
+                  />
+                </Tooltip>
+              )}
+            </Stack>
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              —
+            </Typography>
+          )}
+        </TableCell>
+        {trafficInterval > 0 && (
+          <TableCell>
+            {trafficSeries ? (
+              <Tooltip title={latestRate(trafficSeries) || "Waiting for a second sample"}>
+                <Box sx={{ cursor: "pointer" }} onClick={() => openInspect(row.ID, "traffic")}>
+                  <Sparkline points={trafficSeries.points} />
+                </Box>
+              </Tooltip>
+            ) : (
+              <Tooltip
+                title={
+                  trafficProbe
+                    ? "No running containers"
+                    : "No running containers, or only ones on several networks, which docker stats can't split"
+                }
+              >
+                <Typography variant="body2" color="text.secondary">
+                  —
+                </Typography>
+              </Tooltip>
+            )}
+          </TableCell>
+        )}
+        <TableCell align="right">
+          <Tooltip title="Inspect">
+            <IconButton size="small" onClick={() => openInspect(row.ID)}>
+              <InfoIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title={SYSTEM_NETWORKS.has(row.Name) ? "System network (protected)" : "Edit"}>
+            <span>
+              <IconButton size="small" onClick={() => openEdit(row)} disabled={SYSTEM_NETWORKS.has(row.Name)}>
+                <EditIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+          <Tooltip title={SYSTEM_NETWORKS.has(row.Name) ? "System network (protected)" : "Remove"}>
+            <span>
+              <IconButton
+                size="small"
+                onClick={() => confirmRemove([row], "Remove network")}
+                disabled={SYSTEM_NETWORKS.has(row.Name)}
+              >
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </span>
+          </Tooltip>
+        </TableCell>
+      </TableRow>
+    );
+  }
+
   return (
     <Box>
       <Stack direction="row" gap={1} alignItems="center" sx={{ mb: 2 }} flexWrap="wrap">
@@ -377,6 +887,16 @@ export default function Networks() {
           </span>
         </Tooltip>
 
+        <Tooltip title={live ? "Updating live from Docker events" : "Not receiving Docker events"}>
+          <Chip
+            size="small"
+            label={live ? "Live" : "Offline"}
+            color={live ? "success" : "default"}
+            variant="outlined"
+            icon={<FiberManualRecordIcon sx={{ fontSize: 10 }} />}
+          />
+        </Tooltip>
+
         <IconButton
           onClick={() => setShowFilters(!showFilters)}
           color={showFilters || filterDriver !== "all" || filterScope !== "all" || filterSystemOnly ? "primary" : "default"}
@@ -384,23 +904,109 @@ export default function Networks() {
           <FilterListIcon />
         </IconButton>
 
-        <Button startIcon={<AddIcon />} variant="contained" onClick={() => setCreateOpen(true)}>
+        <Tooltip title="Group by Compose project">
+          <IconButton onClick={() => setGroupByProject(!groupByProject)} color={groupByProject ? "primary" : "default"}>
+            <WorkspacesIcon />
+          </IconButton>
+        </Tooltip>
+
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={view}
+          onChange={(_, v) => v && setView(v)}
+        >
+          <ToggleButton value="table">
+            <Tooltip title="Table">
+              <TableRowsIcon fontSize="small" />
+            </Tooltip>
+          </ToggleButton>
+          <ToggleButton value="graph">
+            <Tooltip title="Topology graph">
+              <HubIcon fontSize="small" />
+            </Tooltip>
+          </ToggleButton>
+        </ToggleButtonGroup>
+
+        <TextField
+          size="small"
+          select
+          label="Traffic"
+          value={trafficInterval}
+          onChange={(e) => {
+            const ms = Number(e.target.value);
+            setTrafficInterval(ms);
+            saveTrafficInterval(ms);
+          }}
+          sx={{ minWidth: 110 }}
+        >
+          {TRAFFIC_INTERVALS.map((ms) => (
+            <MenuItem key={ms} value={ms}>
+              {ms ? `Every ${ms / 1000}s` : "Off"}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        <Tooltip title="IPAM report">
+          <IconButton onClick={() => setShowIpamReport(!showIpamReport)} color={showIpamReport ? "primary" : "default"}>
+            <Badge badgeContent={ipamFindings.length} color="error">
+              <ReportProblemIcon />
+            </Badge>
+          </IconButton>
+        </Tooltip>
+
+        <Tooltip title="Network health">
+          <IconButton onClick={() => setShowHealth(!showHealth)} color={showHealth ? "primary" : "default"}>
+            <Badge
+              badgeContent={lintViolations.length}
+              color={lintViolations.some((v) => v.severity === "error") ? "error" : "warning"}
+            >
+              <RuleIcon />
+            </Badge>
+          </IconButton>
+        </Tooltip>
+
+        <Button startIcon={<AddIcon />} variant="contained" onClick={openCreate}>
           Create
         </Button>
 
         <Button
           startIcon={<LinkIcon />}
           variant="outlined"
-          onClick={() => {
-            setConnectOpen(true);
-          }}
+          onClick={() => openConnect()}
         >
           Connect
         </Button>
 
-        <Button startIcon={<CleaningServicesIcon />} variant="outlined" onClick={onPrune}>
+        <Button startIcon={<CleaningServicesIcon />} variant="outlined" onClick={() => setPruneOpen(true)}>
           Prune
         </Button>
+
+        <Tooltip title="Export networks">
+          <IconButton onClick={() => setExportOpen(true)}>
+            <FileDownloadIcon />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Import networks">
+          <IconButton onClick={() => setImportOpen(true)}>
+            <FileUploadIcon />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Compare networks">
+          <IconButton onClick={() => setDiff({})}>
+            <CompareArrowsIcon />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="Snapshots">
+          <IconButton onClick={() => setSnapshotsOpen(true)}>
+            <PhotoLibraryIcon />
+          </IconButton>
+        </Tooltip>
+        <Tooltip title="History">
+          <IconButton onClick={() => setHistoryOpen(true)}>
+            <HistoryIcon />
+          </IconButton>
+        </Tooltip>
       </Stack>
 
       {showFilters && (
@@ -452,17 +1058,71 @@ export default function Networks() {
         </Paper>
       )}
 
+      {showIpamReport && (
+        <IpamReport
+          findings={ipamFindings}
+          networks={Array.from(networkDetails.values())}
+          loading={loadingDetails}
+          onNetworkClick={(id) => openInspect(id)}
+        />
+      )}
+
+      {showHealth && (
+        <LintPanel
+          violations={lintViolations}
+          networks={Array.from(networkDetails.values())}
+          config={lintConfig}
+          loading={loadingDetails}
+          onConfigChange={updateLintConfig}
+          onNetworkClick={(id) => openInspect(id)}
+        />
+      )}
+
       {error && (
-        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
-          {error}
-        </Alert>
+        <DockerErrorAlert error={error} onAction={runErrorAction} onClose={() => setError(null)} sx={{ mb: 2 }} />
       )}
 
       <Paper sx={{ overflow: "hidden" }}>
         <Box sx={{ px: 2, py: 1.5, bgcolor: "background.default", borderBottom: "1px solid", borderColor: "divider" }}>
-          <Typography variant="subtitle2">
-            {loading ? "Loading..." : `${filtered.length} network${filtered.length !== 1 ? "s" : ""}`}
-          </Typography>
+          <Stack direction="row" gap={1} alignItems="center" sx={{ minHeight: 30 }}>
+            <Typography variant="subtitle2" sx={{ flex: 1 }}>
+              {loading ? "Loading..." : `${filtered.length} network${filtered.length !== 1 ? "s" : ""}`}
+              {selected.size > 0 ? ` • ${selected.size} selected` : ""}
+            </Typography>
+            {swarmInfo?.LocalNodeState === "active" && (
+              <Tooltip title={`Node ${swarmInfo.NodeID} • ${swarmInfo.NodeAddr}`}>
+                <Chip size="small" variant="outlined" label={swarmManager ? "swarm manager" : "swarm worker"} />
+              </Tooltip>
+            )}
+            {selected.size > 0 && (
+              <>
+                <Button size="small" onClick={() => setSelected(new Set())}>
+                  Clear selection
+                </Button>
+                {selected.size === 2 && (
+                  <Button
+                    size="small"
+                    startIcon={<CompareArrowsIcon />}
+                    onClick={() => {
+                      const [left, right] = [...selected].map(networkSource);
+                      setDiff({ left, right });
+                    }}
+                  >
+                    Compare
+                  </Button>
+                )}
+                <Button
+                  size="small"
+                  color="error"
+                  variant="outlined"
+                  startIcon={<DeleteIcon />}
+                  onClick={() => confirmRemove(selectedRows)}
+                >
+                  Remove selected
+                </Button>
+              </>
+            )}
+          </Stack>
         </Box>
 
         {loading && rows.length === 0 ? (
@@ -479,10 +1139,32 @@ export default function Networks() {
               {rows.length === 0 ? "No networks found" : "No networks match your filters"}
             </Typography>
           </Box>
+        ) : view === "graph" ? (
+          loadingDetails && graphNetworks.length < filtered.length ? (
+            <Box sx={{ p: 2 }}>
+              <Skeleton variant="rectangular" height={320} />
+            </Box>
+          ) : (
+            <Topology
+              networks={graphNetworks}
+              onNetworkClick={(id) => openInspect(id)}
+              onContainerClick={(id) => setSelectedContainer(id)}
+            />
+          )
         ) : (
           <Table size="small">
             <TableHead>
               <TableRow>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    size="small"
+                    checked={selectable.length > 0 && selectable.every((r) => selected.has(r.ID))}
+                    indeterminate={selectable.some((r) => selected.has(r.ID)) && !selectable.every((r) => selected.has(r.ID))}
+                    onChange={(e) =>
+                      setSelected(e.target.checked ? new Set(selectable.map((r) => r.ID)) : new Set())
+                    }
+                  />
+                </TableCell>
                 <TableCell>Name</TableCell>
                 <TableCell>ID</TableCell>
                 <TableCell>Driver</TableCell>
@@ -491,99 +1173,51 @@ export default function Networks() {
                 <TableCell align="center">Internal</TableCell>
                 <TableCell align="center">Attachable</TableCell>
                 <TableCell align="center">Containers</TableCell>
+                <TableCell align="center">Published</TableCell>
+                {trafficInterval > 0 && <TableCell>Traffic</TableCell>}
                 <TableCell align="right">Actions</TableCell>
               </TableRow>
             </TableHead>
             <TableBody>
-              {filtered.map((row) => {
-                const details = getNetworkWithDetails(row);
-                const isLoadingDetails = loadingDetails.has(row.ID);
-                return (
-                  <TableRow key={row.ID} hover>
-                    <TableCell>
-                      <Stack direction="row" gap={1} alignItems="center">
-                        <Typography variant="body2" noWrap sx={{ maxWidth: 200 }} title={row.Name}>
-                          {row.Name}
-                        </Typography>
-                        {SYSTEM_NETWORKS.has(row.Name) && (
-                          <Chip size="small" label="system" color="default" />
-                        )}
-                      </Stack>
-                    </TableCell>
-                    <TableCell>
-                      <Typography variant="body2" component="code" sx={{ fontSize: "0.875rem" }}>
-                        {shortId(row.ID)}
-                      </Typography>
-                    </TableCell>
-                    <TableCell>{row.Driver}</TableCell>
-                    <TableCell>{row.Scope}</TableCell>
-                    <TableCell align="center">
-                      {isLoadingDetails ? (
-                        <Skeleton variant="circular" width={24} height={24} />
-                      ) : details.EnableIPv6 ? (
-                        <Chip size="small" label="IPv6" color="primary" variant="outlined" />
-                      ) : (
-                        <Typography variant="body2" color="text.secondary">
-                          —
-                        </Typography>
-                      )}
-                    </TableCell>
-                    <TableCell align="center">
-                      {isLoadingDetails ? (
-                        <Skeleton variant="circular" width={24} height={24} />
-                      ) : details.Internal ? (
-                        <Chip size="small" label="Internal" color="warning" variant="outlined" />
-                      ) : (
-                        <Typography variant="body2" color="text.secondary">
-                          —
-                        </Typography>
-                      )}
-                    </TableCell>
-                    <TableCell align="center">
-                      {isLoadingDetails ? (
-                        <Skeleton variant="circular" width={24} height={24} />
-                      ) : details.Attachable ? (
-                        <Chip size="small" label="Attachable" color="success" variant="outlined" />
-                      ) : (
-                        <Typography variant="body2" color="text.secondary">
-                          —
-                        </Typography>
-                      )}
-                    </TableCell>
-                    <TableCell align="center">
-                      {isLoadingDetails ? (
-                        <Skeleton variant="text" width={30} />
-                      ) : details.ContainerCount !== undefined ? (
-                        <Typography variant="body2">{details.ContainerCount}</Typography>
-                      ) : (
-                        <Tooltip title="Click inspect to load details">
-                          <Typography variant="body2" color="text.secondary" sx={{ cursor: "help" }}>
-                            ?
-                          </Typography>
-                        </Tooltip>
-                      )}
-                    </TableCell>
-                    <TableCell align="right">
-                      <Tooltip title="Inspect">
-                        <IconButton size="small" onClick={() => openInspect(row.ID)}>
-                          <InfoIcon fontSize="small" />
-                        </IconButton>
-                      </Tooltip>
-                      <Tooltip title={SYSTEM_NETWORKS.has(row.Name) ? "System network (protected)" : "Remove"}>
-                        <span>
-                          <IconButton
-                            size="small"
-                            onClick={() => onRemove(row)}
-                            disabled={SYSTEM_NETWORKS.has(row.Name)}
-                          >
-                            <DeleteIcon fontSize="small" />
-                          </IconButton>
-                        </span>
-                      </Tooltip>
-                    </TableCell>
-                  </TableRow>
-                );
-              })}
+              {groupByProject
+                ? composeGroups.flatMap((g) => {
+                    const key = g.project ?? "";
+                    const expanded = !collapsedProjects.has(key);
+                    return [
+                      <TableRow key={`group-${key}`} sx={{ bgcolor: "action.hover" }}>
+                        <TableCell colSpan={columnCount - 1}>
+                          <Stack direction="row" gap={1} alignItems="center">
+                            <IconButton size="small" onClick={() => toggleProject(key)}>
+                              {expanded ? <ExpandMoreIcon fontSize="small" /> : <ChevronRightIcon fontSize="small" />}
+                            </IconButton>
+                            <Typography variant="subtitle2">{g.project ?? "Ungrouped"}</Typography>
+                            <Chip size="small" label={g.rows.length} />
+                          </Stack>
+                        </TableCell>
+                        <TableCell align="right">
+                          {g.project !== null && (
+                            <>
+                              <Tooltip title="Inspect project and services">
+                                <IconButton size="small" onClick={() => setOpenProject(g.project)}>
+                                  <InfoIcon fontSize="small" />
+                                </IconButton>
+                              </Tooltip>
+                              <Tooltip title="Remove all project networks">
+                                <IconButton
+                                  size="small"
+                                  onClick={() => confirmRemove(projectNetworks(g.project), `Remove ${g.project} networks`)}
+                                >
+                                  <DeleteIcon fontSize="small" />
+                                </IconButton>
+                              </Tooltip>
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>,
+                      ...(expanded ? g.rows.map(renderRow) : []),
+                    ];
+                  })
+                : filtered.map(renderRow)}
             </TableBody>
           </Table>
         )}
@@ -593,23 +1227,49 @@ export default function Networks() {
       <Drawer anchor="right" open={drawerOpen} onClose={() => setDrawerOpen(false)}>
         <Box sx={{ width: 560, p: 2, height: "100%", overflow: "auto" }}>
           <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 1 }}>
-            <Typography variant="h6">Network Inspect</Typography>
+            <Typography variant="h6" sx={{ flex: 1 }}>
+              Network Inspect
+            </Typography>
             {inspected && (
-              <Button
-                size="small"
-                startIcon={<RefreshIcon />}
-                onClick={async () => {
-                  try {
-                    const net = await inspectNetwork(inspected.Id);
-                    setInspected(net);
-                    setNetworkDetails((prev) => new Map(prev).set(net.Id, net));
-                  } catch (e: any) {
-                    setError(parseDockerError(e));
-                  }
-                }}
-              >
-                Refresh
-              </Button>
+              <>
+                <Button
+                  size="small"
+                  startIcon={<CameraAltIcon />}
+                  disabled={snapshotSaved === inspected.Id}
+                  onClick={() => {
+                    try {
+                      saveNetworkSnapshot(inspected);
+                      setSnapshotSaved(inspected.Id);
+                    } catch (e: any) {
+                      showError(`Failed to save snapshot: ${e?.message || e}`);
+                    }
+                  }}
+                >
+                  {snapshotSaved === inspected.Id ? "Snapshot saved" : "Save snapshot"}
+                </Button>
+                <Button
+                  size="small"
+                  startIcon={<CompareArrowsIcon />}
+                  onClick={() => setDiff({ left: networkSource(inspected.Id) })}
+                >
+                  Compare
+                </Button>
+                <Button
+                  size="small"
+                  startIcon={<RefreshIcon />}
+                  onClick={async () => {
+                    try {
+                      const net = await inspectNetwork(inspected.Id);
+                      setInspected(net);
+                      setNetworkDetails((prev) => new Map(prev).set(net.Id, net));
+                    } catch (e: any) {
+                      showError(e);
+                    }
+                  }}
+                >
+                  Refresh
+                </Button>
+              </>
             )}
           </Stack>
 
@@ -639,205 +1299,362 @@ export default function Networks() {
                 </Stack>
               </Stack>
 
-              <Divider sx={{ my: 2 }} />
+              <Tabs
+                value={drawerTab}
+                onChange={(_, v) => setDrawerTab(v)}
+                sx={{ mb: 2, borderBottom: 1, borderColor: "divider" }}
+              >
+                <Tab value="overview" label="Overview" />
+                <Tab value="dns" label="DNS names" />
+                <Tab value="ports" label="Published ports" />
+                <Tab value="traffic" label="Traffic" />
+                {isSwarmOverlay(inspected) && <Tab value="swarm" label="Swarm" />}
+              </Tabs>
 
-              <Typography variant="subtitle2" sx={{ mb: 1 }}>
-                Connected containers ({inspected.Containers ? Object.keys(inspected.Containers).length : 0})
-              </Typography>
+              {drawerTab === "dns" && <DnsNames network={inspected} />}
 
-              <Stack direction="row" gap={1} alignItems="center" sx={{ mb: 1 }}>
-                <FormControlLabel
-                  control={
-                    <Switch
-                      checked={disconnectForce}
-                      onChange={(e) => setDisconnectForce(e.target.checked)}
-                      size="small"
-                    />
-                  }
-                  label="Force disconnect"
+              {drawerTab === "traffic" && (
+                <NetworkTraffic
+                  network={inspected}
+                  traffic={traffic}
+                  interval={trafficInterval}
+                  probeInterfaces={trafficProbe}
+                  onProbeInterfacesChange={(enabled) => {
+                    setTrafficProbe(enabled);
+                    saveTrafficProbe(enabled);
+                  }}
                 />
-              </Stack>
+              )}
 
-              {inspected.Containers && Object.keys(inspected.Containers).length > 0 ? (
-                <Box sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, overflow: "hidden" }}>
-                  {Object.entries(inspected.Containers).map(([cid, c]) => (
-                    <Box
-                      key={cid}
-                      sx={{
-                        px: 1.5,
-                        py: 1,
-                        "&:not(:last-child)": { borderBottom: "1px solid", borderColor: "divider" },
-                      }}
-                    >
-                      <Stack direction="row" justifyContent="space-between" alignItems="center" gap={1}>
-                        <Box sx={{ minWidth: 0, flex: 1 }}>
-                          <Tooltip title={`Container ID: ${cid}`}>
-                            <Typography variant="body2" noWrap title={c.Name}>
-                              <b>{c.Name}</b>
-                            </Typography>
-                          </Tooltip>
-                          <Typography variant="caption" color="text.secondary">
-                            <code>{shortId(cid)}</code>
-                            {c.IPv4Address ? ` • IPv4 ${c.IPv4Address}` : ""}
-                            {c.IPv6Address ? ` • IPv6 ${c.IPv6Address}` : ""}
-                            {c.MacAddress ? ` • MAC ${c.MacAddress}` : ""}
-                          </Typography>
+              {drawerTab === "swarm" && <SwarmNetwork network={inspected} manager={swarmManager} />}
+
+              {drawerTab === "ports" && (
+                <PublishedPorts network={inspected} exposure={exposureByNetwork.get(inspected.Id)} />
+              )}
+
+              {drawerTab === "overview" && (
+                <>
+                  <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                    Connected containers ({inspected.Containers ? Object.keys(inspected.Containers).length : 0})
+                  </Typography>
+
+                  <Stack direction="row" gap={1} alignItems="center" justifyContent="space-between" sx={{ mb: 1 }}>
+                    <FormControlLabel
+                      control={
+                        <Switch
+                          checked={disconnectForce}
+                          onChange={(e) => setDisconnectForce(e.target.checked)}
+                          size="small"
+                        />
+                      }
+                      label="Force disconnect"
+                    />
+                    <Stack direction="row" gap={1}>
+                      {selectedEndpoints.size > 0 && (
+                        <Button
+                          size="small"
+                          color="error"
+                          startIcon={<LinkOffIcon />}
+                          onClick={() => confirmDisconnect(inspected, [...selectedEndpoints])}
+                        >
+                          Disconnect selected ({selectedEndpoints.size})
+                        </Button>
+                      )}
+                      <Button size="small" startIcon={<LinkIcon />} onClick={() => openConnect(inspected.Name)}>
+                        Connect container
+                      </Button>
+                    </Stack>
+                  </Stack>
+
+                  {inspected.Containers && Object.keys(inspected.Containers).length > 0 ? (
+                    <Box sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, overflow: "hidden" }}>
+                      {Object.entries(inspected.Containers).map(([cid, c]) => (
+                        <Box
+                          key={cid}
+                          sx={{
+                            px: 1.5,
+                            py: 1,
+                            "&:not(:last-child)": { borderBottom: "1px solid", borderColor: "divider" },
+                          }}
+                        >
+                          <Stack direction="row" justifyContent="space-between" alignItems="center" gap={1}>
+                            <Checkbox
+                              size="small"
+                              sx={{ p: 0.5 }}
+                              checked={selectedEndpoints.has(cid)}
+                              onChange={() =>
+                                setSelectedEndpoints((prev) => {
+                                  const next = new Set(prev);
+                                  if (next.has(cid)) next.delete(cid);
+                                  else next.add(cid);
+                                  return next;
+                                })
+                              }
+                            />
+                            <Box sx={{ minWidth: 0, flex: 1 }}>
+                              <Tooltip title={`Container ID: ${cid}`}>
+                                <Typography variant="body2" noWrap title={c.Name}>
+                                  <b>{c.Name}</b>
+                                </Typography>
+                              </Tooltip>
+                              <Typography variant="caption" color="text.secondary">
+                                <code>{shortId(cid)}</code>
+                                {c.IPv4Address ? ` • IPv4 ${c.IPv4Address}` : ""}
+                                {c.IPv6Address ? ` • IPv6 ${c.IPv6Address}` : ""}
+                                {c.MacAddress ? ` • MAC ${c.MacAddress}` : ""}
+                              </Typography>
+                            </Box>
+                            <Tooltip title="Disconnect container">
+                              <IconButton size="small" onClick={() => onDisconnect(inspected.Name, c.Name)}>
+                                <LinkOffIcon fontSize="small" />
+                              </IconButton>
+                            </Tooltip>
+                          </Stack>
                         </Box>
-                        <Tooltip title="Disconnect container">
-                          <IconButton size="small" onClick={() => onDisconnect(inspected.Name, c.Name)}>
-                            <LinkOffIcon fontSize="small" />
-                          </IconButton>
-                        </Tooltip>
-                      </Stack>
+                      ))}
                     </Box>
-                  ))}
-                </Box>
-              ) : (
-                <Typography variant="body2" color="text.secondary">
-                  No containers currently attached.
-                </Typography>
+                  ) : (
+                    <Typography variant="body2" color="text.secondary">
+                      No containers currently attached.
+                    </Typography>
+                  )}
+
+                  <Divider sx={{ my: 2 }} />
+
+                  <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                    Test connectivity
+                  </Typography>
+                  <ConnectivityTester network={inspected} />
+
+                  <Divider sx={{ my: 2 }} />
+
+                  <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                    Recent events ({inspectedEvents.length})
+                  </Typography>
+                  {inspectedEvents.length > 0 ? (
+                    <Box sx={{ maxHeight: 200, overflow: "auto", mb: 1 }}>
+                      {inspectedEvents.map((e, i) => {
+                        const containerId = e.Type === "container" ? e.Actor.ID : e.Actor.Attributes?.container;
+                        const containerName =
+                          e.Type === "container"
+                            ? e.Actor.Attributes?.name
+                            : containerId && (inspected.Containers?.[containerId]?.Name || shortId(containerId));
+                        return (
+                          <Typography key={i} variant="caption" component="div" color="text.secondary">
+                            {eventTime(e)} • <b>{e.Type} {e.Action}</b>
+                            {containerName ? ` • ${containerName}` : ""}
+                          </Typography>
+                        );
+                      })}
+                    </Box>
+                  ) : (
+                    <Typography variant="body2" color="text.secondary">
+                      {live ? "No events since the extension opened." : "Live updates are not available."}
+                    </Typography>
+                  )}
+
+                  <Divider sx={{ my: 2 }} />
+
+                  <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                    Raw JSON
+                  </Typography>
+                  <Box
+                    component="pre"
+                    sx={{
+                      fontSize: 12,
+                      whiteSpace: "pre-wrap",
+                      wordBreak: "break-word",
+                      bgcolor: "background.paper",
+                      border: "1px solid",
+                      borderColor: "divider",
+                      borderRadius: 2,
+                      p: 1,
+                      maxHeight: "40vh",
+                      overflow: "auto",
+                    }}
+                  >
+                    {JSON.stringify(inspected, null, 2)}
+                  </Box>
+                </>
               )}
+            </>
+          )}
+        </Box>
+      </Drawer>
+
+      {/* Container drawer */}
+      <Drawer anchor="right" open={!!selectedContainer} onClose={() => setSelectedContainer(null)}>
+        <Box sx={{ width: 480, p: 2, height: "100%", overflow: "auto" }}>
+          <Typography variant="h6" sx={{ mb: 1 }}>
+            Container
+          </Typography>
+          {selectedContainer && (
+            <>
+              <Stack spacing={0.5} sx={{ mb: 2 }}>
+                <Typography variant="body2">
+                  <b>Name:</b> {containerEndpoints[0]?.endpoint.Name || "—"}
+                </Typography>
+                <Typography variant="body2">
+                  <b>Id:</b> <code>{selectedContainer}</code>
+                </Typography>
+              </Stack>
 
               <Divider sx={{ my: 2 }} />
 
               <Typography variant="subtitle2" sx={{ mb: 1 }}>
-                Raw JSON
+                Networks ({containerEndpoints.length})
               </Typography>
-              <Box
-                component="pre"
-                sx={{
-                  fontSize: 12,
-                  whiteSpace: "pre-wrap",
-                  wordBreak: "break-word",
-                  bgcolor: "background.paper",
-                  border: "1px solid",
-                  borderColor: "divider",
-                  borderRadius: 2,
-                  p: 1,
-                  maxHeight: "40vh",
-                  overflow: "auto",
-                }}
-              >
-                {JSON.stringify(inspected, null, 2)}
+              <Box sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, overflow: "hidden" }}>
+                {containerEndpoints.map(({ network, endpoint }) => (
+                  <Box
+                    key={network.Id}
+                    sx={{
+                      px: 1.5,
+                      py: 1,
+                      "&:not(:last-child)": { borderBottom: "1px solid", borderColor: "divider" },
+                    }}
+                  >
+                    <Stack direction="row" justifyContent="space-between" alignItems="center" gap={1}>
+                      <Box sx={{ minWidth: 0, flex: 1 }}>
+                        <Typography variant="body2" noWrap title={network.Name}>
+                          <b>{network.Name}</b>
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {network.Driver}
+                          {endpoint.IPv4Address ? ` • IPv4 ${endpoint.IPv4Address}` : ""}
+                          {endpoint.IPv6Address ? ` • IPv6 ${endpoint.IPv6Address}` : ""}
+                          {endpoint.MacAddress ? ` • MAC ${endpoint.MacAddress}` : ""}
+                        </Typography>
+                      </Box>
+                      <Tooltip title="Inspect network">
+                        <IconButton
+                          size="small"
+                          onClick={() => {
+                            setSelectedContainer(null);
+                            openInspect(network.Id);
+                          }}
+                        >
+                          <InfoIcon fontSize="small" />
+                        </IconButton>
+                      </Tooltip>
+                    </Stack>
+                  </Box>
+                ))}
               </Box>
             </>
           )}
         </Box>
       </Drawer>
 
+      {/* Compose project drawer */}
+      <ProjectDrawer
+        project={openProject}
+        networks={projectNetworks(openProject)
+          .map((r) => networkDetails.get(r.ID))
+          .filter((n): n is NetworkInspect => !!n)}
+        onClose={() => setOpenProject(null)}
+        onInspectNetwork={(id) => {
+          setOpenProject(null);
+          openInspect(id);
+        }}
+      />
+
+      <BulkActionDialog
+        action={bulkAction}
+        networks={Array.from(networkDetails.values())}
+        onClose={() => setBulkAction(null)}
+        onErrorAction={runErrorAction}
+      />
+      <PruneDialog open={pruneOpen} onClose={() => setPruneOpen(false)} onConfirm={onPrune} />
+
+      <ExportDialog
+        open={exportOpen}
+        networks={rows
+          .filter((r) => !SYSTEM_NETWORKS.has(r.Name))
+          .map((r) => networkDetails.get(r.ID))
+          .filter((n): n is NetworkInspect => !!n)}
+        onClose={() => setExportOpen(false)}
+      />
+
+      <HistoryPanel open={historyOpen} onClose={() => setHistoryOpen(false)} onChanged={refresh} />
+
+      <SnapshotsDialog open={snapshotsOpen} onClose={() => setSnapshotsOpen(false)} onRestore={confirmRestore} />
+
+      <NetworkDiffDialog
+        open={!!diff}
+        networks={Array.from(networkDetails.values())}
+        initialLeft={diff?.left}
+        initialRight={diff?.right}
+        onClose={() => setDiff(null)}
+      />
+
+      <ImportDialog
+        open={importOpen}
+        existingNames={new Set(rows.map((r) => r.Name))}
+        onClose={() => setImportOpen(false)}
+        onImported={refresh}
+      />
+
       {/* Create dialog */}
-      <Dialog open={createOpen} onClose={() => setCreateOpen(false)} maxWidth="sm" fullWidth>
-        <DialogTitle>Create network</DialogTitle>
-        <DialogContent>
-          <Stack spacing={2} sx={{ mt: 1 }}>
-            <TextField
-              label="Name"
-              value={createForm.name}
-              onChange={(e) => setCreateForm((s) => ({ ...s, name: e.target.value }))}
-              required
-              autoFocus
-              error={!!error && error.includes("already exists")}
-              helperText={error && error.includes("already exists") ? error : undefined}
-            />
-            <TextField
-              label="Driver"
-              select
-              value={createForm.driver}
-              onChange={(e) => setCreateForm((s) => ({ ...s, driver: e.target.value }))}
-            >
-              <MenuItem value="bridge">bridge</MenuItem>
-              <MenuItem value="overlay">overlay</MenuItem>
-              <MenuItem value="macvlan">macvlan</MenuItem>
-              <MenuItem value="ipvlan">ipvlan</MenuItem>
-            </TextField>
+      <CreateNetworkDialog
+        open={createOpen}
+        editing={editing}
+        configOnlyNetworks={Array.from(networkDetails.values())
+          .filter((n) => n.ConfigOnly)
+          .map((n) => n.Name)}
+        swarmManager={swarmManager}
+        error={error}
+        onClose={() => setCreateOpen(false)}
+        onSubmit={onCreate}
+        onErrorAction={runErrorAction}
+      />
 
-            <Stack direction="row" gap={1} flexWrap="wrap">
-              <FormControlLabel
-                control={
-                  <Switch
-                    checked={createForm.attachable}
-                    onChange={(e) => setCreateForm((s) => ({ ...s, attachable: e.target.checked }))}
-                  />
-                }
-                label="Attachable"
-              />
-              <FormControlLabel
-                control={
-                  <Switch
-                    checked={createForm.internal}
-                    onChange={(e) => setCreateForm((s) => ({ ...s, internal: e.target.checked }))}
-                  />
-                }
-                label="Internal"
-              />
-              <FormControlLabel
-                control={
-                  <Switch
-                    checked={createForm.ipv6}
-                    onChange={(e) => setCreateForm((s) => ({ ...s, ipv6: e.target.checked }))}
-                  />
-                }
-                label="IPv6"
-              />
+      {/* Recreate progress dialog */}
+      <Dialog open={!!recreateProgress} maxWidth="sm" fullWidth>
+        <DialogTitle>Recreating network</DialogTitle>
+        <DialogContent>
+          {recreateProgress && (
+            <Stack spacing={2}>
+              <StepList steps={recreateProgress.steps} />
+              {recreateProgress.rollback && (
+                <>
+                  <Divider />
+                  <Typography variant="subtitle2">Rolling back</Typography>
+                  <StepList steps={recreateProgress.rollback} />
+                </>
+              )}
+              {recreateProgress.finished &&
+                (recreateProgress.ok ? (
+                  <Alert severity="success">Network recreated and all containers reconnected.</Alert>
+                ) : (
+                  <Alert severity="error">
+                    The network could not be recreated.
+                    {recreateProgress.rollback?.some((s) => s.status === "failed")
+                      ? " Some rollback steps failed; check the containers listed above."
+                      : recreateProgress.rollback
+                        ? " The original network and attachments were restored."
+                        : ""}
+                  </Alert>
+                ))}
             </Stack>
-
-            <Divider />
-            <Typography variant="subtitle2">Advanced IPAM (optional)</Typography>
-            <TextField
-              label="Subnet (e.g. 172.28.0.0/16)"
-              value={createForm.subnet}
-              onChange={(e) => setCreateForm((s) => ({ ...s, subnet: e.target.value }))}
-              error={!!error && error.includes("Invalid subnet")}
-              helperText={error && error.includes("Invalid subnet") ? error : undefined}
-            />
-            <TextField
-              label="Gateway (e.g. 172.28.0.1)"
-              value={createForm.gateway}
-              onChange={(e) => setCreateForm((s) => ({ ...s, gateway: e.target.value }))}
-            />
-            <Typography variant="caption" color="text.secondary">
-              For overlay networks, some options require Swarm mode.
-            </Typography>
-          </Stack>
+          )}
         </DialogContent>
         <DialogActions>
-          <Button onClick={() => setCreateOpen(false)}>Cancel</Button>
-          <Button variant="contained" onClick={onCreate}>
-            Create
+          <Button disabled={!recreateProgress?.finished} onClick={() => setRecreateProgress(null)}>
+            Close
           </Button>
         </DialogActions>
       </Dialog>
 
       {/* Connect dialog */}
-      <Dialog open={connectOpen} onClose={() => setConnectOpen(false)} maxWidth="sm" fullWidth>
-        <DialogTitle>Connect container to network</DialogTitle>
-        <DialogContent>
-          <Stack spacing={2} sx={{ mt: 1 }}>
-            <TextField
-              label="Network (name or ID)"
-              value={connectForm.network}
-              onChange={(e) => setConnectForm((s) => ({ ...s, network: e.target.value }))}
-              placeholder="e.g. my_net"
-              autoFocus
-            />
-            <TextField
-              label="Container (name or ID)"
-              value={connectForm.container}
-              onChange={(e) => setConnectForm((s) => ({ ...s, container: e.target.value }))}
-              placeholder="e.g. my-container"
-            />
-            <Typography variant="caption" color="text.secondary">
-              Tip: Use container name (preferred) unless you're scripting.
-            </Typography>
-          </Stack>
-        </DialogContent>
-        <DialogActions>
-          <Button onClick={() => setConnectOpen(false)}>Cancel</Button>
-          <Button variant="contained" startIcon={<LinkIcon />} onClick={onConnect}>
-            Connect
-          </Button>
-        </DialogActions>
-      </Dialog>
+      <ConnectDialog
+        open={connectOpen}
+        networks={Array.from(networkDetails.values())}
+        initialNetwork={connectNetwork}
+        onClose={() => setConnectOpen(false)}
+        onSubmit={onConnect}
+        onErrorAction={runErrorAction}
+      />
     </Box>
   );
 }
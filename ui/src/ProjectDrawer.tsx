@@ -0,0 +1,162 @@
+import React from "react";
+import {
+  Alert,
+  Box,
+  Chip,
+  Divider,
+  Drawer,
+  IconButton,
+  Skeleton,
+  Stack,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import InfoIcon from "@mui/icons-material/Info";
+
+import { parseDockerError } from "./api";
+import { COMPOSE_NETWORK_LABEL, COMPOSE_PROJECT_LABEL, COMPOSE_SERVICE_LABEL, parseLabelList } from "./compose";
+import { listContainers } from "./containerApi";
+import type { ContainerListRow, NetworkInspect } from "./types";
+
+type Service = { name: string; containers: ContainerListRow[] };
+
+export default function ProjectDrawer(props: {
+  project: string | null;
+  networks: NetworkInspect[];
+  onClose: () => void;
+  onInspectNetwork: (id: string) => void;
+}) {
+  const { project, networks, onClose, onInspectNetwork } = props;
+  const [services, setServices] = React.useState<Service[] | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    setServices(null);
+    setError(null);
+    if (!project) return;
+    listContainers([`label=${COMPOSE_PROJECT_LABEL}=${project}`])
+      .then((containers) => {
+        const byService = new Map<string, ContainerListRow[]>();
+        containers.forEach((c) => {
+          const service = parseLabelList(c.Labels)[COMPOSE_SERVICE_LABEL] || c.Names;
+          byService.set(service, [...(byService.get(service) || []), c]);
+        });
+        setServices(
+          Array.from(byService.entries())
+            .map(([name, containers]) => ({ name, containers }))
+            .sort((a, b) => a.name.localeCompare(b.name))
+        );
+      })
+      .catch((e) => setError(parseDockerError(e)));
+  }, [project]);
+
+  const networkNames = new Set(networks.map((n) => n.Name));
+
+  return (
+    <Drawer anchor="right" open={!!project} onClose={onClose}>
+      <Box sx={{ width: 560, p: 2, height: "100%", overflow: "auto" }}>
+        <Typography variant="h6" sx={{ mb: 1 }}>
+          Compose project: {project}
+        </Typography>
+
+        <Typography variant="subtitle2" sx={{ mb: 1 }}>
+          Networks ({networks.length})
+        </Typography>
+        <Box sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, overflow: "hidden" }}>
+          {networks.map((net) => (
+            <Box
+              key={net.Id}
+              sx={{
+                px: 1.5,
+                py: 1,
+                "&:not(:last-child)": { borderBottom: "1px solid", borderColor: "divider" },
+              }}
+            >
+              <Stack direction="row" justifyContent="space-between" alignItems="center" gap={1}>
+                <Box sx={{ minWidth: 0, flex: 1 }}>
+                  <Typography variant="body2" noWrap title={net.Name}>
+                    <b>{net.Labels?.[COMPOSE_NETWORK_LABEL] || net.Name}</b>
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {net.Name} • {net.Driver}
+                    {(net.IPAM?.Config || []).map((c) => (c.Subnet ? ` • ${c.Subnet}` : "")).join("")}
+                    {` • ${Object.keys(net.Containers || {}).length} container(s)`}
+                  </Typography>
+                </Box>
+                <Tooltip title="Inspect network">
+                  <IconButton size="small" onClick={() => onInspectNetwork(net.Id)}>
+                    <InfoIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Stack>
+            </Box>
+          ))}
+        </Box>
+
+        <Divider sx={{ my: 2 }} />
+
+        <Typography variant="subtitle2" sx={{ mb: 1 }}>
+          Services{services ? ` (${services.length})` : ""}
+        </Typography>
+        {error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : !services ? (
+          <Stack spacing={1}>
+            {[1, 2].map((i) => (
+              <Skeleton key={i} variant="rectangular" height={32} />
+            ))}
+          </Stack>
+        ) : services.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No containers belong to this project.
+          </Typography>
+        ) : (
+          <Stack spacing={1}>
+            {services.map((svc) => (
+              <Box key={svc.name}>
+                <Typography variant="body2">
+                  <b>{svc.name}</b>
+                </Typography>
+                {svc.containers.map((c) => (
+                  <Stack key={c.ID} direction="row" gap={1} alignItems="center" flexWrap="wrap" sx={{ pl: 1 }}>
+                    <Typography variant="caption">{c.Names}</Typography>
+                    <Chip size="small" label={c.State} color={c.State === "running" ? "success" : "default"} variant="outlined" />
+                    {(c.Networks || "")
+                      .split(",")
+                      .filter(Boolean)
+                      .map((n) => (
+                        <Chip key={n} size="small" label={n} variant={networkNames.has(n) ? "filled" : "outlined"} />
+                      ))}
+                  </Stack>
+                ))}
+              </Box>
+            ))}
+          </Stack>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+
+        <Typography variant="subtitle2" sx={{ mb: 1 }}>
+          Raw JSON
+        </Typography>
+        <Box
+          component="pre"
+          sx={{
+            fontSize: 12,
+            whiteSpace: "pre-wrap",
+            wordBreak: "break-word",
+            bgcolor: "background.paper",
+            border: "1px solid",
+            borderColor: "divider",
+            borderRadius: 2,
+            p: 1,
+            maxHeight: "40vh",
+            overflow: "auto",
+          }}
+        >
+          {JSON.stringify(networks, null, 2)}
+        </Box>
+      </Box>
+    </Drawer>
+  );
+}
@@ -0,0 +1,150 @@
+import React from "react";
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import CleaningServicesIcon from "@mui/icons-material/CleaningServices";
+
+import { parseDockerError } from "./api";
+import { inspectNetworks, listNetworks } from "./networkApi";
+import { parsePruneFilters, pruneCandidates } from "./prune";
+import type { NetworkInspect } from "./types";
+
+/**
+ * Previews what `docker network prune` would remove and lets the user narrow and
+ * confirm the set. Removal itself is left to the caller so only confirmed networks go.
+ */
+export default function PruneDialog(props: {
+  open: boolean;
+  onClose: () => void;
+  onConfirm: (networks: NetworkInspect[]) => void;
+}) {
+  const { open, onClose, onConfirm } = props;
+  const [networks, setNetworks] = React.useState<NetworkInspect[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [filterArgs, setFilterArgs] = React.useState<string[]>([]);
+  const [excluded, setExcluded] = React.useState<Set<string>>(new Set());
+
+  React.useEffect(() => {
+    if (!open) return;
+    setExcluded(new Set());
+    setError(null);
+    setLoading(true);
+    // Inspect fresh so container counts reflect what's attached right now
+    listNetworks()
+      .then((rows) => inspectNetworks(rows.map((r) => r.ID)))
+      .then(setNetworks)
+      .catch((e) => setError(parseDockerError(e)))
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  let filterError: string | null = null;
+  let candidates: NetworkInspect[] = [];
+  try {
+    candidates = pruneCandidates(networks, parsePruneFilters(filterArgs));
+  } catch (e: any) {
+    filterError = e.message;
+  }
+  const chosen = candidates.filter((n) => !excluded.has(n.Id));
+
+  function toggle(id: string) {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Prune unused networks</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          {error && <Alert severity="error">{error}</Alert>}
+
+          <Autocomplete
+            multiple
+            freeSolo
+            options={[]}
+            value={filterArgs}
+            onChange={(_, v) => setFilterArgs(v)}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label="Filters"
+                placeholder="label=env=dev, label!=keep, until=24h"
+                error={!!filterError}
+                helperText={filterError || "Same syntax as docker network prune --filter; press Enter after each"}
+              />
+            )}
+          />
+
+          {loading ? (
+            <Stack direction="row" gap={1} alignItems="center">
+              <CircularProgress size={16} />
+              <Typography variant="body2">Finding unused networks...</Typography>
+            </Stack>
+          ) : candidates.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No unused networks match. Networks with attached containers and the default bridge, host and none
+              networks are never pruned.
+            </Typography>
+          ) : (
+            <Box sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, maxHeight: "45vh", overflow: "auto" }}>
+              {candidates.map((n) => (
+                <Stack
+                  key={n.Id}
+                  direction="row"
+                  gap={1}
+                  alignItems="center"
+                  sx={{ px: 1, py: 0.5, "&:not(:last-child)": { borderBottom: "1px solid", borderColor: "divider" } }}
+                >
+                  <Checkbox size="small" checked={!excluded.has(n.Id)} onChange={() => toggle(n.Id)} />
+                  <Box sx={{ minWidth: 0, flex: 1 }}>
+                    <Typography variant="body2" noWrap>
+                      <b>{n.Name}</b>
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" component="div" noWrap>
+                      {n.Created ? `Created ${new Date(n.Created).toLocaleString()}` : "Creation time unknown"}
+                      {n.IPAM?.Config?.length ? ` • ${n.IPAM.Config.map((c) => c.Subnet).filter(Boolean).join(", ")}` : ""}
+                    </Typography>
+                  </Box>
+                  <Chip size="small" label={n.Driver} variant="outlined" />
+                  {Object.keys(n.Labels || {}).length > 0 && (
+                    <Chip size="small" label={`${Object.keys(n.Labels || {}).length} labels`} variant="outlined" />
+                  )}
+                </Stack>
+              ))}
+            </Box>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          color="error"
+          startIcon={<CleaningServicesIcon />}
+          disabled={loading || !!filterError || chosen.length === 0}
+          onClick={() => onConfirm(chosen)}
+        >
+          Prune {chosen.length} network{chosen.length !== 1 ? "s" : ""}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { Alert, Box, Chip, Stack, Table, TableBody, TableCell, TableHead, TableRow, Typography } from "@mui/material";
+
+import { formatPort, type NetworkExposure } from "./exposure";
+import type { NetworkInspect } from "./types";
+
+/** Host ports published by a network's containers, with accidental exposure of internal networks flagged. */
+export default function PublishedPorts(props: { network: NetworkInspect; exposure?: NetworkExposure }) {
+  const { network, exposure } = props;
+  const ports = exposure?.ports || [];
+  const warnings = exposure?.warnings || [];
+  const exposedIds = new Set(warnings.map((w) => w.containerId));
+
+  return (
+    <Stack spacing={1.5}>
+      <Stack direction="row" gap={1} alignItems="center">
+        <Typography variant="body2">
+          {network.Internal
+            ? "Internal network: no route to or from the host except through published ports on other networks."
+            : "Containers on this network can reach the outside world."}
+        </Typography>
+        {network.Internal && <Chip size="small" label="internal" color="warning" />}
+      </Stack>
+
+      {warnings.map((w) => (
+        <Alert key={w.containerId} severity="warning">
+          <b>{w.containerName}</b> is on internal network {w.internalNetwork} but publishes{" "}
+          {w.ports.map(formatPort).join(", ")} through {w.via.join(", ")}.
+        </Alert>
+      ))}
+
+      {ports.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No container on this network publishes ports to the host.
+        </Typography>
+      ) : (
+        <Box sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, overflow: "auto" }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Container</TableCell>
+                <TableCell>Host IP</TableCell>
+                <TableCell>Host port</TableCell>
+                <TableCell>Container port</TableCell>
+                <TableCell>Protocol</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {ports.map((p, i) => (
+                <TableRow key={i}>
+                  <TableCell>
+                    <Typography variant="body2" color={exposedIds.has(p.containerId) ? "warning.main" : undefined}>
+                      {p.containerName}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <code>{p.hostIp}</code>
+                    {(p.hostIp === "0.0.0.0" || p.hostIp === "::") && (
+                      <Typography variant="caption" color="text.secondary">
+                        {" "}
+                        (all interfaces)
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{p.hostPort}</TableCell>
+                  <TableCell>{p.containerPort}</TableCell>
+                  <TableCell>{p.protocol}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Box>
+      )}
+    </Stack>
+  );
+}
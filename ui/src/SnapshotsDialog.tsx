@@ -0,0 +1,243 @@
+import React from "react";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  IconButton,
+  Stack,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import CameraAltIcon from "@mui/icons-material/CameraAlt";
+import DeleteIcon from "@mui/icons-material/Delete";
+import FileDownloadIcon from "@mui/icons-material/FileDownload";
+import FileUploadIcon from "@mui/icons-material/FileUpload";
+import RestoreIcon from "@mui/icons-material/Restore";
+
+import { parseDockerError } from "./api";
+import { download } from "./ExportDialog";
+import { planRestore, type RestorePlan } from "./restorePlan";
+import {
+  captureEnvironment,
+  deleteEnvironmentSnapshot,
+  environmentSnapshotFile,
+  loadEnvironmentSnapshots,
+  parseEnvironmentSnapshotFile,
+  saveEnvironmentSnapshot,
+  type EnvironmentSnapshot,
+} from "./snapshots";
+
+function fileName(snapshot: EnvironmentSnapshot) {
+  const slug = snapshot.name.replace(/[^\w.-]+/g, "-").replace(/^-+|-+$/g, "") || "snapshot";
+  return `${slug}.networks-snapshot.json`;
+}
+
+/**
+ * Saved environment snapshots: capture the current user networks, download or
+ * upload snapshot files, and start a restore. The restore plan is handed to the
+ * caller for approval.
+ */
+export default function SnapshotsDialog(props: {
+  open: boolean;
+  onClose: () => void;
+  onRestore: (snapshot: EnvironmentSnapshot, plan: RestorePlan) => void;
+}) {
+  const { open, onClose, onRestore } = props;
+  const [snapshots, setSnapshots] = React.useState<EnvironmentSnapshot[]>([]);
+  const [name, setName] = React.useState("");
+  const [removeExtra, setRemoveExtra] = React.useState(true);
+  const [busy, setBusy] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [info, setInfo] = React.useState<string | null>(null);
+  const fileInput = React.useRef<HTMLInputElement>(null);
+
+  React.useEffect(() => {
+    if (open) {
+      setSnapshots(loadEnvironmentSnapshots());
+      setName("");
+      setError(null);
+      setInfo(null);
+    }
+  }, [open]);
+
+  function store(snapshot: EnvironmentSnapshot) {
+    try {
+      saveEnvironmentSnapshot(snapshot);
+      setSnapshots(loadEnvironmentSnapshots());
+    } catch (e: any) {
+      setError(`Failed to save snapshot: ${e?.message || e}`);
+    }
+  }
+
+  async function capture() {
+    setBusy("capture");
+    setError(null);
+    setInfo(null);
+    try {
+      store(await captureEnvironment(name.trim() || new Date().toLocaleString()));
+      setName("");
+    } catch (e: any) {
+      setError(parseDockerError(e));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function restore(snapshot: EnvironmentSnapshot) {
+    setBusy(snapshot.id);
+    setError(null);
+    setInfo(null);
+    try {
+      const plan = await planRestore(snapshot, removeExtra);
+      if (plan.steps.length === 0) {
+        setInfo(
+          `Networks already match "${snapshot.name}".` +
+            (plan.missingContainers.length ? ` Missing containers: ${plan.missingContainers.join(", ")}.` : "")
+        );
+      } else {
+        onRestore(snapshot, plan);
+      }
+    } catch (e: any) {
+      setError(parseDockerError(e));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function remove(id: string) {
+    deleteEnvironmentSnapshot(id);
+    setSnapshots(loadEnvironmentSnapshots());
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Snapshots</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <Typography variant="body2" color="text.secondary">
+            A snapshot records every user network and which containers are attached to it, so the layout can be
+            brought back after switching projects or resetting Docker Desktop.
+          </Typography>
+
+          <Stack direction="row" gap={1} alignItems="center">
+            <TextField
+              size="small"
+              label="Snapshot name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && !busy && capture()}
+              sx={{ flex: 1 }}
+            />
+            <Button
+              variant="contained"
+              startIcon={busy === "capture" ? <CircularProgress size={16} /> : <CameraAltIcon />}
+              disabled={!!busy}
+              onClick={capture}
+            >
+              Capture
+            </Button>
+            <Tooltip title="Upload snapshot file">
+              <IconButton onClick={() => fileInput.current?.click()}>
+                <FileUploadIcon />
+              </IconButton>
+            </Tooltip>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json"
+              hidden
+              onChange={async (e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (!file) return;
+                try {
+                  store(parseEnvironmentSnapshotFile(await file.text()));
+                } catch (err: any) {
+                  setError(err?.message || String(err));
+                }
+              }}
+            />
+          </Stack>
+
+          {error && (
+            <Alert severity="error" sx={{ whiteSpace: "pre-line" }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+          {info && (
+            <Alert severity="info" onClose={() => setInfo(null)}>
+              {info}
+            </Alert>
+          )}
+
+          {snapshots.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No snapshots yet.
+            </Typography>
+          ) : (
+            <>
+              <FormControlLabel
+                control={<Switch size="small" checked={removeExtra} onChange={(e) => setRemoveExtra(e.target.checked)} />}
+                label="Restoring removes user networks that aren't in the snapshot"
+              />
+              <Box sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, overflow: "hidden" }}>
+                {snapshots.map((s) => (
+                  <Stack
+                    key={s.id}
+                    direction="row"
+                    gap={1}
+                    alignItems="center"
+                    sx={{ px: 1.5, py: 1, "&:not(:last-child)": { borderBottom: "1px solid", borderColor: "divider" } }}
+                  >
+                    <Box sx={{ flex: 1, minWidth: 0 }}>
+                      <Typography variant="body2" noWrap>
+                        <b>{s.name}</b>
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {new Date(s.time).toLocaleString()} • {s.networks.length} network
+                        {s.networks.length !== 1 ? "s" : ""} • {s.attachments.length} attachment
+                        {s.attachments.length !== 1 ? "s" : ""}
+                      </Typography>
+                    </Box>
+                    <Button
+                      size="small"
+                      startIcon={busy === s.id ? <CircularProgress size={14} /> : <RestoreIcon />}
+                      disabled={!!busy}
+                      onClick={() => restore(s)}
+                    >
+                      Restore
+                    </Button>
+                    <Tooltip title="Download">
+                      <IconButton
+                        size="small"
+                        onClick={() => download(fileName(s), environmentSnapshotFile(s), "application/json")}
+                      >
+                        <FileDownloadIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <IconButton size="small" disabled={!!busy} onClick={() => remove(s.id)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </Stack>
+                ))}
+              </Box>
+            </>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
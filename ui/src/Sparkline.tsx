@@ -0,0 +1,31 @@
+import { useTheme } from "@mui/material";
+
+import type { TrafficPoint } from "./traffic";
+
+/** Received (solid) and sent (dashed) rates over time, scaled to the busiest point shown. */
+export default function Sparkline(props: { points: TrafficPoint[]; width?: number; height?: number }) {
+  const { points, width = 96, height = 24 } = props;
+  const theme = useTheme();
+  const max = Math.max(1, ...points.flatMap((p) => [p.rx, p.tx]));
+  const step = points.length > 1 ? width / (points.length - 1) : 0;
+  const line = (value: (p: TrafficPoint) => number) =>
+    points.map((p, i) => `${(i * step).toFixed(1)},${(height - 1 - (value(p) / max) * (height - 2)).toFixed(1)}`).join(" ");
+
+  return (
+    <svg width={width} height={height} style={{ display: "block" }}>
+      <line x1={0} x2={width} y1={height - 0.5} y2={height - 0.5} stroke={theme.palette.divider} />
+      {points.length > 1 && (
+        <>
+          <polyline points={line((p) => p.rx)} fill="none" stroke={theme.palette.primary.main} strokeWidth={1.5} />
+          <polyline
+            points={line((p) => p.tx)}
+            fill="none"
+            stroke={theme.palette.secondary.main}
+            strokeWidth={1.5}
+            strokeDasharray="3 2"
+          />
+        </>
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,44 @@
+import { Box, CircularProgress, Stack, Typography } from "@mui/material";
+import CheckCircleIcon from "@mui/icons-material/CheckCircle";
+import ErrorIcon from "@mui/icons-material/Error";
+import RadioButtonUncheckedIcon from "@mui/icons-material/RadioButtonUnchecked";
+import RemoveCircleOutlineIcon from "@mui/icons-material/RemoveCircleOutline";
+
+import type { OperationStep, StepStatus } from "./types";
+
+function StatusIcon({ status }: { status: StepStatus }) {
+  switch (status) {
+    case "running":
+      return <CircularProgress size={16} />;
+    case "done":
+      return <CheckCircleIcon fontSize="small" color="success" />;
+    case "failed":
+      return <ErrorIcon fontSize="small" color="error" />;
+    case "skipped":
+      return <RemoveCircleOutlineIcon fontSize="small" color="disabled" />;
+    default:
+      return <RadioButtonUncheckedIcon fontSize="small" color="disabled" />;
+  }
+}
+
+export default function StepList({ steps }: { steps: OperationStep[] }) {
+  return (
+    <Stack spacing={0.5}>
+      {steps.map((step, i) => (
+        <Box key={i}>
+          <Stack direction="row" gap={1} alignItems="center">
+            <StatusIcon status={step.status} />
+            <Typography variant="body2" color={step.status === "skipped" ? "text.disabled" : "text.primary"}>
+              {step.label}
+            </Typography>
+          </Stack>
+          {step.error && (
+            <Typography variant="caption" color="error" sx={{ pl: 3.5, display: "block" }}>
+              {step.error}
+            </Typography>
+          )}
+        </Box>
+      ))}
+    </Stack>
+  );
+}
@@ -0,0 +1,141 @@
+import React from "react";
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+
+import { parseDockerError } from "./api";
+import { inspectSwarmNetwork, isEncrypted, vxlanIds } from "./swarm";
+import type { NetworkInspect, SwarmNetworkInspect } from "./types";
+
+/** Swarm view of an overlay network: VXLAN IDs, encryption, peers, and services with their tasks. */
+export default function SwarmNetwork(props: { network: NetworkInspect; manager: boolean }) {
+  const { network, manager } = props;
+  const [verbose, setVerbose] = React.useState<SwarmNetworkInspect | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!manager) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    inspectSwarmNetwork(network.Id)
+      .then((net) => !cancelled && setVerbose(net))
+      .catch((e) => !cancelled && setError(parseDockerError(e)))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [network, manager]);
+
+  const vxlan = vxlanIds(network);
+  const services = Object.entries(verbose?.Services || {}).filter(([name]) => name);
+  const peers = verbose?.Peers || [];
+
+  return (
+    <Stack spacing={1.5}>
+      <Stack direction="row" gap={1} flexWrap="wrap" alignItems="center">
+        {network.Ingress && <Chip size="small" label="ingress" color="secondary" />}
+        {isEncrypted(network) ? (
+          <Chip size="small" label="encrypted" color="success" />
+        ) : (
+          <Chip size="small" label="not encrypted" variant="outlined" />
+        )}
+        {network.Attachable && <Chip size="small" label="attachable" color="success" variant="outlined" />}
+        <Typography variant="body2">
+          <b>VXLAN ID{vxlan.length !== 1 ? "s" : ""}:</b> {vxlan.length ? vxlan.join(", ") : "—"}
+        </Typography>
+      </Stack>
+
+      {network.Ingress && (
+        <Typography variant="body2" color="text.secondary">
+          The ingress network carries the routing mesh: published service ports are reachable on every node.
+        </Typography>
+      )}
+
+      {!manager ? (
+        <Alert severity="info">
+          Services, tasks and peers of swarm networks can only be listed from a swarm manager.
+        </Alert>
+      ) : loading && !verbose ? (
+        <CircularProgress size={20} />
+      ) : error ? (
+        <Alert severity="error" sx={{ whiteSpace: "pre-line" }}>
+          {error}
+        </Alert>
+      ) : (
+        <>
+          <Typography variant="subtitle2">Peers ({peers.length})</Typography>
+          {peers.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No node has tasks on this network yet.
+            </Typography>
+          ) : (
+            <Stack direction="row" gap={1} flexWrap="wrap">
+              {peers.map((p) => (
+                <Chip key={p.Name} size="small" variant="outlined" label={`${p.Name} • ${p.IP}`} />
+              ))}
+            </Stack>
+          )}
+
+          <Typography variant="subtitle2">Services ({services.length})</Typography>
+          {services.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No services are attached to this network.
+            </Typography>
+          ) : (
+            services.map(([name, svc]) => (
+              <Box key={name} sx={{ border: "1px solid", borderColor: "divider", borderRadius: 2, overflow: "auto" }}>
+                <Stack direction="row" gap={1} alignItems="center" sx={{ px: 1.5, py: 1 }}>
+                  <Typography variant="body2" sx={{ flex: 1 }}>
+                    <b>{name}</b>
+                  </Typography>
+                  {svc.VIP && (
+                    <Typography variant="caption" color="text.secondary">
+                      VIP <code>{svc.VIP}</code>
+                    </Typography>
+                  )}
+                  {(svc.Ports || []).map((p) => (
+                    <Chip key={p} size="small" variant="outlined" label={p} />
+                  ))}
+                </Stack>
+                {(svc.Tasks || []).length > 0 && (
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Task</TableCell>
+                        <TableCell>Address</TableCell>
+                        <TableCell>Node</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {(svc.Tasks || []).map((t) => (
+                        <TableRow key={t.EndpointID || t.Name}>
+                          <TableCell sx={{ wordBreak: "break-all" }}>{t.Name}</TableCell>
+                          <TableCell>
+                            <code>{t.EndpointIP}</code>
+                          </TableCell>
+                          <TableCell>{t.Info?.["Host IP"] || "—"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </Box>
+            ))
+          )}
+        </>
+      )}
+    </Stack>
+  );
+}
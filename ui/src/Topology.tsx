@@ -0,0 +1,293 @@
+import React from "react";
+import { Box, Stack, Typography, useTheme } from "@mui/material";
+
+import type { NetworkInspect } from "./types";
+
+type NetworkNode = {
+  kind: "network";
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+};
+
+type ContainerNode = {
+  kind: "container";
+  id: string;
+  label: string;
+  x: number;
+  y: number;
+  networkIds: string[];
+};
+
+type Edge = {
+  networkId: string;
+  containerId: string;
+  ipv4?: string;
+  ipv6?: string;
+};
+
+type Layout = {
+  networks: NetworkNode[];
+  containers: ContainerNode[];
+  edges: Edge[];
+  viewBox: string;
+};
+
+const NETWORK_W = 140;
+const NETWORK_H = 36;
+const CONTAINER_R = 14;
+const PADDING = 90;
+
+/**
+ * Lays out networks as cluster centres on a ring. Containers attached to a single
+ * network orbit their cluster; containers attached to several networks sit between
+ * the clusters they join so that they visibly bridge them.
+ */
+function buildLayout(networks: NetworkInspect[]): Layout {
+  const edges: Edge[] = [];
+  const membership = new Map<string, { label: string; networkIds: string[] }>();
+
+  for (const net of networks) {
+    for (const [cid, c] of Object.entries(net.Containers || {})) {
+      edges.push({
+        networkId: net.Id,
+        containerId: cid,
+        ipv4: c.IPv4Address || undefined,
+        ipv6: c.IPv6Address || undefined,
+      });
+      const entry = membership.get(cid) || { label: c.Name || cid.slice(0, 12), networkIds: [] };
+      entry.networkIds.push(net.Id);
+      membership.set(cid, entry);
+    }
+  }
+
+  const exclusive = new Map<string, string[]>();
+  for (const [cid, m] of membership) {
+    if (m.networkIds.length === 1) {
+      const list = exclusive.get(m.networkIds[0]) || [];
+      list.push(cid);
+      exclusive.set(m.networkIds[0], list);
+    }
+  }
+
+  const clusterRadius = (id: string) => 90 + 8 * (exclusive.get(id)?.length || 0);
+  const circumference = networks.reduce((sum, n) => sum + 2 * clusterRadius(n.Id) + 120, 0);
+  const ringRadius = networks.length > 1 ? Math.max(220, circumference / (2 * Math.PI)) : 0;
+
+  const centres = new Map<string, { x: number; y: number }>();
+  const networkNodes: NetworkNode[] = networks.map((net, i) => {
+    const angle = (2 * Math.PI * i) / Math.max(networks.length, 1) - Math.PI / 2;
+    const x = ringRadius * Math.cos(angle);
+    const y = ringRadius * Math.sin(angle);
+    centres.set(net.Id, { x, y });
+    return { kind: "network", id: net.Id, label: net.Name, x, y };
+  });
+
+  const containerNodes: ContainerNode[] = [];
+
+  for (const [netId, cids] of exclusive) {
+    const centre = centres.get(netId)!;
+    const r = clusterRadius(netId);
+    cids.forEach((cid, i) => {
+      const angle = (2 * Math.PI * i) / cids.length - Math.PI / 2;
+      const m = membership.get(cid)!;
+      containerNodes.push({
+        kind: "container",
+        id: cid,
+        label: m.label,
+        x: centre.x + r * Math.cos(angle),
+        y: centre.y + r * Math.sin(angle),
+        networkIds: m.networkIds,
+      });
+    });
+  }
+
+  // Containers sharing the same set of networks would land on the same centroid; fan them out.
+  const stacked = new Map<string, number>();
+  for (const [cid, m] of membership) {
+    if (m.networkIds.length < 2) continue;
+    const points = m.networkIds.map((id) => centres.get(id)!);
+    const cx = points.reduce((s, p) => s + p.x, 0) / points.length;
+    const cy = points.reduce((s, p) => s + p.y, 0) / points.length;
+    const key = [...m.networkIds].sort().join("|");
+    const n = stacked.get(key) || 0;
+    stacked.set(key, n + 1);
+    const offset = (n % 2 === 0 ? 1 : -1) * Math.ceil(n / 2) * 40;
+    containerNodes.push({
+      kind: "container",
+      id: cid,
+      label: m.label,
+      x: cx + offset,
+      y: cy + offset * 0.5,
+      networkIds: m.networkIds,
+    });
+  }
+
+  const xs = [...networkNodes.map((n) => n.x), ...containerNodes.map((c) => c.x)];
+  const ys = [...networkNodes.map((n) => n.y), ...containerNodes.map((c) => c.y)];
+  const minX = Math.min(...xs, 0) - PADDING - NETWORK_W / 2;
+  const minY = Math.min(...ys, 0) - PADDING;
+  const maxX = Math.max(...xs, 0) + PADDING + NETWORK_W / 2;
+  const maxY = Math.max(...ys, 0) + PADDING;
+
+  return {
+    networks: networkNodes,
+    containers: containerNodes,
+    edges,
+    viewBox: `${minX} ${minY} ${maxX - minX} ${maxY - minY}`,
+  };
+}
+
+export default function Topology(props: {
+  networks: NetworkInspect[];
+  onNetworkClick: (id: string) => void;
+  onContainerClick: (id: string) => void;
+}) {
+  const { networks, onNetworkClick, onContainerClick } = props;
+  const theme = useTheme();
+  const [hovered, setHovered] = React.useState<string | null>(null);
+
+  const layout = React.useMemo(() => buildLayout(networks), [networks]);
+
+  const positions = React.useMemo(() => {
+    const map = new Map<string, { x: number; y: number }>();
+    layout.networks.forEach((n) => map.set(n.id, n));
+    layout.containers.forEach((c) => map.set(c.id, c));
+    return map;
+  }, [layout]);
+
+  // Nodes adjacent to the hovered node stay highlighted, everything else fades.
+  const highlighted = React.useMemo(() => {
+    if (!hovered) return null;
+    const set = new Set([hovered]);
+    layout.edges.forEach((e) => {
+      if (e.networkId === hovered) set.add(e.containerId);
+      if (e.containerId === hovered) set.add(e.networkId);
+    });
+    return set;
+  }, [hovered, layout]);
+
+  const dim = (id: string) => (highlighted && !highlighted.has(id) ? 0.2 : 1);
+
+  if (networks.length === 0) {
+    return (
+      <Box sx={{ p: 4, textAlign: "center" }}>
+        <Typography variant="body2" color="text.secondary">
+          No networks to draw
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <Box sx={{ width: "100%", height: "65vh", overflow: "auto" }}>
+        <svg viewBox={layout.viewBox} width="100%" height="100%" style={{ fontFamily: theme.typography.fontFamily }}>
+          {layout.edges.map((e) => {
+            const a = positions.get(e.networkId)!;
+            const b = positions.get(e.containerId)!;
+            const opacity = highlighted && !(highlighted.has(e.networkId) && highlighted.has(e.containerId)) ? 0.15 : 1;
+            return (
+              <g key={`${e.networkId}-${e.containerId}`} opacity={opacity}>
+                <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={theme.palette.divider} strokeWidth={2} />
+                <text
+                  x={(a.x + b.x) / 2}
+                  y={(a.y + b.y) / 2}
+                  fontSize={10}
+                  textAnchor="middle"
+                  fill={theme.palette.text.secondary}
+                  stroke={theme.palette.background.paper}
+                  strokeWidth={3}
+                  paintOrder="stroke"
+                >
+                  {e.ipv4 && <tspan x={(a.x + b.x) / 2}>{e.ipv4}</tspan>}
+                  {e.ipv6 && (
+                    <tspan x={(a.x + b.x) / 2} dy={e.ipv4 ? 12 : 0}>
+                      {e.ipv6}
+                    </tspan>
+                  )}
+                </text>
+              </g>
+            );
+          })}
+
+          {layout.networks.map((n) => (
+            <g
+              key={n.id}
+              transform={`translate(${n.x}, ${n.y})`}
+              opacity={dim(n.id)}
+              style={{ cursor: "pointer" }}
+              role="button"
+              tabIndex={0}
+              onClick={() => onNetworkClick(n.id)}
+              onKeyDown={(e) => e.key === "Enter" && onNetworkClick(n.id)}
+              onMouseEnter={() => setHovered(n.id)}
+              onMouseLeave={() => setHovered(null)}
+            >
+              <title>{n.label}</title>
+              <rect
+                x={-NETWORK_W / 2}
+                y={-NETWORK_H / 2}
+                width={NETWORK_W}
+                height={NETWORK_H}
+                rx={8}
+                fill={theme.palette.primary.main}
+              />
+              <text textAnchor="middle" dy="0.35em" fontSize={13} fill={theme.palette.primary.contrastText}>
+                {n.label.length > 18 ? `${n.label.slice(0, 17)}…` : n.label}
+              </text>
+            </g>
+          ))}
+
+          {layout.containers.map((c) => {
+            const bridging = c.networkIds.length > 1;
+            return (
+              <g
+                key={c.id}
+                transform={`translate(${c.x}, ${c.y})`}
+                opacity={dim(c.id)}
+                style={{ cursor: "pointer" }}
+                role="button"
+                tabIndex={0}
+                onClick={() => onContainerClick(c.id)}
+                onKeyDown={(e) => e.key === "Enter" && onContainerClick(c.id)}
+                onMouseEnter={() => setHovered(c.id)}
+                onMouseLeave={() => setHovered(null)}
+              >
+                <title>{`${c.label} (${c.networkIds.length} network${c.networkIds.length !== 1 ? "s" : ""})`}</title>
+                <circle
+                  r={bridging ? CONTAINER_R + 3 : CONTAINER_R}
+                  fill={bridging ? theme.palette.secondary.main : theme.palette.background.paper}
+                  stroke={bridging ? theme.palette.secondary.dark : theme.palette.text.secondary}
+                  strokeWidth={2}
+                />
+                <text y={CONTAINER_R + 16} textAnchor="middle" fontSize={12} fill={theme.palette.text.primary}>
+                  {c.label}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </Box>
+
+      <Stack direction="row" gap={2} sx={{ px: 2, py: 1, borderTop: "1px solid", borderColor: "divider" }} flexWrap="wrap">
+        <Typography variant="caption" color="text.secondary">
+          <Box component="span" sx={{ display: "inline-block", width: 14, height: 10, borderRadius: 0.5, bgcolor: "primary.main", mr: 0.5 }} />
+          Network
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          <Box
+            component="span"
+            sx={{ display: "inline-block", width: 10, height: 10, borderRadius: "50%", border: "2px solid", borderColor: "text.secondary", mr: 0.5 }}
+          />
+          Container
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          <Box component="span" sx={{ display: "inline-block", width: 10, height: 10, borderRadius: "50%", bgcolor: "secondary.main", mr: 0.5 }} />
+          Container on multiple networks
+        </Typography>
+      </Stack>
+    </Box>
+  );
+}
@@ -1,5 +1,7 @@
 import { createDockerDesktopClient } from "@docker/extension-api-client";
 
+import { classifyDockerError } from "./dockerErrors";
+
 let ddClient: ReturnType<typeof createDockerDesktopClient> | null = null;
 
 /**
@@ -21,65 +23,141 @@ export function getDockerClient() {
   }
 }
 
-export type ExecResult = { stdout?: string; stderr?: string; code?: number };
+// Keeps a batched `docker network inspect` or `docker container inspect` well under command-line length limits.
+export const INSPECT_BATCH_SIZE = 100;
+
+// The Extensions SDK joins exec args into a command line, so Go templates must be quoted.
+export const JSON_FORMAT = '"{{json .}}"';
+
+/**
+ * Quotes a free-form value (label, driver option, …) that may contain whitespace,
+ * since the SDK splits the joined command line the way a shell would.
+ */
+export function quoteArg(value: string): string {
+  return /[\s"'\\]/.test(value) ? `"${value.replace(/(["\\])/g, "\\$1")}"` : value;
+}
+
+export type ExecResult = {
+  stdout?: string;
+  stderr?: string;
+  code?: number;
+  /** The command line as run, for error reports */
+  command?: string;
+};
 
-export async function dockerExec(cmd: string, args: string[]): Promise<ExecResult> {
+export type StreamHandlers = {
+  onLine: (line: string) => void;
+  onClose?: (exitCode: number) => void;
+  onError?: (error: any) => void;
+};
+
+export type StreamHandle = { close: () => void };
+
+/**
+ * Something that runs docker CLI commands. Failed commands reject with an object
+ * carrying stdout/stderr, the same shape the Extensions SDK uses.
+ */
+export type ExecBackend = {
+  exec: (cmd: string, args: string[]) => Promise<ExecResult>;
+  stream: (cmd: string, args: string[], handlers: StreamHandlers) => StreamHandle;
+};
+
+function requireClient() {
   const client = getDockerClient();
   if (!client) {
     throw new Error('Docker Desktop client is not available. Please run this extension inside Docker Desktop.');
   }
-  // The Extensions SDK exposes docker CLI as exec("ps", ["--all"]) etc.
-  // We return stdout/stderr for error display and parsing.
-  const res = await client.docker.cli.exec(cmd, args);
-  return res as ExecResult;
+  return client;
 }
 
-export function parseJsonLines<T = any>(stdout?: string): T[] {
-  if (!stdout) return [];
-  return stdout
-    .split("\n")
-    .map((l) => l.trim())
-    .filter(Boolean)
-    .map((l) => JSON.parse(l) as T);
-}
+/** Runs commands through the Docker Desktop Extensions SDK. */
+const desktopBackend: ExecBackend = {
+  async exec(cmd, args) {
+    // The Extensions SDK exposes docker CLI as exec("ps", ["--all"]) etc.
+    // We return stdout/stderr for error display and parsing.
+    const res = await requireClient().docker.cli.exec(cmd, args);
+    return res as ExecResult;
+  },
+  stream(cmd, args, handlers) {
+    const proc = requireClient().docker.cli.exec(cmd, args, {
+      stream: {
+        splitOutputLines: true,
+        onOutput(data) {
+          if (data.stdout) handlers.onLine(data.stdout);
+        },
+        onError: handlers.onError,
+        onClose: handlers.onClose,
+      },
+    });
+    return { close: () => proc.close() };
+  },
+};
+
+let backend: ExecBackend = desktopBackend;
 
 /**
- * Parses Docker CLI error messages and returns user-friendly error messages.
+ * Replaces the backend every docker command goes through, e.g. with the in-memory
+ * simulator in dev mode or tests. Pass null to go back to Docker Desktop.
  */
-export function parseDockerError(error: any): string {
-  const message = error?.message || error?.stderr || String(error);
-  const msgLower = message.toLowerCase();
+export function setExecBackend(next: ExecBackend | null) {
+  backend = next || desktopBackend;
+}
 
-  // Network has active endpoints (containers attached)
-  if (msgLower.includes("has active endpoints") || msgLower.includes("has active containers")) {
-    return "Cannot remove network: it has containers attached. Disconnect all containers first, then try again.";
-  }
+// null means the CLI's current context, i.e. Docker Desktop's own engine
+let dockerContext: string | null = null;
 
-  // Network name already exists
-  if (msgLower.includes("already exists") || msgLower.includes("network with name")) {
-    return "A network with this name already exists. Please choose a different name.";
-  }
+/** Makes every following command target another engine with `docker --context <name>`. */
+export function setDockerContext(name: string | null) {
+  dockerContext = name;
+}
 
-  // Invalid CIDR/subnet
-  if (msgLower.includes("invalid cidr") || msgLower.includes("invalid subnet")) {
-    return "Invalid subnet format. Use CIDR notation (e.g., 172.28.0.0/16).";
-  }
+export function getDockerContext() {
+  return dockerContext;
+}
 
-  // Network not found
-  if (msgLower.includes("not found") || msgLower.includes("no such network")) {
-    return "Network not found. It may have been removed.";
-  }
+// --context is a global flag, so it goes before the command
+function withContext(context: string | null, cmd: string, args: string[]): [string, string[]] {
+  return context ? ["--context", [context, cmd, ...args]] : [cmd, args];
+}
 
-  // Container not found
-  if (msgLower.includes("no such container")) {
-    return "Container not found. Check the container name or ID.";
+/**
+ * Runs a docker command against the selected context, or an explicit one when given.
+ * Results and rejections carry the command line so errors can say what failed.
+ */
+export async function dockerExec(cmd: string, args: string[], context = dockerContext): Promise<ExecResult> {
+  const [c, a] = withContext(context, cmd, args);
+  const command = ["docker", c, ...a].join(" ");
+  try {
+    return { ...(await backend.exec(c, a)), command };
+  } catch (e: any) {
+    if (e && typeof e === "object" && !e.command) e.command = command;
+    throw e;
   }
+}
 
-  // Permission denied
-  if (msgLower.includes("permission denied") || msgLower.includes("access denied")) {
-    return "Permission denied. Ensure Docker Desktop has the necessary permissions.";
-  }
+/** The error to throw for a command that printed to stderr. */
+export function execError(r: ExecResult): Error {
+  return Object.assign(new Error(r.stderr), { stderr: r.stderr, command: r.command });
+}
 
-  // Return original message if no pattern matches
-  return message;
+/**
+ * Runs a long-lived docker command (e.g. `docker events`) and invokes onLine for
+ * each line of stdout. Call close() on the returned handle to stop it.
+ */
+export function dockerStream(cmd: string, args: string[], handlers: StreamHandlers): StreamHandle {
+  return backend.stream(...withContext(dockerContext, cmd, args), handlers);
+}
+
+export function parseJsonLines<T = any>(stdout?: string): T[] {
+  if (!stdout) return [];
+  return stdout
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .map((l) => JSON.parse(l) as T);
+}
+
+/** The user-facing message for a failed command; see classifyDockerError for the full picture. */
+export function parseDockerError(error: any): string {
+  return classifyDockerError(error).message;
 }
@@ -0,0 +1,55 @@
+import type { NetworkInspect, NetworkListRow } from "./types";
+
+export const COMPOSE_PROJECT_LABEL = "com.docker.compose.project";
+export const COMPOSE_NETWORK_LABEL = "com.docker.compose.network";
+export const COMPOSE_SERVICE_LABEL = "com.docker.compose.service";
+
+export type ComposeGroup = {
+  /** null for networks without compose labels */
+  project: string | null;
+  rows: NetworkListRow[];
+};
+
+/**
+ * Parses the comma-separated `key=value` label list printed by `docker ... ls --format json`.
+ */
+export function parseLabelList(labels?: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const pair of (labels || "").split(",")) {
+    const eq = pair.indexOf("=");
+    if (eq > 0) result[pair.slice(0, eq)] = pair.slice(eq + 1);
+  }
+  return result;
+}
+
+export function composeProjectOf(row: NetworkListRow, details?: NetworkInspect): string | null {
+  const labels = details?.Labels || parseLabelList(row.Labels);
+  return labels[COMPOSE_PROJECT_LABEL] || null;
+}
+
+/** Short network name within its project (e.g. "backend" for foo_backend). */
+export function composeNetworkName(row: NetworkListRow, details?: NetworkInspect): string | undefined {
+  const labels = details?.Labels || parseLabelList(row.Labels);
+  return labels[COMPOSE_NETWORK_LABEL];
+}
+
+/**
+ * Groups rows by compose project, projects sorted by name with ungrouped networks last.
+ */
+export function groupByComposeProject(
+  rows: NetworkListRow[],
+  details: Map<string, NetworkInspect>
+): ComposeGroup[] {
+  const groups = new Map<string | null, NetworkListRow[]>();
+  for (const row of rows) {
+    const project = composeProjectOf(row, details.get(row.ID));
+    groups.set(project, [...(groups.get(project) || []), row]);
+  }
+  return Array.from(groups.entries())
+    .map(([project, rows]) => ({ project, rows }))
+    .sort((a, b) => {
+      if (a.project === null) return 1;
+      if (b.project === null) return -1;
+      return a.project.localeCompare(b.project);
+    });
+}
@@ -0,0 +1,155 @@
+import { dockerExec, parseDockerError, type ExecResult } from "./api";
+import { parseIp } from "./ipam";
+
+/** Used when the source container lacks a tool; its busybox has ping, nc -z, nslookup and getent */
+export const HELPER_IMAGE = "alpine:3.20";
+
+export type ConnectivityTest = "ping" | "tcp" | "dns";
+
+export type ConnectivityResult = {
+  test: ConnectivityTest;
+  ok: boolean;
+  /** Whether the command ran inside the source or in a helper sharing its network namespace */
+  via: "exec" | "helper";
+  /** Round trip for ping, time to complete the probe for tcp/dns (includes exec overhead) */
+  latencyMs?: number;
+  /** Address the target name resolved to */
+  address?: string;
+  detail: string;
+};
+
+type Runner = { via: "exec" | "helper"; run: (args: string[]) => Promise<ExecResult> };
+
+const TOOLS = ["ping", "nc", "getent", "nslookup"];
+
+/**
+ * Finds which of the tools the source container has. Images without `which`
+ * (or without a shell at all, e.g. distroless) report none.
+ */
+async function availableTools(container: string): Promise<Set<string>> {
+  let stdout: string | undefined;
+  try {
+    stdout = (await dockerExec("exec", [container, "which", ...TOOLS])).stdout;
+  } catch (e: any) {
+    // which exits non-zero when any tool is missing but still prints the ones it found
+    stdout = e?.stdout;
+  }
+  const found = (stdout || "")
+    .split("\n")
+    .map((l) => l.trim().split("/").pop() || "")
+    .filter(Boolean);
+  return new Set(found);
+}
+
+function runnerFor(container: string, tool: string, tools: Set<string>): Runner {
+  if (tools.has(tool)) return { via: "exec", run: (args) => dockerExec("exec", [container, ...args]) };
+  return {
+    via: "helper",
+    run: (args) => dockerExec("run", ["--rm", "--network", `container:${container}`, HELPER_IMAGE, ...args]),
+  };
+}
+
+/** Runs a command, resolving with its output whether or not it exited successfully */
+async function attempt(runner: Runner, args: string[]) {
+  const started = performance.now();
+  try {
+    const r = await runner.run(args);
+    return { ok: true, stdout: r.stdout || "", stderr: r.stderr || "", elapsed: performance.now() - started };
+  } catch (e: any) {
+    return {
+      ok: false,
+      stdout: e?.stdout || "",
+      stderr: e?.stderr || (e?.stdout ? "" : parseDockerError(e)),
+      elapsed: performance.now() - started,
+    };
+  }
+}
+
+function lastLine(text: string) {
+  return text.trim().split("\n").filter(Boolean).pop() || "";
+}
+
+async function testPing(runner: Runner, target: string): Promise<ConnectivityResult> {
+  const r = await attempt(runner, ["ping", "-c", "3", "-W", "2", target]);
+  // iputils prints "rtt min/avg/max/mdev = …", busybox "round-trip min/avg/max = …"
+  const avg = /min\/avg\/max\S* = [\d.]+\/([\d.]+)\//.exec(r.stdout);
+  const loss = /(\d+(?:\.\d+)?)% packet loss/.exec(r.stdout);
+  if (r.ok && avg) {
+    return {
+      test: "ping",
+      ok: true,
+      via: runner.via,
+      latencyMs: Number(avg[1]),
+      detail: loss ? `${loss[1]}% packet loss` : "Reply received",
+    };
+  }
+  return {
+    test: "ping",
+    ok: false,
+    via: runner.via,
+    detail: loss ? `${loss[1]}% packet loss` : lastLine(r.stderr) || lastLine(r.stdout) || "No reply",
+  };
+}
+
+async function testTcp(runner: Runner, target: string, port: number): Promise<ConnectivityResult> {
+  const r = await attempt(runner, ["nc", "-z", "-w", "3", target, String(port)]);
+  return {
+    test: "tcp",
+    ok: r.ok,
+    via: runner.via,
+    latencyMs: r.ok ? Math.round(r.elapsed) : undefined,
+    detail: r.ok
+      ? `Port ${port} accepted the connection`
+      : lastLine(r.stderr) || `Port ${port} refused or timed out after 3s`,
+  };
+}
+
+function addressesIn(text: string): string[] {
+  const tokens = text
+    .split(/\s+/)
+    .map((t) => t.replace(/^Address:?/, ""))
+    .filter((t) => parseIp(t) !== null);
+  return [...new Set(tokens)];
+}
+
+async function testDns(runner: Runner, useGetent: boolean, name: string): Promise<ConnectivityResult> {
+  const r = await attempt(runner, useGetent ? ["getent", "hosts", name] : ["nslookup", name]);
+  // nslookup also prints the resolver's own address first
+  const addresses = addressesIn(useGetent ? r.stdout : r.stdout.split(/Name:/).slice(1).join(" "));
+  if (r.ok && addresses.length) {
+    return {
+      test: "dns",
+      ok: true,
+      via: runner.via,
+      latencyMs: Math.round(r.elapsed),
+      address: addresses[0],
+      detail: addresses.length > 1 ? `${addresses.length} addresses: ${addresses.join(", ")}` : `Resolved ${name}`,
+    };
+  }
+  return {
+    test: "dns",
+    ok: false,
+    via: runner.via,
+    detail: lastLine(r.stderr) || lastLine(r.stdout) || `${name} did not resolve`,
+  };
+}
+
+/**
+ * Checks whether `source` can reach `target` from inside its network namespace:
+ * pings the target address, optionally probes a TCP port on it, and resolves
+ * the target's name through the source's DNS.
+ */
+export async function testConnectivity(opts: {
+  source: string;
+  targetName: string;
+  targetAddress: string;
+  port?: number;
+}): Promise<ConnectivityResult[]> {
+  const { source, targetName, targetAddress, port } = opts;
+  const tools = await availableTools(source);
+  const results = [await testPing(runnerFor(source, "ping", tools), targetAddress)];
+  if (port) results.push(await testTcp(runnerFor(source, "nc", tools), targetAddress, port));
+  const dnsTool = tools.has("getent") ? "getent" : tools.has("nslookup") ? "nslookup" : "getent";
+  results.push(await testDns(runnerFor(source, dnsTool, tools), dnsTool === "getent", targetName));
+  return results;
+}
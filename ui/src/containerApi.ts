@@ -0,0 +1,40 @@
+import { INSPECT_BATCH_SIZE, JSON_FORMAT, dockerExec, execError, parseJsonLines } from "./api";
+import type { ContainerInspect, ContainerListRow } from "./types";
+
+/**
+ * Lists all containers (running or not). Filters are passed as `--filter` values,
+ * e.g. `label=com.docker.compose.project=foo`.
+ */
+export async function listContainers(filters: string[] = []): Promise<ContainerListRow[]> {
+  const args = ["-a", "--no-trunc", ...filters.flatMap((f) => ["--filter", f]), "--format", JSON_FORMAT];
+  const r = await dockerExec("ps", args);
+  if (r.stderr) throw execError(r);
+  return parseJsonLines<ContainerListRow>(r.stdout);
+}
+
+/**
+ * Inspects several containers with as few CLI calls as possible. Containers that no longer exist are skipped.
+ */
+export async function inspectContainers(ids: string[]): Promise<ContainerInspect[]> {
+  const results: ContainerInspect[] = [];
+  for (let i = 0; i < ids.length; i += INSPECT_BATCH_SIZE) {
+    const batch = ids.slice(i, i + INSPECT_BATCH_SIZE);
+    let stdout: string | undefined;
+    try {
+      const r = await dockerExec("container", ["inspect", ...batch]);
+      stdout = r.stdout;
+    } catch (e: any) {
+      // docker exits non-zero if any ID is missing but still prints the ones it found
+      if (!e?.stdout) throw e;
+      stdout = e.stdout;
+    }
+    try {
+      const arr = JSON.parse(stdout || "[]");
+      if (!Array.isArray(arr)) throw new Error();
+      results.push(...(arr as ContainerInspect[]));
+    } catch {
+      throw new Error("Unexpected container inspect output");
+    }
+  }
+  return results;
+}
@@ -0,0 +1,39 @@
+import { JSON_FORMAT, dockerExec, execError, parseJsonLines } from "./api";
+
+const STORAGE_KEY = "networks-ui.context";
+
+/** One line of `docker context ls --format "{{json .}}"` */
+export type DockerContextRow = {
+  Name: string;
+  Description?: string;
+  DockerEndpoint?: string;
+  /** The CLI's current context, which the extension uses unless told otherwise */
+  Current?: boolean;
+  /** Set when the context's metadata can't be loaded */
+  Error?: string;
+};
+
+export async function listContexts(): Promise<DockerContextRow[]> {
+  // Always asked of the CLI's own context; the answer is the same from any of them
+  const r = await dockerExec("context", ["ls", "--format", JSON_FORMAT], null);
+  if (r.stderr) throw execError(r);
+  return parseJsonLines<DockerContextRow>(r.stdout).filter((c) => c.Name);
+}
+
+/** The context picked last time, or null for the CLI's current one. */
+export function loadSelectedContext(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveSelectedContext(name: string | null) {
+  try {
+    if (name) localStorage.setItem(STORAGE_KEY, name);
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (e) {
+    console.warn("Failed to save the selected context:", e);
+  }
+}
@@ -0,0 +1,63 @@
+import { COMPOSE_PROJECT_LABEL, COMPOSE_SERVICE_LABEL } from "./compose";
+import type { ContainerInspect, NetworkInspect } from "./types";
+
+export type DnsNameKind = "container" | "service" | "alias" | "id";
+
+export type DnsTarget = {
+  containerId: string;
+  containerName: string;
+  /** Compose project the container belongs to, if any */
+  project?: string;
+  address?: string;
+};
+
+export type DnsName = {
+  name: string;
+  kinds: DnsNameKind[];
+  targets: DnsTarget[];
+  /** More than one container answers to the name, so DNS round-robins between them */
+  ambiguous: boolean;
+};
+
+function classify(name: string, c: ContainerInspect): DnsNameKind {
+  if (name === c.Name.replace(/^\//, "")) return "container";
+  if (name === c.Config.Labels?.[COMPOSE_SERVICE_LABEL]) return "service";
+  if (c.Id.startsWith(name) && /^[0-9a-f]{12}$/.test(name)) return "id";
+  return "alias";
+}
+
+/**
+ * Lists every name the embedded DNS resolves on a network, built from each
+ * attached container's endpoint Aliases and DNSNames (Docker 25+ reports both;
+ * older engines only Aliases, so the container name is always added too).
+ * Names compare case-insensitively, as Docker's resolver does.
+ */
+export function collectDnsNames(network: NetworkInspect, containers: ContainerInspect[]): DnsName[] {
+  const byName = new Map<string, DnsName>();
+
+  for (const c of containers) {
+    const endpoint = c.NetworkSettings.Networks?.[network.Name];
+    if (!endpoint) continue;
+    const containerName = c.Name.replace(/^\//, "");
+    const target: DnsTarget = {
+      containerId: c.Id,
+      containerName,
+      project: c.Config.Labels?.[COMPOSE_PROJECT_LABEL],
+      address: endpoint.IPAddress || endpoint.GlobalIPv6Address || undefined,
+    };
+    const names = new Set([containerName, ...(endpoint.DNSNames || []), ...(endpoint.Aliases || [])]);
+    for (const name of names) {
+      if (!name) continue;
+      const key = name.toLowerCase();
+      const entry = byName.get(key) || { name, kinds: [], targets: [], ambiguous: false };
+      const kind = classify(name, c);
+      if (!entry.kinds.includes(kind)) entry.kinds.push(kind);
+      if (!entry.targets.some((t) => t.containerId === c.Id)) entry.targets.push(target);
+      byName.set(key, entry);
+    }
+  }
+
+  const entries = [...byName.values()];
+  for (const e of entries) e.ambiguous = e.targets.length > 1;
+  return entries.sort((a, b) => Number(b.ambiguous) - Number(a.ambiguous) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+
+import { classifyDockerError } from "./dockerErrors";
+import type { NetworkInspect } from "./types";
+
+function failure(stderr: string, command: string) {
+  return { stderr, command };
+}
+
+describe("classifyDockerError", () => {
+  it("offers to disconnect everything when a network has active endpoints", () => {
+    const e = classifyDockerError(
+      failure("Error response from daemon: error while removing network: network app id 1234 has active endpoints", "docker network rm app")
+    );
+    expect(e.code).toBe("ACTIVE_ENDPOINTS");
+    expect(e.actions).toEqual([{ kind: "disconnect-all-and-remove", label: "Disconnect all containers and remove", network: "app" }]);
+  });
+
+  it("names the network a subnet overlaps with", () => {
+    const monitoring: NetworkInspect = {
+      Name: "monitoring",
+      Id: "mon-id",
+      Driver: "bridge",
+      Scope: "local",
+      IPAM: { Driver: "default", Config: [{ Subnet: "10.20.0.0/16" }] },
+    };
+    const e = classifyDockerError(
+      failure(
+        "Error response from daemon: invalid pool request: Pool overlaps with other one on this address space",
+        "docker network create --subnet 10.20.5.0/24 app"
+      ),
+      [monitoring]
+    );
+    expect(e.code).toBe("POOL_OVERLAP");
+    expect(e.message).toBe("10.20.5.0/24 overlaps 10.20.0.0/16 of network monitoring. Choose a subnet outside it.");
+  });
+
+  it("recognizes Docker's not-found forms", () => {
+    expect(classifyDockerError(failure("Error response from daemon: network app not found", "docker network rm app")).code).toBe(
+      "NOT_FOUND"
+    );
+    expect(classifyDockerError(failure("Error: No such network: app", "docker network inspect app")).code).toBe("NOT_FOUND");
+    const container = classifyDockerError(failure("Error response from daemon: No such container: web", "docker exec web ping db"));
+    expect(container.code).toBe("NOT_FOUND");
+    expect(container.message).toBe("Container not found. It may have been removed.");
+  });
+
+  it("doesn't mistake exec failures for missing networks", () => {
+    const e = classifyDockerError(
+      failure(
+        'OCI runtime exec failed: exec failed: unable to start container process: exec: "ping": executable file not found in $PATH: unknown',
+        "docker exec web ping -c 1 db"
+      )
+    );
+    expect(e).toMatchObject({ code: "EXEC_FAILED", message: "ping isn't installed in web, so it can't be run there.", actions: [] });
+  });
+
+  it("explains exec into a stopped container and commands failing inside one", () => {
+    expect(
+      classifyDockerError(failure("Error response from daemon: container abc is not running", "docker --context vm exec web ls")).message
+    ).toBe("web isn't running, so nothing can be run inside it.");
+    expect(classifyDockerError(failure("ping: bad address 'db'", "docker exec web ping -c 1 db"))).toMatchObject({
+      code: "EXEC_FAILED",
+      message: "The command failed inside web: ping: bad address 'db'",
+    });
+  });
+
+  it("leaves unrecognized errors as they are", () => {
+    expect(classifyDockerError(failure("something odd", "docker network ls"))).toMatchObject({ code: "UNKNOWN", message: "something odd" });
+  });
+});
@@ -0,0 +1,207 @@
+import { cidrsOverlap, parseCidr } from "./ipam";
+import type { NetworkInspect } from "./types";
+import { ValidationError } from "./validation";
+
+export type DockerErrorCode =
+  | "ACTIVE_ENDPOINTS"
+  | "NAME_CONFLICT"
+  | "ALREADY_CONNECTED"
+  | "POOL_OVERLAP"
+  | "POOL_EXHAUSTED"
+  | "INVALID_SUBNET"
+  | "INVALID_ARGUMENT"
+  | "NOT_SWARM_MANAGER"
+  | "NOT_FOUND"
+  | "EXEC_FAILED"
+  | "PERMISSION"
+  | "DAEMON_UNAVAILABLE"
+  | "UNKNOWN";
+
+/** A fix the UI can carry out for the user; see Networks.runErrorAction. */
+export type ErrorAction =
+  | { kind: "disconnect-all-and-remove"; label: string; network: string }
+  | { kind: "force-disconnect"; label: string; network: string; container: string }
+  | { kind: "inspect"; label: string; network: string }
+  | { kind: "prune"; label: string }
+  | { kind: "refresh"; label: string };
+
+export type DockerError = {
+  code: DockerErrorCode;
+  /** What went wrong, phrased for the user */
+  message: string;
+  /** What docker printed, untouched */
+  stderr: string;
+  /** The command line that failed, when known */
+  command?: string;
+  actions: ErrorAction[];
+};
+
+// Positional arguments of a `docker network …` command line, flags and their values dropped
+const FLAGS_WITH_VALUES = new Set([
+  "--context", "--driver", "-d", "--scope", "--subnet", "--gateway", "--ip-range", "--aux-address",
+  "--ipam-driver", "--ipam-opt", "--opt", "-o", "--label", "--config-from",
+  "--alias", "--ip", "--ip6", "--link-local-ip", "--driver-opt",
+]);
+
+function positionalArgs(command?: string) {
+  const words = (command || "").split(/\s+/).filter(Boolean);
+  const out: string[] = [];
+  for (let i = 1; i < words.length; i++) {
+    if (FLAGS_WITH_VALUES.has(words[i])) i++;
+    else if (!words[i].startsWith("-")) out.push(words[i]);
+  }
+  // Drop "network" and the subcommand
+  return out.slice(2);
+}
+
+function flagValues(command: string | undefined, flag: string) {
+  const words = (command || "").split(/\s+/);
+  return words.flatMap((w, i) => (w === flag && words[i + 1] ? [words[i + 1]] : []));
+}
+
+/** The existing network whose subnet a requested one collides with */
+export function findOverlappingNetwork(subnet: string, networks: NetworkInspect[]) {
+  const wanted = parseCidr(subnet);
+  if (!wanted) return undefined;
+  for (const net of networks) {
+    for (const pool of net.IPAM?.Config || []) {
+      const block = pool.Subnet ? parseCidr(pool.Subnet) : null;
+      if (block && block.version === wanted.version && cidrsOverlap(block, wanted)) {
+        return { network: net, subnet: pool.Subnet! };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Works out what a failed docker command means and what could fix it. Pass the
+ * known networks so a subnet overlap can name the network it overlaps with.
+ */
+export function classifyDockerError(error: any, networks: NetworkInspect[] = []): DockerError {
+  const stderr = String(error?.message || error?.stderr || error || "").trim();
+  const command: string | undefined = error?.command;
+  const lower = stderr.toLowerCase();
+  const args = positionalArgs(command);
+  const result = (code: DockerErrorCode, message: string, actions: ErrorAction[] = []): DockerError => ({
+    code,
+    message,
+    stderr,
+    command,
+    actions,
+  });
+
+  if (error instanceof ValidationError) return result("INVALID_ARGUMENT", stderr);
+
+  if (lower.includes("has active endpoints") || lower.includes("has active containers")) {
+    const network = stderr.match(/network (\S+)(?: id \S+)? has active/)?.[1] || args[0];
+    const message = `${network ? `Network ${network}` : "The network"} still has containers attached, so it can't be removed.`;
+    return result(
+      "ACTIVE_ENDPOINTS",
+      message,
+      network ? [{ kind: "disconnect-all-and-remove", label: "Disconnect all containers and remove", network }] : []
+    );
+  }
+
+  // Connecting a container that already has an endpoint on the network, possibly a stale one
+  const endpoint = stderr.match(/endpoint with name (\S+) already exists in network (\S+)/i);
+  if (endpoint || lower.includes("is already attached") || lower.includes("already connected")) {
+    const container = endpoint?.[1] || args[1];
+    const network = endpoint?.[2] || args[0];
+    const actions: ErrorAction[] = [];
+    if (network) actions.push({ kind: "inspect", label: `Show ${network}`, network });
+    if (network && container) {
+      actions.push({ kind: "force-disconnect", label: "Force-disconnect the existing endpoint", network, container });
+    }
+    return result(
+      "ALREADY_CONNECTED",
+      `${container || "The container"} is already connected to ${network || "this network"}. If it isn't, the endpoint is stale and has to be force-disconnected first.`,
+      actions
+    );
+  }
+
+  if (lower.includes("already exists") || lower.includes("network with name")) {
+    const network = stderr.match(/network with name (\S+) already exists/i)?.[1] || args[args.length - 1];
+    return result(
+      "NAME_CONFLICT",
+      `A network named ${network || "like this"} already exists. Choose a different name.`,
+      network ? [{ kind: "inspect", label: `Show ${network}`, network }] : []
+    );
+  }
+
+  if (lower.includes("pool overlaps") || lower.includes("overlaps with other one")) {
+    const conflict = flagValues(command, "--subnet")
+      .map((subnet) => ({ subnet, found: findOverlappingNetwork(subnet, networks) }))
+      .find((c) => c.found);
+    if (!conflict) {
+      return result("POOL_OVERLAP", "The subnet overlaps one used by another network or by the host. Choose another subnet.");
+    }
+    const { network, subnet } = conflict.found!;
+    return result(
+      "POOL_OVERLAP",
+      `${conflict.subnet} overlaps ${subnet} of network ${network.Name}. Choose a subnet outside it.`,
+      [{ kind: "inspect", label: `Show ${network.Name}`, network: network.Id }]
+    );
+  }
+
+  if (lower.includes("non-overlapping") || lower.includes("fully subnetted")) {
+    return result(
+      "POOL_EXHAUSTED",
+      "Docker has run out of address pools for new networks. Remove unused networks or give this one an explicit subnet.",
+      [{ kind: "prune", label: "Prune unused networks" }]
+    );
+  }
+
+  if (lower.includes("invalid cidr") || lower.includes("invalid subnet")) {
+    return result("INVALID_SUBNET", "Invalid subnet format. Use CIDR notation (e.g., 172.28.0.0/16).");
+  }
+
+  if (lower.includes("not a swarm manager")) {
+    return result(
+      "NOT_SWARM_MANAGER",
+      "This engine isn't a swarm manager. Run docker swarm init or switch to a manager node to manage swarm-scoped networks."
+    );
+  }
+
+  // `docker exec` failing inside the container, e.g. a tool missing from the image; checked before
+  // the not-found cases since "executable file not found" isn't about a network or container
+  const execContainer = (command || "").match(/^docker\s+(?:--context\s+\S+\s+)?exec\s+(?:-\S+\s+)*(\S+)/)?.[1];
+  const tool = stderr.match(/exec: "?([^":\s]+)"?: executable file not found/i)?.[1];
+  if (tool || lower.includes("oci runtime exec failed")) {
+    const where = execContainer || "the container";
+    return result(
+      "EXEC_FAILED",
+      tool ? `${tool} isn't installed in ${where}, so it can't be run there.` : `The command couldn't start in ${where}.`
+    );
+  }
+  if (execContainer && /is not running|is paused|is restarting/i.test(stderr)) {
+    return result("EXEC_FAILED", `${execContainer} isn't running, so nothing can be run inside it.`);
+  }
+
+  if (/no such container/i.test(stderr)) {
+    return result("NOT_FOUND", "Container not found. It may have been removed.", [{ kind: "refresh", label: "Refresh" }]);
+  }
+
+  // Docker's forms: "No such network: x" and "network x not found"
+  if (/no such network|network \S+ not found/i.test(stderr)) {
+    return result("NOT_FOUND", "Network not found. It may have been removed.", [{ kind: "refresh", label: "Refresh" }]);
+  }
+
+  if (lower.includes("permission denied") || lower.includes("access denied")) {
+    return result("PERMISSION", "Permission denied. Ensure Docker Desktop has the necessary permissions.");
+  }
+
+  if (lower.includes("cannot connect to the docker daemon") || lower.includes("error during connect")) {
+    return result(
+      "DAEMON_UNAVAILABLE",
+      "The Docker engine can't be reached. Check that it is running, or switch to another context.",
+      [{ kind: "refresh", label: "Retry" }]
+    );
+  }
+
+  if (execContainer) {
+    return result("EXEC_FAILED", `The command failed inside ${execContainer}${stderr ? `: ${stderr}` : "."}`);
+  }
+
+  return result("UNKNOWN", stderr);
+}
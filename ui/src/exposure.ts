@@ -0,0 +1,85 @@
+import type { ContainerInspect, NetworkInspect } from "./types";
+
+/** One host binding from a container's `NetworkSettings.Ports` */
+export type PublishedPort = {
+  containerId: string;
+  containerName: string;
+  hostIp: string;
+  hostPort: string;
+  containerPort: string;
+  protocol: string;
+};
+
+export type ExposureWarning = {
+  containerId: string;
+  containerName: string;
+  /** The internal network the container was meant to be isolated on */
+  internalNetwork: string;
+  /** Non-internal networks the published ports are reachable through */
+  via: string[];
+  ports: PublishedPort[];
+};
+
+export type NetworkExposure = {
+  ports: PublishedPort[];
+  warnings: ExposureWarning[];
+};
+
+export function publishedPorts(c: ContainerInspect): PublishedPort[] {
+  const containerName = c.Name.replace(/^\//, "");
+  const result: PublishedPort[] = [];
+  for (const [key, bindings] of Object.entries(c.NetworkSettings.Ports || {})) {
+    // Exposed but unpublished ports have no bindings
+    if (!bindings) continue;
+    const [containerPort, protocol = "tcp"] = key.split("/");
+    for (const b of bindings) {
+      result.push({
+        containerId: c.Id,
+        containerName,
+        hostIp: b.HostIp || "0.0.0.0",
+        hostPort: b.HostPort,
+        containerPort,
+        protocol,
+      });
+    }
+  }
+  return result;
+}
+
+export function formatPort(p: PublishedPort) {
+  const host = p.hostIp.includes(":") ? `[${p.hostIp}]` : p.hostIp;
+  return `${host}:${p.hostPort} → ${p.containerPort}/${p.protocol}`;
+}
+
+/**
+ * Maps each network to the host ports its containers publish. Containers on an
+ * internal network that also publish ports through another, non-internal network
+ * get a warning on the internal one, since they are reachable from outside anyway.
+ */
+export function analyzeExposure(networks: NetworkInspect[], containers: ContainerInspect[]): Map<string, NetworkExposure> {
+  const byName = new Map(networks.map((n) => [n.Name, n]));
+  const result = new Map<string, NetworkExposure>(networks.map((n) => [n.Id, { ports: [], warnings: [] }]));
+
+  for (const c of containers) {
+    const ports = publishedPorts(c);
+    if (ports.length === 0) continue;
+    const attached = Object.keys(c.NetworkSettings.Networks || {})
+      .map((name) => byName.get(name))
+      .filter((n): n is NetworkInspect => !!n);
+    const open = attached.filter((n) => !n.Internal).map((n) => n.Name);
+    for (const net of attached) {
+      const exposure = result.get(net.Id)!;
+      exposure.ports.push(...ports);
+      if (net.Internal && open.length > 0) {
+        exposure.warnings.push({
+          containerId: c.Id,
+          containerName: ports[0].containerName,
+          internalNetwork: net.Name,
+          via: open,
+          ports,
+        });
+      }
+    }
+  }
+  return result;
+}
@@ -0,0 +1,187 @@
+import { getDockerContext, parseDockerError } from "./api";
+import { inspectContainers } from "./containerApi";
+import {
+  connectContainer,
+  createNetwork,
+  disconnectContainer,
+  inspectNetwork,
+  networkCreateArgs,
+  removeNetwork,
+  type ConnectOptions,
+} from "./networkApi";
+import { specFromInspect, type NetworkSpec } from "./networkSpec";
+import { connectOptionsFromEndpoint } from "./recreateNetwork";
+import type { NetworkInspect } from "./types";
+
+// The Extensions SDK has no storage API; the extension's webview keeps localStorage across restarts.
+const STORAGE_KEY = "networks-ui.history";
+const MAX_ENTRIES = 200;
+
+export type HistoryAction = "create" | "remove" | "prune" | "connect" | "disconnect" | "edit";
+
+export type HistoryEntry = {
+  id: string;
+  time: number;
+  action: HistoryAction;
+  network: string;
+  container?: string;
+  containerId?: string;
+  /** The docker command that ran, for display */
+  command: string;
+  ok: boolean;
+  error?: string;
+  /** Network as inspected right before a remove, prune or edit */
+  before?: NetworkInspect;
+  /** How the container was attached, captured right before a disconnect */
+  endpoint?: ConnectOptions;
+  /** ID of the network a create produced */
+  networkId?: string;
+  /** Set once the entry has been undone */
+  undoneAt?: number;
+  /** Docker context the operation ran against; absent for the default engine */
+  context?: string;
+};
+
+const listeners = new Set<(entries: HistoryEntry[]) => void>();
+
+export function loadHistory(): HistoryEntry[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveHistory(entries: HistoryEntry[]) {
+  const trimmed = entries.slice(0, MAX_ENTRIES);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(trimmed));
+  } catch (e) {
+    console.warn("Failed to persist operation history:", e);
+  }
+  listeners.forEach((l) => l(trimmed));
+}
+
+/** Calls onChange with the full list (newest first) whenever it changes. Returns an unsubscribe function. */
+export function subscribeHistory(onChange: (entries: HistoryEntry[]) => void) {
+  listeners.add(onChange);
+  return () => {
+    listeners.delete(onChange);
+  };
+}
+
+export function clearHistory() {
+  saveHistory([]);
+}
+
+export function recordOperation(entry: Omit<HistoryEntry, "id" | "time" | "context">): HistoryEntry {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const full: HistoryEntry = { id, time: Date.now(), context: getDockerContext() || undefined, ...entry };
+  saveHistory([full, ...loadHistory()]);
+  return full;
+}
+
+function markUndone(id: string) {
+  saveHistory(loadHistory().map((e) => (e.id === id ? { ...e, undoneAt: Date.now() } : e)));
+}
+
+/** Runs an operation and records its outcome either way, rethrowing failures. */
+async function tracked<T>(
+  entry: Omit<HistoryEntry, "id" | "time" | "ok">,
+  fn: () => Promise<T>,
+  onOk?: (result: T) => Partial<HistoryEntry>
+) {
+  try {
+    const result = await fn();
+    recordOperation({ ...entry, ok: true, ...onOk?.(result) });
+    return result;
+  } catch (e: any) {
+    recordOperation({ ...entry, ok: false, error: parseDockerError(e) });
+    throw e;
+  }
+}
+
+export function trackCreate(spec: NetworkSpec) {
+  return tracked(
+    { action: "create", network: spec.name, command: `docker network ${networkCreateArgs(spec).join(" ")}` },
+    () => createNetwork(spec),
+    (networkId) => ({ networkId })
+  );
+}
+
+export async function trackRemove(idOrName: string, action: "remove" | "prune" = "remove") {
+  // Capture first so the network can be recreated exactly; a failed inspect means rm will fail too
+  const before = await inspectNetwork(idOrName).catch(() => undefined);
+  return tracked(
+    { action, network: before?.Name || idOrName, command: `docker network rm ${idOrName}`, before },
+    () => removeNetwork(idOrName)
+  );
+}
+
+export function trackConnect(network: string, container: string, opts: ConnectOptions = {}) {
+  return tracked(
+    { action: "connect", network, container, command: `docker network connect ${network} ${container}`, endpoint: opts },
+    () => connectContainer(network, container, opts)
+  );
+}
+
+export async function trackDisconnect(network: string, container: string, force: boolean) {
+  const [inspected] = await inspectContainers([container]).catch(() => []);
+  const before = await inspectNetwork(network).catch(() => undefined);
+  return tracked(
+    {
+      action: "disconnect",
+      network: before?.Name || network,
+      container: inspected?.Name.replace(/^\//, "") || container,
+      containerId: inspected?.Id,
+      command: `docker network disconnect ${force ? "--force " : ""}${network} ${container}`,
+      before,
+      endpoint: inspected && before ? connectOptionsFromEndpoint(inspected, before.Name) : undefined,
+    },
+    () => disconnectContainer(network, container, force)
+  );
+}
+
+/** Why an entry can't be undone, or null if it can */
+export function undoBlocker(entry: HistoryEntry): string | null {
+  if (entry.undoneAt) return "Already undone";
+  if (!entry.ok) return "The operation failed, so there is nothing to undo";
+  if ((entry.context || null) !== getDockerContext()) {
+    return `Switch to the ${entry.context ? `"${entry.context}"` : "default"} context to undo this`;
+  }
+  switch (entry.action) {
+    case "create":
+    case "connect":
+      return null;
+    case "remove":
+    case "prune":
+      return entry.before ? null : "The network's configuration wasn't captured";
+    case "disconnect":
+      return entry.endpoint ? null : "The container's endpoint settings weren't captured";
+    case "edit":
+      return "Edit the network again to change it back";
+  }
+}
+
+/** Reverses a recorded operation. The reversal is itself recorded. */
+export async function undoOperation(entry: HistoryEntry) {
+  const blocker = undoBlocker(entry);
+  if (blocker) throw new Error(blocker);
+  switch (entry.action) {
+    case "create":
+      await trackRemove(entry.networkId || entry.network);
+      break;
+    case "remove":
+    case "prune":
+      await trackCreate(specFromInspect(entry.before!));
+      break;
+    case "connect":
+      await trackDisconnect(entry.network, entry.containerId || entry.container!, false);
+      break;
+    case "disconnect":
+      await trackConnect(entry.network, entry.containerId || entry.container!, entry.endpoint);
+      break;
+  }
+  markUndone(entry.id);
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+
+import { analyzeIpam, cidrsOverlap, formatIp, parseCidr, parseIp, validateStaticIp } from "./ipam";
+import type { NetworkInspect } from "./types";
+
+function network(name: string, config: NonNullable<NetworkInspect["IPAM"]>["Config"], containers = {}): NetworkInspect {
+  return { Name: name, Id: `${name}-id`, Driver: "bridge", Scope: "local", IPAM: { Driver: "default", Config: config }, Containers: containers };
+}
+
+describe("parseIp", () => {
+  it("parses IPv4 addresses", () => {
+    expect(parseIp("10.0.0.1")).toEqual({ version: 4, value: 0x0a000001n });
+    expect(parseIp(" 192.168.1.255 ")).toEqual({ version: 4, value: 0xc0a801ffn });
+  });
+
+  it("rejects malformed IPv4 addresses", () => {
+    for (const text of ["10.0.0", "10.0.0.256", "10.0.0.1.2", "10.0.0.x", "", "10.0.0.1 --internal"]) {
+      expect(parseIp(text)).toBeNull();
+    }
+  });
+
+  it("parses compressed and embedded-IPv4 IPv6 addresses", () => {
+    expect(parseIp("::1")).toEqual({ version: 6, value: 1n });
+    expect(parseIp("fd00::")).toEqual({ version: 6, value: 0xfd00n << 112n });
+    expect(parseIp("::ffff:10.0.0.1")).toEqual({ version: 6, value: 0xffff0a000001n });
+  });
+
+  it("rejects malformed IPv6 addresses", () => {
+    for (const text of ["fd00::1::2", "1:2:3:4:5:6:7:8:9", "fd00::g", "fd00:1"]) {
+      expect(parseIp(text)).toBeNull();
+    }
+  });
+
+  it("accepts only plain interface names as zone indexes", () => {
+    expect(parseIp("fe80::1%eth0")).toEqual({ version: 6, value: (0xfe80n << 112n) | 1n });
+    for (const text of ["fe80::1%", "fe80::1%a%b", "fd00::5%x --privileged", "fe80::1%a -x", "fe80::1%$(id)"]) {
+      expect(parseIp(text)).toBeNull();
+    }
+  });
+});
+
+describe("parseCidr", () => {
+  it("computes the first and last address of a block", () => {
+    expect(parseCidr("10.1.2.3/24")).toEqual({ version: 4, prefix: 24, start: 0x0a010200n, end: 0x0a0102ffn });
+    expect(parseCidr("fd00::/127")).toMatchObject({ version: 6, prefix: 127, end: (0xfd00n << 112n) | 1n });
+  });
+
+  it("rejects bad prefixes and zone indexes", () => {
+    for (const text of ["10.0.0.0", "10.0.0.0/33", "10.0.0.0/8/8", "fd00::/129", "fd00::%eth0/64", "10.0.0.0/x"]) {
+      expect(parseCidr(text)).toBeNull();
+    }
+  });
+});
+
+describe("formatIp", () => {
+  it("compresses the longest run of zero groups", () => {
+    expect(formatIp(parseIp("fd00:0:0:1:0:0:0:1")!)).toBe("fd00:0:0:1::1");
+    expect(formatIp(parseIp("fd00:0:1:0:1:0:1:0")!)).toBe("fd00:0:1:0:1:0:1:0");
+    expect(formatIp(parseIp("10.20.30.40")!)).toBe("10.20.30.40");
+  });
+});
+
+describe("cidrsOverlap", () => {
+  it("only matches blocks of the same family that share addresses", () => {
+    expect(cidrsOverlap(parseCidr("10.0.0.0/8")!, parseCidr("10.5.0.0/16")!)).toBe(true);
+    expect(cidrsOverlap(parseCidr("10.0.0.0/24")!, parseCidr("10.0.1.0/24")!)).toBe(false);
+    expect(cidrsOverlap(parseCidr("0.0.0.0/0")!, parseCidr("::/0")!)).toBe(false);
+  });
+});
+
+describe("analyzeIpam", () => {
+  it("reports overlaps between networks and gateways and ranges outside their subnet", () => {
+    const findings = analyzeIpam([
+      network("one", [{ Subnet: "10.0.0.0/16", Gateway: "10.1.0.1" }]),
+      network("two", [{ Subnet: "10.0.5.0/24", IPRange: "10.0.4.0/23" }]),
+    ]);
+    expect(findings.map((f) => [f.kind, f.message])).toEqual([
+      ["gateway-outside", "one: gateway 10.1.0.1 is outside subnet 10.0.0.0/16"],
+      ["range-outside", "two: ip-range 10.0.4.0/23 spills outside subnet 10.0.5.0/24"],
+      ["overlap", "one (10.0.0.0/16) overlaps two (10.0.5.0/24)"],
+    ]);
+    expect(findings[2].networkIds).toEqual(["one-id", "two-id"]);
+  });
+
+  it("reports unparsable subnets", () => {
+    expect(analyzeIpam([network("bad", [{ Subnet: "10.0.0.0/40" }])])).toEqual([
+      { kind: "invalid", severity: "error", networkIds: ["bad-id"], message: 'bad: subnet "10.0.0.0/40" is not valid CIDR notation' },
+    ]);
+  });
+});
+
+describe("validateStaticIp", () => {
+  const net = network("app", [{ Subnet: "10.9.0.0/24", Gateway: "10.9.0.1" }], {
+    c1: { Name: "db", EndpointID: "e1", MacAddress: "02:42:0a:09:00:02", IPv4Address: "10.9.0.2/24", IPv6Address: "" },
+  });
+
+  it("accepts a free address in the subnet", () => {
+    expect(validateStaticIp("10.9.0.10", 4, net)).toBeNull();
+  });
+
+  it("explains why an address can't be used", () => {
+    expect(validateStaticIp("10.9.1.10", 4, net)).toBe("Not in app's subnet 10.9.0.0/24");
+    expect(validateStaticIp("10.9.0.1", 4, net)).toBe("This is the network's gateway address");
+    expect(validateStaticIp("10.9.0.255", 4, net)).toBe("Network and broadcast addresses can't be assigned");
+    expect(validateStaticIp("10.9.0.2", 4, net)).toBe("Already used by db");
+    expect(validateStaticIp("fd00::2", 4, net)).toBe("Expected an IPv4 address");
+    expect(validateStaticIp("fd00::2", 6, net)).toBe(
+      "app has no IPv6 subnet configured; static addresses need a user-configured subnet"
+    );
+  });
+
+  it("rejects zone indexes", () => {
+    expect(validateStaticIp("fe80::1%eth0", 6)).toBe('"fe80::1%eth0" is not a valid IP address');
+  });
+});
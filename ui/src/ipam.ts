@@ -0,0 +1,253 @@
+import type { IPAMConfig, NetworkInspect } from "./types";
+
+export type IpVersion = 4 | 6;
+
+export type ParsedIp = { version: IpVersion; value: bigint };
+
+export type ParsedCidr = {
+  version: IpVersion;
+  prefix: number;
+  /** First address in the block (network address) */
+  start: bigint;
+  /** Last address in the block (broadcast for IPv4) */
+  end: bigint;
+};
+
+export type IpamFindingKind = "invalid" | "overlap" | "gateway-outside" | "range-outside";
+
+export type IpamFinding = {
+  kind: IpamFindingKind;
+  severity: "error" | "warning";
+  /** IDs of every network the finding applies to */
+  networkIds: string[];
+  message: string;
+};
+
+function parseIPv4(addr: string): bigint | null {
+  const parts = addr.split(".");
+  if (parts.length !== 4) return null;
+  let value = 0n;
+  for (const p of parts) {
+    if (!/^\d{1,3}$/.test(p)) return null;
+    const n = Number(p);
+    if (n > 255) return null;
+    value = (value << 8n) | BigInt(n);
+  }
+  return value;
+}
+
+function parseIPv6(addr: string): bigint | null {
+  // A zone index (fe80::1%eth0) names an interface; anything else after "%" isn't an address
+  const [raw, zone, ...rest] = addr.split("%");
+  if (rest.length || (zone !== undefined && !/^[A-Za-z0-9_.-]+$/.test(zone))) return null;
+  if (!raw.includes(":")) return null;
+
+  // An embedded IPv4 tail (e.g. ::ffff:10.0.0.1) counts as two groups
+  let groupsText = raw;
+  let v4Tail: bigint | null = null;
+  const lastColon = raw.lastIndexOf(":");
+  if (raw.slice(lastColon + 1).includes(".")) {
+    v4Tail = parseIPv4(raw.slice(lastColon + 1));
+    if (v4Tail === null) return null;
+    groupsText = raw.slice(0, lastColon + 1) + "0:0";
+  }
+
+  const halves = groupsText.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  let value = 0n;
+  for (const g of groups) {
+    if (!/^[0-9a-fA-F]{1,4}$/.test(g)) return null;
+    value = (value << 16n) | BigInt(parseInt(g, 16));
+  }
+  if (v4Tail !== null) value = (value & ~0xffffffffn) | v4Tail;
+  return value;
+}
+
+/**
+ * Parses an IPv4 or IPv6 address. Returns null if the text isn't a valid address.
+ */
+export function parseIp(addr: string): ParsedIp | null {
+  const text = (addr || "").trim();
+  const v4 = parseIPv4(text);
+  if (v4 !== null) return { version: 4, value: v4 };
+  const v6 = parseIPv6(text);
+  if (v6 !== null) return { version: 6, value: v6 };
+  return null;
+}
+
+/**
+ * Parses CIDR notation (e.g. 172.28.0.0/16 or fd00::/64) into its address block.
+ * Host bits are ignored, matching how Docker normalises subnets.
+ */
+export function parseCidr(cidr: string): ParsedCidr | null {
+  const [addr, prefixText, ...rest] = (cidr || "").trim().split("/");
+  if (rest.length || prefixText === undefined || !/^\d{1,3}$/.test(prefixText)) return null;
+  const ip = addr.includes("%") ? null : parseIp(addr);
+  if (!ip) return null;
+  const bits = ip.version === 4 ? 32 : 128;
+  const prefix = Number(prefixText);
+  if (prefix > bits) return null;
+  const hostBits = BigInt(bits - prefix);
+  const start = (ip.value >> hostBits) << hostBits;
+  const end = start + (1n << hostBits) - 1n;
+  return { version: ip.version, prefix, start, end };
+}
+
+/** Formats an address value back to text, using the compressed `::` form for IPv6. */
+export function formatIp(ip: ParsedIp): string {
+  if (ip.version === 4) {
+    return [24n, 16n, 8n, 0n].map((shift) => String((ip.value >> shift) & 0xffn)).join(".");
+  }
+  const groups = Array.from({ length: 8 }, (_, i) => Number((ip.value >> BigInt((7 - i) * 16)) & 0xffffn));
+  // Compress the longest run of two or more zero groups
+  let bestStart = -1;
+  let bestLen = 1;
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLen) {
+      bestStart = i;
+      bestLen = j - i;
+    }
+    i = j;
+  }
+  const hex = groups.map((g) => g.toString(16));
+  if (bestStart < 0) return hex.join(":");
+  return `${hex.slice(0, bestStart).join(":")}::${hex.slice(bestStart + bestLen).join(":")}`;
+}
+
+export function cidrContainsIp(block: ParsedCidr, ip: ParsedIp): boolean {
+  return block.version === ip.version && ip.value >= block.start && ip.value <= block.end;
+}
+
+export function cidrContainsCidr(outer: ParsedCidr, inner: ParsedCidr): boolean {
+  return outer.version === inner.version && inner.start >= outer.start && inner.end <= outer.end;
+}
+
+export function cidrsOverlap(a: ParsedCidr, b: ParsedCidr): boolean {
+  return a.version === b.version && a.start <= b.end && b.start <= a.end;
+}
+
+/**
+ * Checks the IPAM configuration of every network for overlapping subnets,
+ * gateways outside their subnet and ip-ranges that spill out of their pool.
+ */
+export function analyzeIpam(networks: NetworkInspect[]): IpamFinding[] {
+  const findings: IpamFinding[] = [];
+  const pools: { network: NetworkInspect; subnet: string; block: ParsedCidr }[] = [];
+
+  for (const net of networks) {
+    for (const cfg of net.IPAM?.Config || []) {
+      if (!cfg.Subnet) continue;
+      const block = parseCidr(cfg.Subnet);
+      if (!block) {
+        findings.push({
+          kind: "invalid",
+          severity: "error",
+          networkIds: [net.Id],
+          message: `${net.Name}: subnet "${cfg.Subnet}" is not valid CIDR notation`,
+        });
+        continue;
+      }
+      pools.push({ network: net, subnet: cfg.Subnet, block });
+
+      if (cfg.Gateway) {
+        const gw = parseIp(cfg.Gateway);
+        if (!gw) {
+          findings.push({
+            kind: "invalid",
+            severity: "error",
+            networkIds: [net.Id],
+            message: `${net.Name}: gateway "${cfg.Gateway}" is not a valid IP address`,
+          });
+        } else if (!cidrContainsIp(block, gw)) {
+          findings.push({
+            kind: "gateway-outside",
+            severity: "error",
+            networkIds: [net.Id],
+            message: `${net.Name}: gateway ${cfg.Gateway} is outside subnet ${cfg.Subnet}`,
+          });
+        }
+      }
+
+      if (cfg.IPRange) {
+        const range = parseCidr(cfg.IPRange);
+        if (!range) {
+          findings.push({
+            kind: "invalid",
+            severity: "error",
+            networkIds: [net.Id],
+            message: `${net.Name}: ip-range "${cfg.IPRange}" is not valid CIDR notation`,
+          });
+        } else if (!cidrContainsCidr(block, range)) {
+          findings.push({
+            kind: "range-outside",
+            severity: "warning",
+            networkIds: [net.Id],
+            message: `${net.Name}: ip-range ${cfg.IPRange} spills outside subnet ${cfg.Subnet}`,
+          });
+        }
+      }
+    }
+  }
+
+  for (let i = 0; i < pools.length; i++) {
+    for (let j = i + 1; j < pools.length; j++) {
+      const a = pools[i];
+      const b = pools[j];
+      if (!cidrsOverlap(a.block, b.block)) continue;
+      const sameNetwork = a.network.Id === b.network.Id;
+      findings.push({
+        kind: "overlap",
+        severity: "error",
+        networkIds: sameNetwork ? [a.network.Id] : [a.network.Id, b.network.Id],
+        message: sameNetwork
+          ? `${a.network.Name}: subnets ${a.subnet} and ${b.subnet} overlap`
+          : `${a.network.Name} (${a.subnet}) overlaps ${b.network.Name} (${b.subnet})`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Checks a static address for `docker network connect --ip/--ip6` against the
+ * network's IPAM config. Returns an error message, or null if the address is usable.
+ */
+export function validateStaticIp(address: string, version: IpVersion, net?: NetworkInspect): string | null {
+  const ip = address.includes("%") ? null : parseIp(address);
+  if (!ip) return `"${address}" is not a valid IP address`;
+  if (ip.version !== version) return `Expected an IPv${version} address`;
+  if (!net) return null;
+
+  const pools = (net.IPAM?.Config || [])
+    .map((c) => ({ cfg: c, block: c.Subnet ? parseCidr(c.Subnet) : null }))
+    .filter((p): p is { cfg: IPAMConfig; block: ParsedCidr } => !!p.block && p.block.version === version);
+  if (pools.length === 0) {
+    return `${net.Name} has no IPv${version} subnet configured; static addresses need a user-configured subnet`;
+  }
+
+  const pool = pools.find((p) => cidrContainsIp(p.block, ip));
+  if (!pool) return `Not in ${net.Name}'s subnet${pools.length > 1 ? "s" : ""} ${pools.map((p) => p.cfg.Subnet).join(", ")}`;
+  if (pool.cfg.Gateway && parseIp(pool.cfg.Gateway)?.value === ip.value) return "This is the network's gateway address";
+  if (version === 4 && pool.block.prefix < 31 && (ip.value === pool.block.start || ip.value === pool.block.end)) {
+    return "Network and broadcast addresses can't be assigned";
+  }
+  const inUse = Object.values(net.Containers || {}).find((c) => {
+    const assigned = (version === 4 ? c.IPv4Address : c.IPv6Address)?.split("/")[0];
+    return assigned && parseIp(assigned)?.value === ip.value;
+  });
+  if (inUse) return `Already used by ${inUse.Name}`;
+  return null;
+}
@@ -0,0 +1,217 @@
+import { parseCidr } from "./ipam";
+import { SYSTEM_NETWORKS } from "./networkApi";
+import type { ContainerInspect, NetworkInspect } from "./types";
+
+const STORAGE_KEY = "networks-ui.lint-rules";
+const MTU_OPTION = "com.docker.network.driver.mtu";
+const DEFAULT_MTU = 1500;
+
+const DATABASE_IMAGES = [
+  "postgres",
+  "mysql",
+  "mariadb",
+  "mongo",
+  "redis",
+  "valkey",
+  "memcached",
+  "cassandra",
+  "couchdb",
+  "elasticsearch",
+  "opensearch",
+  "influxdb",
+  "clickhouse-server",
+  "cockroach",
+  "neo4j",
+  "mssql-server",
+];
+
+export type LintSeverity = "error" | "warning" | "info";
+
+export type LintRuleId =
+  | "default-bridge"
+  | "missing-labels"
+  | "exposed-database"
+  | "ipv6-without-subnet"
+  | "mtu-mismatch"
+  | "stale-empty";
+
+export type LintRuleConfig = {
+  enabled: boolean;
+  severity: LintSeverity;
+  /** Rule-specific number: max age in days for stale-empty, expected MTU for mtu-mismatch */
+  param?: number;
+};
+
+export type LintConfig = Record<LintRuleId, LintRuleConfig>;
+
+export type LintContext = {
+  /** Inspect output of containers attached to any network, used for image checks */
+  containers: Map<string, ContainerInspect>;
+  /** MTU of the default bridge, which other networks are compared against */
+  bridgeMtu: number;
+  now: number;
+};
+
+export type LintRule = {
+  id: LintRuleId;
+  /** Short text for table chips */
+  label: string;
+  title: string;
+  description: string;
+  defaults: LintRuleConfig;
+  paramLabel?: string;
+  /** Returns a message per problem found on the network */
+  check: (net: NetworkInspect, config: LintRuleConfig, ctx: LintContext) => string[];
+};
+
+export type LintViolation = {
+  ruleId: LintRuleId;
+  severity: LintSeverity;
+  networkId: string;
+  message: string;
+};
+
+function imageName(image: string) {
+  // "docker.io/library/postgres:16@sha256:…" -> "postgres"
+  const withoutDigest = image.split("@")[0];
+  const last = withoutDigest.split("/").pop() || withoutDigest;
+  return last.split(":")[0];
+}
+
+function mtuOf(net: NetworkInspect): number | null {
+  const raw = net.Options?.[MTU_OPTION];
+  return raw && /^\d+$/.test(raw) ? Number(raw) : null;
+}
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: "default-bridge",
+    label: "default bridge",
+    title: "Containers on the default bridge",
+    description: "The default bridge has no DNS between containers and shares one segment with everything else.",
+    defaults: { enabled: true, severity: "warning" },
+    check: (net) => {
+      const count = Object.keys(net.Containers || {}).length;
+      return net.Name === "bridge" && count > 0
+        ? [`${count} container${count !== 1 ? "s are" : " is"} still on the default bridge`]
+        : [];
+    },
+  },
+  {
+    id: "missing-labels",
+    label: "no labels",
+    title: "User networks without labels",
+    description: "Labels record who owns a network and why it exists.",
+    defaults: { enabled: true, severity: "info" },
+    check: (net) =>
+      !SYSTEM_NETWORKS.has(net.Name) && Object.keys(net.Labels || {}).length === 0 ? [`${net.Name} has no labels`] : [],
+  },
+  {
+    id: "exposed-database",
+    label: "db not internal",
+    title: "Non-internal networks hosting only databases",
+    description: "A network that only carries database containers can usually be --internal.",
+    defaults: { enabled: true, severity: "warning" },
+    check: (net, _config, ctx) => {
+      if (net.Internal || SYSTEM_NETWORKS.has(net.Name)) return [];
+      const images = Object.keys(net.Containers || {})
+        .map((id) => ctx.containers.get(id)?.Config.Image)
+        .filter((i): i is string => !!i);
+      if (images.length === 0 || !images.every((i) => DATABASE_IMAGES.includes(imageName(i)))) return [];
+      return [`${net.Name} only hosts databases (${[...new Set(images.map(imageName))].join(", ")}) but is not internal`];
+    },
+  },
+  {
+    id: "ipv6-without-subnet",
+    label: "IPv6 no subnet",
+    title: "IPv6 enabled without an IPv6 subnet",
+    description: "Without an explicit IPv6 subnet, addresses depend on the daemon's default pools.",
+    defaults: { enabled: true, severity: "warning" },
+    check: (net) => {
+      if (!net.EnableIPv6 || net.ConfigFrom?.Network) return [];
+      const hasV6 = (net.IPAM?.Config || []).some((c) => c.Subnet && parseCidr(c.Subnet)?.version === 6);
+      return hasV6 ? [] : [`${net.Name} enables IPv6 but has no IPv6 subnet`];
+    },
+  },
+  {
+    id: "mtu-mismatch",
+    label: "MTU",
+    title: "MTU mismatches",
+    description: "Networks whose MTU option differs from the expected MTU can fragment or drop large packets.",
+    defaults: { enabled: true, severity: "warning" },
+    paramLabel: "Expected MTU (empty: default bridge's)",
+    check: (net, config, ctx) => {
+      const mtu = mtuOf(net);
+      const expected = config.param || ctx.bridgeMtu;
+      return mtu !== null && mtu !== expected ? [`${net.Name} uses MTU ${mtu}, expected ${expected}`] : [];
+    },
+  },
+  {
+    id: "stale-empty",
+    label: "stale",
+    title: "Old networks with no containers",
+    description: "Empty networks that have been around for a while are probably left over.",
+    defaults: { enabled: true, severity: "info", param: 30 },
+    paramLabel: "Older than (days)",
+    check: (net, config, ctx) => {
+      if (SYSTEM_NETWORKS.has(net.Name) || net.ConfigOnly || Object.keys(net.Containers || {}).length > 0) return [];
+      const created = net.Created ? Date.parse(net.Created) : NaN;
+      const days = config.param ?? 30;
+      if (Number.isNaN(created) || ctx.now - created < days * 24 * 3600 * 1000) return [];
+      const age = Math.floor((ctx.now - created) / (24 * 3600 * 1000));
+      return [`${net.Name} has had no containers and is ${age} days old`];
+    },
+  },
+];
+
+export function defaultLintConfig(): LintConfig {
+  return Object.fromEntries(LINT_RULES.map((r) => [r.id, { ...r.defaults }])) as LintConfig;
+}
+
+/** Reads saved rule settings, falling back to each rule's defaults for anything missing. */
+export function loadLintConfig(): LintConfig {
+  const config = defaultLintConfig();
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    for (const rule of LINT_RULES) {
+      if (saved?.[rule.id]) config[rule.id] = { ...config[rule.id], ...saved[rule.id] };
+    }
+  } catch {
+    // Corrupt settings fall back to defaults
+  }
+  return config;
+}
+
+export function saveLintConfig(config: LintConfig) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (e) {
+    console.warn("Failed to save lint rules:", e);
+  }
+}
+
+/** Runs every enabled rule against every network. */
+export function lintNetworks(
+  networks: NetworkInspect[],
+  containers: ContainerInspect[],
+  config: LintConfig,
+  now = Date.now()
+): LintViolation[] {
+  const bridge = networks.find((n) => n.Name === "bridge");
+  const ctx: LintContext = {
+    containers: new Map(containers.map((c) => [c.Id, c])),
+    bridgeMtu: (bridge && mtuOf(bridge)) || DEFAULT_MTU,
+    now,
+  };
+  const violations: LintViolation[] = [];
+  for (const rule of LINT_RULES) {
+    const ruleConfig = config[rule.id];
+    if (!ruleConfig?.enabled) continue;
+    for (const net of networks) {
+      for (const message of rule.check(net, ruleConfig, ctx)) {
+        violations.push({ ruleId: rule.id, severity: ruleConfig.severity, networkId: net.Id, message });
+      }
+    }
+  }
+  return violations;
+}
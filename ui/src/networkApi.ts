@@ -0,0 +1,184 @@
+import {
+  INSPECT_BATCH_SIZE,
+  JSON_FORMAT,
+  dockerExec,
+  dockerStream,
+  execError,
+  parseJsonLines,
+  quoteArg,
+  type StreamHandle,
+} from "./api";
+import type { NetworkSpec } from "./networkSpec";
+import type { DockerEvent, NetworkInspect, NetworkListRow } from "./types";
+import { assertValid, validateConnect, validateNetworkSpec, validateReference } from "./validation";
+
+export const SYSTEM_NETWORKS = new Set(["bridge", "host", "none"]);
+
+/** Context defaults to the selected one; see setDockerContext. */
+export async function listNetworks(context?: string | null): Promise<NetworkListRow[]> {
+  const r = await dockerExec("network", ["ls", "--no-trunc", "--format", JSON_FORMAT], context);
+  if (r.stderr) throw execError(r);
+  return parseJsonLines<NetworkListRow>(r.stdout).filter((n) => n.ID && n.Name);
+}
+
+/** Builds the `network ls` view of a network from its inspect output. */
+export function rowFromInspect(net: NetworkInspect): NetworkListRow {
+  return {
+    ID: net.Id,
+    Name: net.Name,
+    Driver: net.Driver,
+    Scope: net.Scope,
+    CreatedAt: net.Created,
+    Labels: Object.entries(net.Labels || {})
+      .map(([k, v]) => `${k}=${v}`)
+      .join(","),
+  };
+}
+
+function parseInspectOutput(stdout?: string): NetworkInspect[] {
+  try {
+    const arr = JSON.parse(stdout || "[]");
+    if (!Array.isArray(arr)) throw new Error();
+    return arr as NetworkInspect[];
+  } catch {
+    throw new Error("Unexpected inspect output");
+  }
+}
+
+export async function inspectNetwork(idOrName: string, context?: string | null): Promise<NetworkInspect> {
+  const r = await dockerExec("network", ["inspect", idOrName], context);
+  if (r.stderr) throw execError(r);
+  const arr = parseInspectOutput(r.stdout);
+  if (!arr[0]) throw new Error("Unexpected inspect output");
+  return arr[0];
+}
+
+/**
+ * Inspects many networks with as few CLI calls as possible. Networks removed between
+ * listing and inspecting are skipped rather than failing the whole batch.
+ */
+export async function inspectNetworks(ids: string[]): Promise<NetworkInspect[]> {
+  const results: NetworkInspect[] = [];
+  for (let i = 0; i < ids.length; i += INSPECT_BATCH_SIZE) {
+    const batch = ids.slice(i, i + INSPECT_BATCH_SIZE);
+    let stdout: string | undefined;
+    try {
+      const r = await dockerExec("network", ["inspect", ...batch]);
+      stdout = r.stdout;
+    } catch (e: any) {
+      // docker exits non-zero if any ID is missing but still prints the ones it found
+      if (!e?.stdout) throw e;
+      stdout = e.stdout;
+    }
+    results.push(...parseInspectOutput(stdout));
+  }
+  return results;
+}
+
+function keyValueArgs(flag: string, map?: Record<string, string>): string[] {
+  return Object.entries(map || {}).flatMap(([k, v]) => [flag, quoteArg(`${k}=${v}`)]);
+}
+
+/** Translates a spec into `docker network create` arguments. */
+export function networkCreateArgs(spec: NetworkSpec): string[] {
+  const args: string[] = ["create"];
+  // Config-only networks always use the "null" driver, which can't be requested explicitly
+  if (spec.driver && !spec.configOnly) args.push("--driver", spec.driver);
+  if (spec.attachable) args.push("--attachable");
+  if (spec.internal) args.push("--internal");
+  if (spec.ipv6) args.push("--ipv6");
+  for (const pool of spec.pools || []) {
+    if (pool.subnet) args.push("--subnet", quoteArg(pool.subnet));
+    if (pool.ipRange) args.push("--ip-range", quoteArg(pool.ipRange));
+    if (pool.gateway) args.push("--gateway", quoteArg(pool.gateway));
+    args.push(...keyValueArgs("--aux-address", pool.auxAddresses));
+  }
+  if (spec.ipamDriver) args.push("--ipam-driver", spec.ipamDriver);
+  args.push(...keyValueArgs("--ipam-opt", spec.ipamOptions));
+  args.push(...keyValueArgs("--opt", spec.options));
+  args.push(...keyValueArgs("--label", spec.labels));
+  if (spec.configOnly) args.push("--config-only");
+  if (spec.configFrom) args.push("--config-from", spec.configFrom);
+  if (spec.scope) args.push("--scope", spec.scope);
+  args.push(spec.name);
+  return args;
+}
+
+export async function createNetwork(spec: NetworkSpec) {
+  assertValid(validateNetworkSpec(spec));
+  const r = await dockerExec("network", networkCreateArgs(spec));
+  if (r.stderr) throw execError(r);
+  return (r.stdout || "").trim();
+}
+
+export async function removeNetwork(idOrName: string) {
+  assertValid(validateReference("network", idOrName, "network"));
+  const r = await dockerExec("network", ["rm", idOrName]);
+  if (r.stderr) throw execError(r);
+}
+
+export type ConnectOptions = {
+  aliases?: string[];
+  ipv4?: string;
+  ipv6?: string;
+  linkLocalIps?: string[];
+  driverOpts?: Record<string, string>;
+};
+
+export async function connectContainer(network: string, container: string, opts: ConnectOptions = {}) {
+  assertValid(validateConnect(network, container, opts));
+  const args = ["connect"];
+  (opts.aliases || []).forEach((a) => args.push("--alias", a));
+  if (opts.ipv4) args.push("--ip", quoteArg(opts.ipv4));
+  if (opts.ipv6) args.push("--ip6", quoteArg(opts.ipv6));
+  (opts.linkLocalIps || []).forEach((ip) => args.push("--link-local-ip", quoteArg(ip)));
+  args.push(...keyValueArgs("--driver-opt", opts.driverOpts));
+  args.push(network, container);
+  const r = await dockerExec("network", args);
+  if (r.stderr) throw execError(r);
+}
+
+export async function disconnectContainer(network: string, container: string, force: boolean) {
+  assertValid([...validateReference("network", network, "network"), ...validateReference("container", container, "container")]);
+  const args = ["disconnect"];
+  if (force) args.push("--force");
+  args.push(network, container);
+  const r = await dockerExec("network", args);
+  if (r.stderr) throw execError(r);
+}
+
+/**
+ * Subscribes to network events plus container start/die, which change endpoint
+ * addresses. onClose fires when the stream ends for any reason.
+ */
+export function watchNetworkEvents(
+  onEvent: (event: DockerEvent) => void,
+  onClose: () => void
+): StreamHandle {
+  const filters = [
+    "type=network",
+    "type=container",
+    "event=create",
+    "event=destroy",
+    "event=remove",
+    "event=connect",
+    "event=disconnect",
+    "event=update",
+    "event=start",
+    "event=die",
+  ];
+  return dockerStream("events", [...filters.flatMap((f) => ["--filter", f]), "--format", JSON_FORMAT], {
+    onLine(line) {
+      try {
+        onEvent(JSON.parse(line) as DockerEvent);
+      } catch {
+        console.warn("Ignoring malformed docker event:", line);
+      }
+    },
+    onError(error) {
+      console.warn("Docker event stream error:", error);
+      onClose();
+    },
+    onClose: () => onClose(),
+  });
+}
@@ -0,0 +1,109 @@
+import type { IPAMConfig, NetworkInspect } from "./types";
+
+export type DiffStatus = "same" | "changed" | "added" | "removed";
+
+export type DiffRow = {
+  key: string;
+  /** Value on the left side, undefined when the key only exists on the right */
+  left?: string;
+  right?: string;
+  status: DiffStatus;
+};
+
+export type DiffSection = {
+  title: string;
+  rows: DiffRow[];
+};
+
+/** One row across any number of networks; undefined where a network lacks the key. */
+export type CompareRow = {
+  key: string;
+  values: (string | undefined)[];
+  differs: boolean;
+};
+
+export type CompareSection = {
+  title: string;
+  rows: CompareRow[];
+};
+
+const SECTIONS = ["General", "IPAM", "Options", "Labels", "Containers"] as const;
+
+type Section = (typeof SECTIONS)[number];
+
+function flag(value: boolean | undefined) {
+  return value ? "true" : "false";
+}
+
+function describePool(c: IPAMConfig) {
+  const parts = [];
+  if (c.Gateway) parts.push(`gateway ${c.Gateway}`);
+  if (c.IPRange) parts.push(`ip-range ${c.IPRange}`);
+  for (const [k, v] of Object.entries(c.AuxiliaryAddresses || {})) parts.push(`aux ${k}=${v}`);
+  return parts.join(", ") || "—";
+}
+
+/**
+ * The comparable facts about a network, keyed by section. Name, ID and creation
+ * time are left out since they always differ between networks. Pools are keyed by
+ * subnet (by position when they have none) and containers by name.
+ */
+function networkFields(net: NetworkInspect): Record<Section, Map<string, string>> {
+  const pools = (net.IPAM?.Config || []).map((c, i) => [c.Subnet || `pool ${i + 1}`, describePool(c)] as const);
+  const containers = Object.values(net.Containers || {}).map(
+    (c) => [c.Name, [c.IPv4Address, c.IPv6Address].filter(Boolean).join(", ") || "no address"] as const
+  );
+  return {
+    General: new Map([
+      ["Driver", net.Driver],
+      ["Scope", net.Scope],
+      ["Internal", flag(net.Internal)],
+      ["Attachable", flag(net.Attachable)],
+      ["IPv6", flag(net.EnableIPv6)],
+      ["Config only", flag(net.ConfigOnly)],
+      ["Config from", net.ConfigFrom?.Network || "—"],
+    ]),
+    IPAM: new Map([
+      ["IPAM driver", net.IPAM?.Driver || "default"],
+      ...pools,
+      ...Object.entries(net.IPAM?.Options || {}),
+    ]),
+    Options: new Map(Object.entries(net.Options || {}).sort(([a], [b]) => a.localeCompare(b))),
+    Labels: new Map(Object.entries(net.Labels || {}).sort(([a], [b]) => a.localeCompare(b))),
+    Containers: new Map(containers.sort(([a], [b]) => a.localeCompare(b))),
+  };
+}
+
+/** Lines up any number of networks field by field; missing networks leave their column empty. */
+export function compareNetworks(networks: (NetworkInspect | undefined)[]): CompareSection[] {
+  const fields = networks.map((n) => (n ? networkFields(n) : undefined));
+  return SECTIONS.map((title) => {
+    const keys: string[] = [];
+    for (const f of fields) f?.[title].forEach((_, k) => !keys.includes(k) && keys.push(k));
+    return {
+      title,
+      rows: keys.map((key) => {
+        const values = fields.map((f) => f?.[title].get(key));
+        const present = fields.filter(Boolean).map((f) => f![title].get(key));
+        return { key, values, differs: present.some((v) => v !== present[0]) };
+      }),
+    };
+  });
+}
+
+/** Structured comparison of two networks (or one network at two points in time). */
+export function diffNetworks(left: NetworkInspect, right: NetworkInspect): DiffSection[] {
+  return compareNetworks([left, right]).map((section) => ({
+    title: section.title,
+    rows: section.rows.map(({ key, values: [l, r] }) => ({
+      key,
+      left: l,
+      right: r,
+      status: l === r ? "same" : l === undefined ? "added" : r === undefined ? "removed" : "changed",
+    })),
+  }));
+}
+
+export function countDifferences(sections: DiffSection[]) {
+  return sections.reduce((sum, s) => sum + s.rows.filter((r) => r.status !== "same").length, 0);
+}
@@ -0,0 +1,204 @@
+import YAML from "yaml";
+
+import { COMPOSE_NETWORK_LABEL } from "./compose";
+import type { NetworkInspect } from "./types";
+
+export type IpamPoolSpec = {
+  subnet?: string;
+  ipRange?: string;
+  gateway?: string;
+  auxAddresses?: Record<string, string>;
+};
+
+/**
+ * Portable definition of a network: everything `docker network create` needs to
+ * recreate it, without runtime state such as IDs or attached containers.
+ */
+export type NetworkSpec = {
+  name: string;
+  driver: string;
+  attachable?: boolean;
+  internal?: boolean;
+  ipv6?: boolean;
+  options?: Record<string, string>;
+  labels?: Record<string, string>;
+  ipamDriver?: string;
+  ipamOptions?: Record<string, string>;
+  pools?: IpamPoolSpec[];
+  /** Only defines configuration for other networks (`--config-only`) */
+  configOnly?: boolean;
+  /** Name of a config-only network to take configuration from */
+  configFrom?: string;
+  /** "local", "swarm" or "global"; omitted to use the driver's default */
+  scope?: string;
+};
+
+const SPEC_VERSION = 1;
+
+function nonEmpty<T extends object>(obj?: T | null): T | undefined {
+  return obj && Object.keys(obj).length > 0 ? obj : undefined;
+}
+
+export function specFromInspect(net: NetworkInspect): NetworkSpec {
+  const configFrom = net.ConfigFrom?.Network || undefined;
+  // A network created from a config-only network inherits its IPAM and options
+  if (configFrom) {
+    return {
+      name: net.Name,
+      driver: net.Driver,
+      attachable: net.Attachable || undefined,
+      internal: net.Internal || undefined,
+      labels: nonEmpty(net.Labels),
+      configFrom,
+      scope: net.Scope && net.Scope !== defaultScope(net.Driver) ? net.Scope : undefined,
+    };
+  }
+
+  const ipamDriver = net.IPAM?.Driver && net.IPAM.Driver !== "default" ? net.IPAM.Driver : undefined;
+  const pools = (net.IPAM?.Config || []).map((c) => ({
+    subnet: c.Subnet || undefined,
+    ipRange: c.IPRange || undefined,
+    gateway: c.Gateway || undefined,
+    auxAddresses: nonEmpty(c.AuxiliaryAddresses),
+  }));
+  return {
+    name: net.Name,
+    driver: net.Driver,
+    attachable: net.Attachable || undefined,
+    internal: net.Internal || undefined,
+    ipv6: net.EnableIPv6 || undefined,
+    options: nonEmpty(net.Options),
+    labels: nonEmpty(net.Labels),
+    ipamDriver,
+    ipamOptions: nonEmpty(net.IPAM?.Options),
+    pools: pools.length ? pools : undefined,
+    configOnly: net.ConfigOnly || undefined,
+    scope: net.Scope && net.Scope !== defaultScope(net.Driver) ? net.Scope : undefined,
+  };
+}
+
+function defaultScope(driver: string) {
+  return driver === "overlay" ? "swarm" : "local";
+}
+
+export function toSpecJson(specs: NetworkSpec[]): string {
+  return JSON.stringify({ version: SPEC_VERSION, networks: specs }, null, 2);
+}
+
+/**
+ * Renders specs as a Compose top-level `networks:` block. Keys use the compose
+ * network label when present so the block can be pasted back into its project.
+ * Compose has no equivalent of config-only networks or scope, so those are dropped.
+ */
+export function toComposeYaml(specs: NetworkSpec[]): string {
+  const networks: Record<string, any> = {};
+  for (const spec of specs) {
+    const key = spec.labels?.[COMPOSE_NETWORK_LABEL] || spec.name;
+    const ipamConfig = (spec.pools || []).map((p) => ({
+      subnet: p.subnet,
+      ip_range: p.ipRange,
+      gateway: p.gateway,
+      aux_addresses: p.auxAddresses,
+    }));
+    networks[key] = {
+      name: spec.name,
+      driver: spec.driver,
+      driver_opts: spec.options,
+      attachable: spec.attachable,
+      internal: spec.internal,
+      enable_ipv6: spec.ipv6,
+      labels: spec.labels,
+      ipam:
+        spec.ipamDriver || spec.ipamOptions || ipamConfig.length
+          ? {
+              driver: spec.ipamDriver,
+              options: spec.ipamOptions,
+              config: ipamConfig.length ? ipamConfig : undefined,
+            }
+          : undefined,
+    };
+  }
+  // YAML.stringify drops undefined values, so optional fields simply disappear
+  return YAML.stringify({ networks });
+}
+
+function toStringMap(value: unknown, field: string): Record<string, string> | undefined {
+  if (value == null) return undefined;
+  // Compose allows labels as a list of "key=value" strings
+  if (Array.isArray(value)) {
+    const result: Record<string, string> = {};
+    for (const item of value) {
+      const text = String(item);
+      const eq = text.indexOf("=");
+      result[eq >= 0 ? text.slice(0, eq) : text] = eq >= 0 ? text.slice(eq + 1) : "";
+    }
+    return nonEmpty(result);
+  }
+  if (typeof value !== "object") throw new Error(`"${field}" must be a map`);
+  return nonEmpty(Object.fromEntries(Object.entries(value).map(([k, v]) => [k, String(v ?? "")])));
+}
+
+function specFromCompose(key: string, def: any): NetworkSpec {
+  if (def?.external) throw new Error(`Network "${key}" is external and cannot be recreated`);
+  const ipam = def?.ipam || {};
+  const config: any[] = Array.isArray(ipam.config) ? ipam.config : [];
+  return {
+    name: def?.name || key,
+    driver: def?.driver || "bridge",
+    attachable: def?.attachable || undefined,
+    internal: def?.internal || undefined,
+    ipv6: def?.enable_ipv6 || undefined,
+    options: toStringMap(def?.driver_opts, "driver_opts"),
+    labels: toStringMap(def?.labels, "labels"),
+    ipamDriver: ipam.driver && ipam.driver !== "default" ? ipam.driver : undefined,
+    ipamOptions: toStringMap(ipam.options, "ipam.options"),
+    pools: config.length
+      ? config.map((c) => ({
+          subnet: c.subnet || undefined,
+          ipRange: c.ip_range || undefined,
+          gateway: c.gateway || undefined,
+          auxAddresses: toStringMap(c.aux_addresses, "aux_addresses"),
+        }))
+      : undefined,
+  };
+}
+
+function validateSpec(spec: any, index: number): NetworkSpec {
+  if (!spec || typeof spec !== "object") throw new Error(`Network #${index + 1} is not an object`);
+  if (typeof spec.name !== "string" || !spec.name) throw new Error(`Network #${index + 1} has no name`);
+  if (spec.pools !== undefined && !Array.isArray(spec.pools)) throw new Error(`"${spec.name}": pools must be a list`);
+  return { ...spec, driver: spec.driver || "bridge" } as NetworkSpec;
+}
+
+/**
+ * Parses text produced by toSpecJson or toComposeYaml. A whole compose file is
+ * accepted too; only its top-level `networks:` block is read.
+ */
+export function parseSpecs(text: string): NetworkSpec[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    let doc: any;
+    try {
+      doc = JSON.parse(trimmed);
+    } catch (e: any) {
+      throw new Error(`Invalid JSON: ${e.message}`);
+    }
+    const list = Array.isArray(doc) ? doc : doc?.networks;
+    if (!Array.isArray(list)) throw new Error('Expected a "networks" list');
+    return list.map(validateSpec);
+  }
+
+  let doc: any;
+  try {
+    doc = YAML.parse(trimmed);
+  } catch (e: any) {
+    throw new Error(`Invalid YAML: ${e.message}`);
+  }
+  const networks = doc?.networks;
+  if (!networks || typeof networks !== "object" || Array.isArray(networks)) {
+    throw new Error('Expected a top-level "networks:" block');
+  }
+  return Object.entries(networks).map(([key, def]) => specFromCompose(key, def));
+}
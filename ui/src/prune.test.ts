@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import { parsePruneFilters, parseUntil, pruneCandidates } from "./prune";
+import type { NetworkInspect } from "./types";
+
+const NOW = Date.parse("2026-01-31T00:00:00Z");
+
+function network(name: string, extra: Partial<NetworkInspect> = {}): NetworkInspect {
+  return { Name: name, Id: `${name}-id`, Driver: "bridge", Scope: "local", Created: "2026-01-01T00:00:00Z", ...extra };
+}
+
+function names(networks: NetworkInspect[]) {
+  return networks.map((n) => n.Name);
+}
+
+describe("pruneCandidates", () => {
+  it("skips system networks and networks with containers", () => {
+    const busy = network("busy", {
+      Containers: { c1: { Name: "web", EndpointID: "e1", MacAddress: "", IPv4Address: "", IPv6Address: "" } },
+    });
+    expect(names(pruneCandidates([network("bridge"), busy, network("idle")], { labels: [] }, NOW))).toEqual(["idle"]);
+  });
+
+  it("skips config-only networks another network takes its config from", () => {
+    const candidates = pruneCandidates(
+      [
+        network("by-name", { ConfigOnly: true }),
+        network("by-id", { ConfigOnly: true }),
+        network("unused-config", { ConfigOnly: true }),
+        network("app", { ConfigFrom: { Network: "by-name" } }),
+        network("api", { ConfigFrom: { Network: "by-id-id" } }),
+      ],
+      { labels: [] },
+      NOW
+    );
+    expect(names(candidates)).toEqual(["unused-config", "app", "api"]);
+  });
+
+  it("applies label and until filters", () => {
+    const networks = [
+      network("keep", { Labels: { keep: "true" } }),
+      network("old"),
+      network("new", { Created: "2026-01-30T12:00:00Z" }),
+    ];
+    expect(names(pruneCandidates(networks, parsePruneFilters(["label!=keep", "until=24h"]), NOW))).toEqual(["old"]);
+  });
+});
+
+describe("parseUntil", () => {
+  it("reads Go durations, Unix timestamps and dates", () => {
+    expect(parseUntil("1h30m", NOW)).toBe(NOW - 90 * 60 * 1000);
+    expect(parseUntil("1700000000", NOW)).toBe(1700000000 * 1000);
+    expect(parseUntil("2026-01-01T00:00:00Z", NOW)).toBe(Date.parse("2026-01-01T00:00:00Z"));
+    expect(parseUntil("soon", NOW)).toBeNull();
+  });
+});
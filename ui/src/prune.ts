@@ -0,0 +1,91 @@
+import { SYSTEM_NETWORKS } from "./networkApi";
+import type { NetworkInspect } from "./types";
+
+/** Same filters `docker network prune --filter` accepts */
+export type PruneFilters = {
+  /** `key`, `key=value`, `!key` or `!key=value` */
+  labels: string[];
+  /** Go duration (e.g. 24h, 1h30m) or timestamp; only networks created before it are pruned */
+  until?: string;
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+};
+
+/**
+ * Resolves an `until=` value to a cut-off time in milliseconds. Accepts Go
+ * durations relative to now, Unix timestamps and anything Date.parse reads.
+ * Returns null if the value isn't understood.
+ */
+export function parseUntil(value: string, now = Date.now()): number | null {
+  const text = value.trim();
+  if (!text) return null;
+  if (/^(\d+(\.\d+)?(ms|s|m|h))+$/.test(text)) {
+    let total = 0;
+    for (const [, amount, , unit] of text.matchAll(/(\d+(\.\d+)?)(ms|s|m|h)/g)) {
+      total += Number(amount) * DURATION_UNITS[unit];
+    }
+    return now - total;
+  }
+  if (/^\d+(\.\d+)?$/.test(text)) return Number(text) * 1000;
+  const parsed = Date.parse(text);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function matchesLabel(labels: Record<string, string>, filter: string) {
+  const eq = filter.indexOf("=");
+  if (eq < 0) return filter in labels;
+  const key = filter.slice(0, eq);
+  return key in labels && labels[key] === filter.slice(eq + 1);
+}
+
+/**
+ * Parses filters written as for `docker network prune --filter`: `label=<key>`,
+ * `label=<key>=<value>`, `label!=...` and `until=<duration|timestamp>`.
+ */
+export function parsePruneFilters(args: string[]): PruneFilters {
+  const filters: PruneFilters = { labels: [] };
+  for (const arg of args) {
+    const text = arg.trim();
+    const m = /^(label!?|until)=(.*)$/.exec(text);
+    if (!m) throw new Error(`Unsupported filter "${text}"; use label=, label!= or until=`);
+    const [, name, value] = m;
+    if (name === "until") {
+      if (parseUntil(value) === null) throw new Error(`"${value}" is not a duration (e.g. 24h) or timestamp`);
+      filters.until = value;
+    } else {
+      if (!value.replace(/=.*$/, "").trim()) throw new Error(`Filter "${text}" has no label key`);
+      filters.labels.push(name === "label!" ? `!${value}` : value);
+    }
+  }
+  return filters;
+}
+
+/**
+ * Picks the networks `docker network prune` would remove: user networks with
+ * no containers attached, and no network taking its config from them, that match every filter.
+ */
+export function pruneCandidates(networks: NetworkInspect[], filters: PruneFilters, now = Date.now()): NetworkInspect[] {
+  const cutoff = filters.until?.trim() ? parseUntil(filters.until, now) : null;
+  // The daemon refuses to remove a config-only network while another network uses it
+  const configSources = new Set(networks.map((n) => n.ConfigFrom?.Network).filter(Boolean));
+  return networks.filter((net) => {
+    if (SYSTEM_NETWORKS.has(net.Name)) return false;
+    if (Object.keys(net.Containers || {}).length > 0) return false;
+    if (configSources.has(net.Name) || configSources.has(net.Id)) return false;
+    const labels = net.Labels || {};
+    for (const f of filters.labels) {
+      const negated = f.startsWith("!");
+      if (matchesLabel(labels, negated ? f.slice(1) : f) === negated) return false;
+    }
+    if (cutoff !== null) {
+      const created = net.Created ? Date.parse(net.Created) : NaN;
+      if (Number.isNaN(created) || created >= cutoff) return false;
+    }
+    return true;
+  });
+}
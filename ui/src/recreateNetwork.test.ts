@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { setExecBackend } from "./api";
+import { listContainers } from "./containerApi";
+import { createNetwork, inspectNetwork } from "./networkApi";
+import { recreateNetwork } from "./recreateNetwork";
+import { createDockerSimulator, type DockerSimulator } from "./simulator";
+
+let sim: DockerSimulator;
+
+beforeEach(() => {
+  sim = createDockerSimulator();
+  setExecBackend(sim);
+});
+
+afterEach(() => setExecBackend(null));
+
+describe("recreateNetwork", () => {
+  it("moves running and stopped containers to the new network", async () => {
+    await createNetwork({ name: "app", driver: "bridge", pools: [{ subnet: "10.10.0.0/24" }] });
+    sim.addContainer({ name: "web", image: "nginx:1.27", networks: [{ name: "app", aliases: ["www"] }] });
+    sim.addContainer({ name: "worker", image: "busybox", running: false, networks: [{ name: "app", aliases: ["jobs"] }] });
+    const original = await inspectNetwork("app");
+
+    const ok = await recreateNetwork(original, { name: "app", driver: "bridge", pools: [{ subnet: "10.20.0.0/24" }] }, () => {});
+
+    expect(ok).toBe(true);
+    const recreated = await inspectNetwork("app");
+    expect(recreated.Id).not.toBe(original.Id);
+    expect(recreated.IPAM?.Config?.[0].Subnet).toBe("10.20.0.0/24");
+    const attached = await listContainers([`network=${recreated.Id}`]);
+    expect(attached.map((c) => c.Names).sort()).toEqual(["web", "worker"]);
+    expect(sim.state.containers.get(attached.find((c) => c.Names === "worker")!.ID)!.endpoints.get(recreated.Id)?.aliases).toEqual([
+      "jobs",
+    ]);
+  });
+});
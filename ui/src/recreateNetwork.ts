@@ -0,0 +1,174 @@
+import { parseDockerError } from "./api";
+import { inspectContainers, listContainers } from "./containerApi";
+import { cidrContainsIp, parseCidr, parseIp } from "./ipam";
+import {
+  connectContainer,
+  createNetwork,
+  disconnectContainer,
+  removeNetwork,
+  type ConnectOptions,
+} from "./networkApi";
+import { specFromInspect, type NetworkSpec } from "./networkSpec";
+import type { ContainerInspect, NetworkInspect, OperationStep } from "./types";
+
+export type RecreateProgress = {
+  steps: OperationStep[];
+  /** Rollback steps, only present once a step has failed */
+  rollback?: OperationStep[];
+  finished: boolean;
+  ok: boolean;
+};
+
+type Attachment = {
+  id: string;
+  name: string;
+  /** How the container was connected to the original network */
+  original: ConnectOptions;
+};
+
+function staticAddressFits(address: string | undefined, pools: NetworkSpec["pools"]): boolean {
+  const ip = address ? parseIp(address) : null;
+  if (!ip) return false;
+  return (pools || []).some((p) => {
+    const block = p.subnet ? parseCidr(p.subnet) : null;
+    return !!block && cidrContainsIp(block, ip);
+  });
+}
+
+/** Keeps aliases, link-local IPs and driver options always, and static IPs only if they still fit one of the new subnets. */
+function optionsForSpec(original: ConnectOptions, spec: NetworkSpec): ConnectOptions {
+  return {
+    aliases: original.aliases,
+    ipv4: staticAddressFits(original.ipv4, spec.pools) ? original.ipv4 : undefined,
+    ipv6: staticAddressFits(original.ipv6, spec.pools) ? original.ipv6 : undefined,
+    linkLocalIps: original.linkLocalIps,
+    driverOpts: original.driverOpts,
+  };
+}
+
+/** The `docker network connect` options that reproduce a container's endpoint on a network. */
+export function connectOptionsFromEndpoint(c: ContainerInspect, networkName: string): ConnectOptions {
+  const ep = c.NetworkSettings.Networks?.[networkName];
+  // Docker adds the short container ID as an alias itself; passing it back is harmless but noisy
+  const aliases = (ep?.Aliases || []).filter((a) => a !== c.Id.slice(0, 12));
+  const linkLocalIps = ep?.IPAMConfig?.LinkLocalIPs || [];
+  return {
+    aliases: aliases.length ? aliases : undefined,
+    ipv4: ep?.IPAMConfig?.IPv4Address || undefined,
+    ipv6: ep?.IPAMConfig?.IPv6Address || undefined,
+    linkLocalIps: linkLocalIps.length ? linkLocalIps : undefined,
+    driverOpts: ep?.DriverOpts && Object.keys(ep.DriverOpts).length ? ep.DriverOpts : undefined,
+  };
+}
+
+async function loadAttachments(net: NetworkInspect): Promise<Attachment[]> {
+  // Inspect only lists running endpoints; stopped containers would keep pointing at the removed network
+  const rows = await listContainers([`network=${net.Id}`]);
+  const containers = await inspectContainers(rows.map((r) => r.ID));
+  return containers.map((c) => ({
+    id: c.Id,
+    name: c.Name.replace(/^\//, ""),
+    original: connectOptionsFromEndpoint(c, net.Name),
+  }));
+}
+
+/**
+ * Recreates a network with new settings, since Docker can't change a network's
+ * subnet, flags or name in place: disconnect every container, remove, create,
+ * reconnect. If any step fails, completed steps are undone in reverse so the
+ * original network and its attachments are restored.
+ */
+export async function recreateNetwork(
+  original: NetworkInspect,
+  spec: NetworkSpec,
+  onProgress: (progress: RecreateProgress) => void
+): Promise<boolean> {
+  const progress: RecreateProgress = { steps: [], finished: false, ok: false };
+  const emit = () =>
+    onProgress({
+      ...progress,
+      steps: progress.steps.map((s) => ({ ...s })),
+      rollback: progress.rollback?.map((s) => ({ ...s })),
+    });
+
+  async function run(step: OperationStep, fn: () => Promise<unknown>) {
+    step.status = "running";
+    emit();
+    try {
+      await fn();
+      step.status = "done";
+    } catch (e: any) {
+      step.status = "failed";
+      step.error = parseDockerError(e);
+      throw e;
+    } finally {
+      emit();
+    }
+  }
+
+  const inspectStep: OperationStep = { label: "Read container endpoint settings", status: "pending" };
+  progress.steps.push(inspectStep);
+  let attachments: Attachment[] = [];
+  try {
+    await run(inspectStep, async () => {
+      attachments = await loadAttachments(original);
+    });
+  } catch {
+    progress.finished = true;
+    emit();
+    return false;
+  }
+
+  const disconnectSteps = attachments.map((a): OperationStep => ({ label: `Disconnect ${a.name}`, status: "pending" }));
+  const removeStep: OperationStep = { label: `Remove network ${original.Name}`, status: "pending" };
+  const createStep: OperationStep = { label: `Create network ${spec.name}`, status: "pending" };
+  const reconnectSteps = attachments.map((a): OperationStep => ({ label: `Reconnect ${a.name}`, status: "pending" }));
+  progress.steps.push(...disconnectSteps, removeStep, createStep, ...reconnectSteps);
+  emit();
+
+  const disconnected: Attachment[] = [];
+  const reconnected: Attachment[] = [];
+  let removed = false;
+  let created = false;
+
+  try {
+    for (let i = 0; i < attachments.length; i++) {
+      await run(disconnectSteps[i], () => disconnectContainer(original.Id, attachments[i].id, false));
+      disconnected.push(attachments[i]);
+    }
+    await run(removeStep, () => removeNetwork(original.Id));
+    removed = true;
+    await run(createStep, () => createNetwork(spec));
+    created = true;
+    for (let i = 0; i < attachments.length; i++) {
+      const a = attachments[i];
+      await run(reconnectSteps[i], () => connectContainer(spec.name, a.id, optionsForSpec(a.original, spec)));
+      reconnected.push(a);
+    }
+    progress.ok = true;
+  } catch {
+    progress.steps.forEach((s) => {
+      if (s.status === "pending") s.status = "skipped";
+    });
+    progress.rollback = [];
+
+    // Undo in reverse order; keep going on errors so as much as possible is restored
+    const undo = async (label: string, fn: () => Promise<unknown>) => {
+      const step: OperationStep = { label, status: "pending" };
+      progress.rollback!.push(step);
+      await run(step, fn).catch(() => undefined);
+    };
+    for (const a of [...reconnected].reverse()) {
+      await undo(`Disconnect ${a.name} from ${spec.name}`, () => disconnectContainer(spec.name, a.id, true));
+    }
+    if (created) await undo(`Remove network ${spec.name}`, () => removeNetwork(spec.name));
+    if (removed) await undo(`Recreate network ${original.Name}`, () => createNetwork(specFromInspect(original)));
+    for (const a of [...disconnected].reverse()) {
+      await undo(`Reconnect ${a.name} to ${original.Name}`, () => connectContainer(original.Name, a.id, a.original));
+    }
+  }
+
+  progress.finished = true;
+  emit();
+  return progress.ok;
+}
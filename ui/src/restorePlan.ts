@@ -0,0 +1,124 @@
+import { listContainers } from "./containerApi";
+import { trackConnect, trackCreate, trackDisconnect, trackRemove } from "./history";
+import { SYSTEM_NETWORKS, inspectNetworks, listNetworks, type ConnectOptions } from "./networkApi";
+import { specFromInspect, type NetworkSpec } from "./networkSpec";
+import type { EnvironmentSnapshot } from "./snapshots";
+
+export type RestoreStep =
+  | { kind: "disconnect"; network: string; container: string }
+  | { kind: "remove"; network: string; reason: "extra" | "changed" }
+  | { kind: "create"; network: string; spec: NetworkSpec }
+  | { kind: "connect"; network: string; container: string; options: ConnectOptions };
+
+export type RestorePlan = {
+  /** In the order they must run: disconnects, removes, creates, connects */
+  steps: RestoreStep[];
+  /** Containers the snapshot attaches that don't exist any more */
+  missingContainers: string[];
+};
+
+// JSON with sorted keys, so specs compare equal regardless of the order Docker printed maps in
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    entries.sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Works out what it takes to make the current user networks match the snapshot.
+ * Networks whose configuration changed are recreated, since Docker can't change
+ * them in place. With removeExtra, user networks the snapshot doesn't know are removed.
+ */
+export async function planRestore(snapshot: EnvironmentSnapshot, removeExtra: boolean): Promise<RestorePlan> {
+  const rows = (await listNetworks()).filter((r) => !SYSTEM_NETWORKS.has(r.Name));
+  const current = new Map((await inspectNetworks(rows.map((r) => r.ID))).map((n) => [n.Name, n]));
+  const existing = new Set((await listContainers()).flatMap((c) => c.Names.split(",")));
+
+  const disconnects: RestoreStep[] = [];
+  const removes: RestoreStep[] = [];
+  const creates: RestoreStep[] = [];
+  const connects: RestoreStep[] = [];
+  const missing = new Set<string>();
+
+  const wanted = new Map(snapshot.networks.map((n) => [n.Name, n]));
+
+  function disconnectAll(name: string) {
+    for (const c of Object.values(current.get(name)?.Containers || {})) {
+      disconnects.push({ kind: "disconnect", network: name, container: c.Name });
+    }
+  }
+
+  function connectFromSnapshot(name: string, skip: Set<string> = new Set()) {
+    for (const a of snapshot.attachments.filter((a) => a.network === name && !skip.has(a.container))) {
+      if (existing.has(a.container)) {
+        connects.push({ kind: "connect", network: name, container: a.container, options: a.options });
+      } else {
+        missing.add(a.container);
+      }
+    }
+  }
+
+  if (removeExtra) {
+    for (const name of current.keys()) {
+      if (wanted.has(name)) continue;
+      disconnectAll(name);
+      removes.push({ kind: "remove", network: name, reason: "extra" });
+    }
+  }
+
+  for (const [name, net] of wanted) {
+    const spec = specFromInspect(net);
+    const live = current.get(name);
+    if (!live) {
+      creates.push({ kind: "create", network: name, spec });
+      connectFromSnapshot(name);
+    } else if (canonical(specFromInspect(live)) !== canonical(spec)) {
+      disconnectAll(name);
+      removes.push({ kind: "remove", network: name, reason: "changed" });
+      creates.push({ kind: "create", network: name, spec });
+      connectFromSnapshot(name);
+    } else {
+      const attachedNow = new Set(Object.values(live.Containers || {}).map((c) => c.Name));
+      const attachedThen = new Set(snapshot.attachments.filter((a) => a.network === name).map((a) => a.container));
+      for (const c of attachedNow) {
+        if (!attachedThen.has(c)) disconnects.push({ kind: "disconnect", network: name, container: c });
+      }
+      connectFromSnapshot(name, attachedNow);
+    }
+  }
+
+  return { steps: [...disconnects, ...removes, ...creates, ...connects], missingContainers: Array.from(missing).sort() };
+}
+
+export function describeStep(step: RestoreStep): string {
+  switch (step.kind) {
+    case "disconnect":
+      return `Disconnect ${step.container} from ${step.network}`;
+    case "remove":
+      return step.reason === "changed"
+        ? `Remove ${step.network} (configuration differs from the snapshot)`
+        : `Remove ${step.network} (not in the snapshot)`;
+    case "create":
+      return `Create ${step.network}`;
+    case "connect":
+      return `Connect ${step.container} to ${step.network}`;
+  }
+}
+
+/** Runs one step through the history helpers, so a restore can be undone step by step. */
+export function runStep(step: RestoreStep): Promise<unknown> {
+  switch (step.kind) {
+    case "disconnect":
+      return trackDisconnect(step.network, step.container, false);
+    case "remove":
+      return trackRemove(step.network);
+    case "create":
+      return trackCreate(step.spec);
+    case "connect":
+      return trackConnect(step.network, step.container, step.options);
+  }
+}
@@ -0,0 +1,284 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { dockerExec, setExecBackend } from "./api";
+import {
+  connectContainer,
+  createNetwork,
+  disconnectContainer,
+  inspectNetwork,
+  listNetworks,
+  removeNetwork,
+} from "./networkApi";
+import type { NetworkSpec } from "./networkSpec";
+import { createDockerSimulator, type DockerSimulator } from "./simulator";
+import { ValidationError } from "./validation";
+
+let sim: DockerSimulator;
+
+beforeEach(() => {
+  sim = createDockerSimulator();
+  setExecBackend(sim);
+});
+
+afterEach(() => setExecBackend(null));
+
+/** The stderr a command fails with */
+async function stderrOf(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise;
+  } catch (e: any) {
+    return e.stderr;
+  }
+  throw new Error("Expected the command to fail");
+}
+
+function bridge(name: string, spec: Omit<Partial<NetworkSpec>, "name"> = {}): NetworkSpec {
+  return { name, driver: "bridge", ...spec };
+}
+
+function addWeb(networks: { name: string; aliases?: string[] }[] = []) {
+  return sim.addContainer({ name: "web", image: "nginx:1.27", networks });
+}
+
+describe("network ls", () => {
+  it("starts with the predefined networks", async () => {
+    const rows = await listNetworks();
+    expect(rows.map((r) => [r.Name, r.Driver])).toEqual([
+      ["bridge", "bridge"],
+      ["host", "host"],
+      ["none", "null"],
+    ]);
+  });
+
+  it("lists created networks by name", async () => {
+    await createNetwork(bridge("zeta"));
+    await createNetwork(bridge("alpha", { internal: true }));
+    const rows = await listNetworks();
+    expect(rows.map((r) => r.Name)).toEqual(["alpha", "bridge", "host", "none", "zeta"]);
+    expect((await inspectNetwork("alpha")).Internal).toBe(true);
+  });
+});
+
+describe("network inspect", () => {
+  it("finds a network by name, full ID or ID prefix", async () => {
+    const id = await createNetwork(bridge("app"));
+    expect((await inspectNetwork("app")).Id).toBe(id);
+    expect((await inspectNetwork(id)).Name).toBe("app");
+    expect((await inspectNetwork(id.slice(0, 12))).Name).toBe("app");
+  });
+
+  it("fails for an unknown network", async () => {
+    expect(await stderrOf(dockerExec("network", ["inspect", "nope"]))).toBe("Error: No such network: nope");
+  });
+
+  it("prints the networks it found when some are missing", async () => {
+    await createNetwork(bridge("app"));
+    const error: any = await dockerExec("network", ["inspect", "app", "nope"]).catch((e) => e);
+    expect(error.stderr).toBe("Error: No such network: nope");
+    expect(JSON.parse(error.stdout).map((n: any) => n.Name)).toEqual(["app"]);
+  });
+});
+
+describe("network create", () => {
+  it("allocates the next default pool", async () => {
+    await createNetwork(bridge("one"));
+    await createNetwork(bridge("two"));
+    expect((await inspectNetwork("one")).IPAM?.Config).toEqual([{ Subnet: "172.18.0.0/16", Gateway: "172.18.0.1" }]);
+    expect((await inspectNetwork("two")).IPAM?.Config).toEqual([{ Subnet: "172.19.0.0/16", Gateway: "172.19.0.1" }]);
+  });
+
+  it("keeps user-configured pools, options and labels", async () => {
+    await createNetwork(
+      bridge("app", {
+        pools: [{ subnet: "10.30.0.0/16", ipRange: "10.30.1.0/24", gateway: "10.30.0.254" }],
+        options: { "com.docker.network.driver.mtu": "1400" },
+        labels: { team: "platform ops" },
+      })
+    );
+    const net = await inspectNetwork("app");
+    expect(net.IPAM?.Config).toEqual([{ Subnet: "10.30.0.0/16", IPRange: "10.30.1.0/24", Gateway: "10.30.0.254" }]);
+    expect(net.Options).toEqual({ "com.docker.network.driver.mtu": "1400" });
+    expect(net.Labels).toEqual({ team: "platform ops" });
+  });
+
+  it("rejects a duplicate name", async () => {
+    await createNetwork(bridge("app"));
+    expect(await stderrOf(createNetwork(bridge("app")))).toBe("Error response from daemon: network with name app already exists");
+  });
+
+  it("rejects an overlapping subnet", async () => {
+    await createNetwork(bridge("one", { pools: [{ subnet: "10.40.0.0/16" }] }));
+    expect(await stderrOf(createNetwork(bridge("two", { pools: [{ subnet: "10.40.8.0/24" }] })))).toBe(
+      "Error response from daemon: invalid pool request: Pool overlaps with other one on this address space"
+    );
+  });
+
+  it("rejects a gateway outside every subnet", async () => {
+    const r = dockerExec("network", ["create", "--subnet", "10.50.0.0/24", "--gateway", "10.60.0.1", "app"]);
+    expect(await stderrOf(r)).toBe("no matching subnet for gateway 10.60.0.1");
+  });
+
+  it("rejects unknown flags like the CLI", async () => {
+    expect(await stderrOf(dockerExec("network", ["create", "--bogus", "app"]))).toBe(
+      "unknown flag: --bogus\nSee 'docker network create --help'."
+    );
+  });
+});
+
+describe("network rm", () => {
+  it("removes an unused network", async () => {
+    await createNetwork(bridge("app"));
+    await removeNetwork("app");
+    expect((await listNetworks()).map((r) => r.Name)).not.toContain("app");
+  });
+
+  it("refuses predefined networks", async () => {
+    expect(await stderrOf(dockerExec("network", ["rm", "bridge"]))).toBe(
+      "Error response from daemon: bridge is a pre-defined network and cannot be removed"
+    );
+  });
+
+  it("refuses networks with running containers", async () => {
+    const id = await createNetwork(bridge("app"));
+    addWeb([{ name: "app" }]);
+    expect(await stderrOf(removeNetwork("app"))).toBe(
+      `Error response from daemon: error while removing network: network app id ${id} has active endpoints`
+    );
+  });
+
+  it("reports a missing network", async () => {
+    expect(await stderrOf(removeNetwork("nope"))).toBe("Error response from daemon: network nope not found");
+  });
+});
+
+describe("network prune", () => {
+  it("removes only unused user networks", async () => {
+    await createNetwork(bridge("used"));
+    await createNetwork(bridge("unused"));
+    addWeb([{ name: "used" }]);
+    const r = await dockerExec("network", ["prune", "--force"]);
+    expect(r.stdout).toBe("Deleted Networks:\nunused\n");
+    expect((await listNetworks()).map((n) => n.Name)).toEqual(["bridge", "host", "none", "used"]);
+  });
+
+  it("applies label filters", async () => {
+    await createNetwork(bridge("keep", { labels: { keep: "true" } }));
+    await createNetwork(bridge("drop"));
+    const r = await dockerExec("network", ["prune", "--force", "--filter", "label!=keep"]);
+    expect(r.stdout).toBe("Deleted Networks:\ndrop\n");
+  });
+
+  it("keeps config-only networks that another network uses", async () => {
+    await createNetwork(bridge("base", { configOnly: true, pools: [{ subnet: "10.60.0.0/24" }] }));
+    await createNetwork(bridge("spare", { configOnly: true, pools: [{ subnet: "10.61.0.0/24" }] }));
+    await createNetwork({ name: "app", driver: "bridge", configFrom: "base" });
+    addWeb([{ name: "app" }]);
+    const r = await dockerExec("network", ["prune", "--force"]);
+    expect(r.stdout).toBe("Deleted Networks:\nspare\n");
+  });
+
+  it("prints nothing when there is nothing to prune", async () => {
+    expect((await dockerExec("network", ["prune", "--force"])).stdout).toBe("");
+  });
+});
+
+describe("network connect", () => {
+  it("hands out addresses after the gateway, in order", async () => {
+    await createNetwork(bridge("app", { pools: [{ subnet: "10.70.0.0/24", gateway: "10.70.0.1" }] }));
+    sim.addContainer({ name: "one", image: "alpine", networks: [{ name: "app" }] });
+    addWeb();
+    await connectContainer("app", "web", { aliases: ["www"] });
+    const containers = Object.values((await inspectNetwork("app")).Containers || {});
+    expect(containers.map((c) => [c.Name, c.IPv4Address])).toEqual([
+      ["one", "10.70.0.2/24"],
+      ["web", "10.70.0.3/24"],
+    ]);
+  });
+
+  it("allocates from the IP range and skips aux addresses", async () => {
+    await createNetwork(
+      bridge("app", {
+        pools: [{ subnet: "10.80.0.0/16", ipRange: "10.80.5.0/24", gateway: "10.80.0.1", auxAddresses: { router: "10.80.5.1" } }],
+      })
+    );
+    addWeb();
+    await connectContainer("app", "web");
+    expect(Object.values((await inspectNetwork("app")).Containers || {})[0].IPv4Address).toBe("10.80.5.2/16");
+  });
+
+  it("assigns a requested static address", async () => {
+    await createNetwork(bridge("app", { pools: [{ subnet: "10.90.0.0/24" }] }));
+    addWeb();
+    await connectContainer("app", "web", { ipv4: "10.90.0.50" });
+    expect(Object.values((await inspectNetwork("app")).Containers || {})[0].IPv4Address).toBe("10.90.0.50/24");
+  });
+
+  it("rejects a static address on a network without user subnets", async () => {
+    await createNetwork(bridge("app"));
+    addWeb();
+    expect(await stderrOf(connectContainer("app", "web", { ipv4: "172.18.0.9" }))).toBe(
+      "Error response from daemon: user specified IP address is supported only when connecting to networks with user configured subnets"
+    );
+  });
+
+  it("rejects an address that is already taken", async () => {
+    await createNetwork(bridge("app", { pools: [{ subnet: "10.91.0.0/24", gateway: "10.91.0.1" }] }));
+    addWeb();
+    expect(await stderrOf(connectContainer("app", "web", { ipv4: "10.91.0.1" }))).toBe(
+      "Error response from daemon: Address already in use"
+    );
+  });
+
+  it("rejects a second endpoint for the same container", async () => {
+    await createNetwork(bridge("app"));
+    addWeb([{ name: "app" }]);
+    expect(await stderrOf(connectContainer("app", "web"))).toBe(
+      "Error response from daemon: endpoint with name web already exists in network app"
+    );
+  });
+
+  it("rejects aliases on the default bridge", async () => {
+    addWeb();
+    expect(await stderrOf(connectContainer("bridge", "web", { aliases: ["www"] }))).toBe(
+      "Error response from daemon: network-scoped alias is supported only for containers in user defined networks"
+    );
+  });
+
+  it("reports an exhausted pool", async () => {
+    const id = await createNetwork(bridge("tiny", { pools: [{ subnet: "10.99.0.0/30", gateway: "10.99.0.1" }] }));
+    sim.addContainer({ name: "one", image: "alpine", networks: [{ name: "tiny" }] });
+    addWeb();
+    expect(await stderrOf(connectContainer("tiny", "web"))).toBe(
+      `Error response from daemon: no available IPv4 addresses on this network's address pools: tiny (${id})`
+    );
+  });
+
+  it("validates arguments before running anything", async () => {
+    await expect(connectContainer("app", "web", { ipv6: "fd00::5%x --privileged" })).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe("network disconnect", () => {
+  it("frees the endpoint's address", async () => {
+    await createNetwork(bridge("app", { pools: [{ subnet: "10.100.0.0/24" }] }));
+    addWeb([{ name: "app" }]);
+    await disconnectContainer("app", "web", false);
+    expect((await inspectNetwork("app")).Containers).toEqual({});
+    sim.addContainer({ name: "next", image: "alpine", networks: [{ name: "app" }] });
+    expect(Object.values((await inspectNetwork("app")).Containers || {})[0].IPv4Address).toBe("10.100.0.2/24");
+  });
+
+  it("reports a container that isn't connected", async () => {
+    await createNetwork(bridge("app"));
+    const id = addWeb();
+    expect(await stderrOf(disconnectContainer("app", "web", false))).toBe(
+      `Error response from daemon: container ${id} is not connected to network app`
+    );
+  });
+
+  it("ignores a missing container with --force", async () => {
+    await createNetwork(bridge("app"));
+    await expect(disconnectContainer("app", "gone", true)).resolves.toBeUndefined();
+    expect(await stderrOf(disconnectContainer("app", "gone", false))).toBe("Error response from daemon: No such container: gone");
+  });
+});
@@ -0,0 +1,1020 @@
+import type { ExecBackend, ExecResult, StreamHandlers } from "./api";
+import { COMPOSE_NETWORK_LABEL, COMPOSE_PROJECT_LABEL, COMPOSE_SERVICE_LABEL } from "./compose";
+import { cidrContainsCidr, cidrContainsIp, cidrsOverlap, formatIp, parseCidr, parseIp, type ParsedCidr } from "./ipam";
+import { parsePruneFilters, pruneCandidates } from "./prune";
+import type {
+  ContainerInspect,
+  ContainerListRow,
+  DockerEvent,
+  EndpointSettings,
+  NetworkInspect,
+  NetworkListRow,
+  PortBinding,
+} from "./types";
+
+/*
+ * A stateful stand-in for the docker CLI, used when Docker Desktop isn't there
+ * (browser dev server, automated tests). It implements the commands the UI runs
+ * with Docker's own allocation rules and error messages; anything else fails
+ * the way an unknown command would.
+ */
+
+type SimPool = { subnet: string; ipRange?: string; gateway: string; auxAddresses: Record<string, string> };
+
+type SimEndpoint = {
+  endpointId: string;
+  mac: string;
+  ipv4?: string;
+  ipv6?: string;
+  aliases: string[];
+  driverOpts: Record<string, string>;
+  /** Static addresses requested with --ip/--ip6 */
+  staticIpv4?: string;
+  staticIpv6?: string;
+  linkLocalIps: string[];
+};
+
+type SimNetwork = {
+  id: string;
+  name: string;
+  driver: string;
+  scope: string;
+  created: Date;
+  internal: boolean;
+  attachable: boolean;
+  ipv6: boolean;
+  configOnly: boolean;
+  configFrom?: string;
+  ipamDriver: string;
+  ipamOptions: Record<string, string>;
+  options: Record<string, string>;
+  labels: Record<string, string>;
+  pools: SimPool[];
+  /** Subnets came from the user rather than the default address pools */
+  userSubnets: boolean;
+};
+
+type SimContainer = {
+  id: string;
+  name: string;
+  image: string;
+  running: boolean;
+  created: Date;
+  labels: Record<string, string>;
+  ports: Record<string, PortBinding[] | null>;
+  /** Endpoint per network ID, in connection order */
+  endpoints: Map<string, SimEndpoint>;
+};
+
+export type SimulatorState = {
+  networks: Map<string, SimNetwork>;
+  containers: Map<string, SimContainer>;
+};
+
+export type DockerSimulator = ExecBackend & {
+  state: SimulatorState;
+  /** Adds a container the way `docker run -d` would, attached to the given networks */
+  addContainer: (spec: SimContainerSpec) => string;
+};
+
+export type SimContainerSpec = {
+  name: string;
+  image: string;
+  running?: boolean;
+  labels?: Record<string, string>;
+  /** e.g. { "80/tcp": [{ HostIp: "0.0.0.0", HostPort: "8080" }] } */
+  ports?: Record<string, PortBinding[] | null>;
+  networks?: { name: string; aliases?: string[] }[];
+};
+
+const PREDEFINED = ["bridge", "host", "none"];
+
+// Docker's default address pools: /16s from 172.17-31, then /20s from 192.168.0.0/16
+const DEFAULT_V4_POOLS: string[] = [
+  ...Array.from({ length: 15 }, (_, i) => `172.${17 + i}.0.0/16`),
+  ...Array.from({ length: 16 }, (_, i) => `192.168.${i * 16}.0/20`),
+];
+const DEFAULT_V6_POOLS: string[] = Array.from({ length: 256 }, (_, i) => `fd00:db8:${i.toString(16)}::/64`);
+
+const NETWORK_NAME = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+
+/** What a failed command rejects with, matching the Extensions SDK */
+class ExecError extends Error {
+  stdout: string;
+  stderr: string;
+  code: number;
+  constructor(stderr: string, stdout = "") {
+    super(stderr);
+    this.stderr = stderr;
+    this.stdout = stdout;
+    this.code = 1;
+  }
+}
+
+function daemonError(message: string) {
+  return new ExecError(`Error response from daemon: ${message}`);
+}
+
+function randomHex(length: number) {
+  const bytes = new Uint8Array(Math.ceil(length / 2));
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("").slice(0, length);
+}
+
+function randomMac() {
+  const bytes = new Uint8Array(5);
+  crypto.getRandomValues(bytes);
+  return ["02", ...Array.from(bytes, (b) => b.toString(16).padStart(2, "0"))].join(":");
+}
+
+/** Undoes quoteArg/JSON_FORMAT quoting, as the SDK's shell-style splitting would */
+function unquote(arg: string) {
+  if (arg.length >= 2 && arg.startsWith('"') && arg.endsWith('"')) {
+    return arg.slice(1, -1).replace(/\\(["\\])/g, "$1");
+  }
+  return arg;
+}
+
+function splitKeyValue(text: string): [string, string] {
+  const eq = text.indexOf("=");
+  return eq >= 0 ? [text.slice(0, eq), text.slice(eq + 1)] : [text, ""];
+}
+
+function labelString(labels: Record<string, string>) {
+  return Object.entries(labels)
+    .map(([k, v]) => `${k}=${v}`)
+    .join(",");
+}
+
+/** `network ls` prints Go's time format */
+function goTime(date: Date) {
+  const iso = date.toISOString();
+  return `${iso.slice(0, 10)} ${iso.slice(11, 19)}.${iso.slice(20, 23)}000000 +0000 UTC`;
+}
+
+type ParsedArgs = { flags: Map<string, string[]>; positional: string[] };
+
+/**
+ * Parses CLI flags. `boolFlags` take no value; every other flag in `valueFlags`
+ * takes one, given as `--flag value` or `--flag=value`. Short names map to long ones.
+ */
+function parseArgs(
+  command: string,
+  args: string[],
+  valueFlags: string[],
+  boolFlags: string[],
+  shortNames: Record<string, string> = {}
+): ParsedArgs {
+  const flags = new Map<string, string[]>();
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = unquote(args[i]);
+    if (!arg.startsWith("-") || arg === "-") {
+      positional.push(arg);
+      continue;
+    }
+    let [name, inline] = arg.includes("=") ? splitKeyValue(arg) : [arg, undefined as string | undefined];
+    name = shortNames[name] || name;
+    const key = name.replace(/^--?/, "");
+    if (boolFlags.includes(key)) {
+      flags.set(key, [...(flags.get(key) || []), inline ?? "true"]);
+    } else if (valueFlags.includes(key)) {
+      const value = inline ?? (i + 1 < args.length ? unquote(args[++i]) : undefined);
+      if (value === undefined) throw new ExecError(`flag needs an argument: ${name}\nSee 'docker ${command} --help'.`);
+      flags.set(key, [...(flags.get(key) || []), value]);
+    } else {
+      throw new ExecError(`unknown flag: ${name}\nSee 'docker ${command} --help'.`);
+    }
+  }
+  return { flags, positional };
+}
+
+function mapFlag(parsed: ParsedArgs, flag: string): Record<string, string> {
+  return Object.fromEntries((parsed.flags.get(flag) || []).map(splitKeyValue));
+}
+
+function lastFlag(parsed: ParsedArgs, flag: string) {
+  return parsed.flags.get(flag)?.slice(-1)[0];
+}
+
+function firstHost(block: ParsedCidr) {
+  return formatIp({ version: block.version, value: block.start + 1n });
+}
+
+export function createDockerSimulator(options: { demo?: boolean } = {}): DockerSimulator {
+  const state: SimulatorState = { networks: new Map(), containers: new Map() };
+  const listeners = new Set<StreamHandlers>();
+
+  function emit(action: string, id: string, attributes: Record<string, string>) {
+    const now = Date.now();
+    const event: DockerEvent = {
+      Type: "network",
+      Action: action,
+      Actor: { ID: id, Attributes: attributes },
+      scope: "local",
+      time: Math.floor(now / 1000),
+      timeNano: now * 1_000_000,
+    };
+    const line = JSON.stringify(event);
+    // Deliver asynchronously, like a real event stream
+    listeners.forEach((l) => setTimeout(() => l.onLine(line), 0));
+  }
+
+  // Like the daemon: full ID, then exact name, then an unambiguous ID prefix
+  function findNetwork(ref: string): SimNetwork | undefined {
+    const all = Array.from(state.networks.values());
+    const byPrefix = ref ? all.filter((n) => n.id.startsWith(ref)) : [];
+    return all.find((n) => n.id === ref) || all.find((n) => n.name === ref) || (byPrefix.length === 1 ? byPrefix[0] : undefined);
+  }
+
+  function findContainer(ref: string): SimContainer | undefined {
+    const all = Array.from(state.containers.values());
+    const name = ref.replace(/^\//, "");
+    const byPrefix = ref ? all.filter((c) => c.id.startsWith(ref)) : [];
+    return all.find((c) => c.id === ref) || all.find((c) => c.name === name) || (byPrefix.length === 1 ? byPrefix[0] : undefined);
+  }
+
+  function requireNetwork(ref: string) {
+    const net = findNetwork(ref);
+    if (!net) throw daemonError(`network ${ref} not found`);
+    return net;
+  }
+
+  function requireContainer(ref: string) {
+    const c = findContainer(ref);
+    if (!c) throw daemonError(`No such container: ${ref}`);
+    return c;
+  }
+
+  /** Pools of a network, following --config-from */
+  function poolsOf(net: SimNetwork): SimPool[] {
+    if (net.configFrom) {
+      const from = findNetwork(net.configFrom);
+      return from ? from.pools : [];
+    }
+    return net.pools;
+  }
+
+  function allocatedBlocks(excludeId?: string) {
+    return Array.from(state.networks.values())
+      .filter((n) => !n.configOnly && n.id !== excludeId)
+      .flatMap((n) => poolsOf(n).map((p) => parseCidr(p.subnet)))
+      .filter((b): b is ParsedCidr => !!b);
+  }
+
+  function defaultPool(version: 4 | 6): SimPool {
+    const taken = allocatedBlocks();
+    for (const subnet of version === 4 ? DEFAULT_V4_POOLS : DEFAULT_V6_POOLS) {
+      const block = parseCidr(subnet)!;
+      if (!taken.some((t) => cidrsOverlap(t, block))) return { subnet, gateway: firstHost(block), auxAddresses: {} };
+    }
+    throw daemonError(
+      "could not find an available, non-overlapping IPv" + version + " address pool among the defaults to assign to the network"
+    );
+  }
+
+  function usedAddresses(net: SimNetwork, version: 4 | 6) {
+    const used = new Set<bigint>();
+    for (const c of state.containers.values()) {
+      const ep = c.endpoints.get(net.id);
+      const addr = version === 4 ? ep?.ipv4 : ep?.ipv6;
+      if (addr) used.add(parseIp(addr.split("/")[0])!.value);
+    }
+    return used;
+  }
+
+  /** Picks the next free address, or validates a static one, the way Docker's IPAM does */
+  function allocate(net: SimNetwork, version: 4 | 6, requested?: string): string | undefined {
+    const pools = poolsOf(net)
+      .map((p) => ({ pool: p, block: parseCidr(p.subnet)! }))
+      .filter((p) => p.block && p.block.version === version);
+    if (pools.length === 0) {
+      if (requested) throw daemonError(`Invalid address ${requested}: It does not belong to any of this network's subnets`);
+      return undefined;
+    }
+    const used = usedAddresses(net, version);
+    const reserved = (p: SimPool) =>
+      new Set([p.gateway, ...Object.values(p.auxAddresses)].map((a) => parseIp(a)?.value).filter((v) => v !== undefined));
+
+    if (requested) {
+      const ip = parseIp(requested);
+      const match = ip && pools.find((p) => cidrContainsIp(p.block, ip));
+      if (!ip || !match) throw daemonError(`Invalid address ${requested}: It does not belong to any of this network's subnets`);
+      if (used.has(ip.value) || reserved(match.pool).has(ip.value)) throw daemonError("Address already in use");
+      return `${formatIp(ip)}/${match.block.prefix}`;
+    }
+
+    for (const { pool, block } of pools) {
+      const range = (pool.ipRange && parseCidr(pool.ipRange)) || block;
+      const skip = reserved(pool);
+      const last = version === 4 ? range.end - 1n : range.end;
+      // Stop after a few thousand candidates; IPv6 /64s are effectively endless
+      for (let v = range.start + 1n, n = 0; v <= last && n < 65536; v++, n++) {
+        if (v === block.start || (version === 4 && v === block.end)) continue;
+        if (!used.has(v) && !skip.has(v)) return `${formatIp({ version, value: v })}/${block.prefix}`;
+      }
+    }
+    throw daemonError(`no available IPv${version} addresses on this network's address pools: ${net.name} (${net.id})`);
+  }
+
+  function attachAddresses(c: SimContainer, net: SimNetwork, ep: SimEndpoint) {
+    if (!c.running || net.driver === "host" || net.driver === "null") return;
+    ep.ipv4 = allocate(net, 4, ep.staticIpv4);
+    ep.ipv6 = net.ipv6 ? allocate(net, 6, ep.staticIpv6) : undefined;
+  }
+
+  function addNetwork(spec: Partial<SimNetwork> & { name: string; pools?: SimPool[] }): SimNetwork {
+    const net: SimNetwork = {
+      id: randomHex(64),
+      driver: "bridge",
+      scope: "local",
+      created: new Date(),
+      internal: false,
+      attachable: false,
+      ipv6: false,
+      configOnly: false,
+      ipamDriver: "default",
+      ipamOptions: {},
+      options: {},
+      labels: {},
+      pools: [],
+      userSubnets: false,
+      ...spec,
+    };
+    state.networks.set(net.id, net);
+    return net;
+  }
+
+  function addContainer(spec: SimContainerSpec): string {
+    const c: SimContainer = {
+      id: randomHex(64),
+      name: spec.name,
+      image: spec.image,
+      running: spec.running ?? true,
+      created: new Date(),
+      labels: spec.labels || {},
+      ports: spec.ports || {},
+      endpoints: new Map(),
+    };
+    state.containers.set(c.id, c);
+    for (const n of spec.networks || [{ name: "bridge" }]) {
+      const net = requireNetwork(n.name);
+      const ep: SimEndpoint = {
+        endpointId: randomHex(64),
+        mac: randomMac(),
+        aliases: n.aliases || [],
+        driverOpts: {},
+        linkLocalIps: [],
+      };
+      c.endpoints.set(net.id, ep);
+      attachAddresses(c, net, ep);
+    }
+    return c.id;
+  }
+
+  // ---- Rendering in the shapes the CLI prints ----
+
+  function inspectNetworkJson(net: SimNetwork): NetworkInspect {
+    const containers: NonNullable<NetworkInspect["Containers"]> = {};
+    for (const c of state.containers.values()) {
+      const ep = c.endpoints.get(net.id);
+      if (!ep || !c.running) continue;
+      containers[c.id] = {
+        Name: c.name,
+        EndpointID: ep.endpointId,
+        MacAddress: ep.mac,
+        IPv4Address: ep.ipv4 || "",
+        IPv6Address: ep.ipv6 || "",
+      };
+    }
+    const noIpam = net.driver === "host" || net.driver === "null";
+    return {
+      Name: net.name,
+      Id: net.id,
+      Created: net.created.toISOString(),
+      Scope: net.scope,
+      Driver: net.driver,
+      EnableIPv6: net.ipv6,
+      IPAM: {
+        Driver: net.ipamDriver,
+        Options: net.ipamOptions,
+        Config: noIpam || net.configFrom
+          ? []
+          : net.pools.map((p) => ({
+              Subnet: p.subnet,
+              IPRange: p.ipRange,
+              Gateway: p.gateway,
+              AuxiliaryAddresses: Object.keys(p.auxAddresses).length ? p.auxAddresses : undefined,
+            })),
+      },
+      Internal: net.internal,
+      Attachable: net.attachable,
+      ConfigFrom: { Network: net.configFrom || "" },
+      ConfigOnly: net.configOnly,
+      Containers: containers,
+      Options: net.options,
+      Labels: net.labels,
+    };
+  }
+
+  function networkRow(net: SimNetwork): NetworkListRow & Record<string, string> {
+    return {
+      CreatedAt: goTime(net.created),
+      Driver: net.driver,
+      ID: net.id,
+      IPv6: String(net.ipv6),
+      Internal: String(net.internal),
+      Labels: labelString(net.labels),
+      Name: net.name,
+      Scope: net.scope,
+    };
+  }
+
+  function inspectContainerJson(c: SimContainer): ContainerInspect {
+    const networks: Record<string, EndpointSettings> = {};
+    for (const [netId, ep] of c.endpoints) {
+      const net = state.networks.get(netId);
+      if (!net) continue;
+      const pools = poolsOf(net);
+      const v4Pool = pools.find((p) => parseCidr(p.subnet)?.version === 4);
+      const userDefined = !PREDEFINED.includes(net.name);
+      const shortId = c.id.slice(0, 12);
+      networks[net.name] = {
+        IPAMConfig:
+          ep.staticIpv4 || ep.staticIpv6 || ep.linkLocalIps.length
+            ? { IPv4Address: ep.staticIpv4, IPv6Address: ep.staticIpv6, LinkLocalIPs: ep.linkLocalIps }
+            : null,
+        Links: null,
+        Aliases: userDefined ? ep.aliases : null,
+        DNSNames: userDefined ? [c.name, ...ep.aliases, shortId] : null,
+        DriverOpts: Object.keys(ep.driverOpts).length ? ep.driverOpts : null,
+        NetworkID: c.running ? net.id : "",
+        EndpointID: c.running ? ep.endpointId : "",
+        Gateway: c.running && ep.ipv4 ? v4Pool?.gateway || "" : "",
+        IPAddress: ep.ipv4?.split("/")[0] || "",
+        IPPrefixLen: ep.ipv4 ? Number(ep.ipv4.split("/")[1]) : 0,
+        GlobalIPv6Address: ep.ipv6?.split("/")[0] || "",
+        MacAddress: c.running ? ep.mac : "",
+      };
+    }
+    return {
+      Id: c.id,
+      Name: `/${c.name}`,
+      State: { Status: c.running ? "running" : "exited", Running: c.running },
+      Config: { Image: c.image, Labels: c.labels },
+      HostConfig: { NetworkMode: state.networks.get(c.endpoints.keys().next().value ?? "")?.name || "none" },
+      NetworkSettings: { Networks: networks, Ports: c.running ? c.ports : {} },
+    };
+  }
+
+  function containerRow(c: SimContainer): ContainerListRow & Record<string, string> {
+    const ports = Object.entries(c.running ? c.ports : {})
+      .flatMap(([key, bindings]) => (bindings || []).map((b) => `${b.HostIp || "0.0.0.0"}:${b.HostPort}->${key}`))
+      .join(", ");
+    return {
+      ID: c.id,
+      Names: c.name,
+      Image: c.image,
+      State: c.running ? "running" : "exited",
+      Status: c.running ? "Up 2 hours" : "Exited (0) 3 hours ago",
+      Labels: labelString(c.labels),
+      Networks: Array.from(c.endpoints.keys())
+        .map((id) => state.networks.get(id)?.name)
+        .filter(Boolean)
+        .join(","),
+      Ports: ports,
+      CreatedAt: goTime(c.created),
+    };
+  }
+
+  function matchesPsFilter(c: SimContainer, filter: string) {
+    const [name, value] = splitKeyValue(filter);
+    switch (name) {
+      case "label": {
+        const [k, v] = splitKeyValue(value);
+        return value.includes("=") ? c.labels[k] === v : k in c.labels;
+      }
+      case "name":
+        return c.name.includes(value);
+      case "id":
+        return c.id.startsWith(value);
+      case "status":
+        return (c.running ? "running" : "exited") === value;
+      case "network":
+        return Array.from(c.endpoints.keys()).some((id) => id.startsWith(value) || state.networks.get(id)?.name === value);
+      default:
+        throw new ExecError(`Error response from daemon: invalid filter '${name}'`);
+    }
+  }
+
+  // ---- Commands ----
+
+  function networkCreate(args: string[]): string {
+    const parsed = parseArgs(
+      "network create",
+      args,
+      ["driver", "subnet", "ip-range", "gateway", "aux-address", "ipam-driver", "ipam-opt", "opt", "label", "config-from", "scope"],
+      ["attachable", "internal", "ipv6", "config-only", "ingress"],
+      { "-d": "--driver", "-o": "--opt" }
+    );
+    if (parsed.positional.length !== 1) {
+      throw new ExecError(`"docker network create" requires exactly 1 argument.\nSee 'docker network create --help'.`);
+    }
+    const name = parsed.positional[0];
+    if (!NETWORK_NAME.test(name)) throw daemonError(`invalid network name "${name}"`);
+    if (findNetwork(name)?.name === name) throw daemonError(`network with name ${name} already exists`);
+
+    const configFrom = lastFlag(parsed, "config-from");
+    const configOnly = parsed.flags.has("config-only");
+    if (!configOnly && (lastFlag(parsed, "driver") === "overlay" || lastFlag(parsed, "scope") === "swarm")) {
+      throw daemonError(
+        "This node is not a swarm manager. Use \"docker swarm init\" or \"docker swarm join\" to connect this node to swarm and try again."
+      );
+    }
+    if (configFrom) {
+      const from = findNetwork(configFrom);
+      if (!from) throw daemonError(`failed to get config network "${configFrom}": network ${configFrom} not found`);
+      if (!from.configOnly) throw daemonError(`network ${configFrom} is not a config-only network`);
+    }
+
+    // Pair ranges, gateways and aux addresses with the subnet that contains them, as the CLI does
+    const pools: SimPool[] = [];
+    for (const subnet of parsed.flags.get("subnet") || []) {
+      const block = parseCidr(subnet);
+      if (!block) throw daemonError(`invalid network config:\ninvalid subnet ${subnet}: invalid CIDR address: ${subnet}`);
+      pools.push({ subnet, gateway: "", auxAddresses: {} });
+    }
+    const blocks = pools.map((p) => parseCidr(p.subnet)!);
+    for (const range of parsed.flags.get("ip-range") || []) {
+      const rb = parseCidr(range);
+      const i = rb ? blocks.findIndex((b) => cidrContainsCidr(b, rb)) : -1;
+      if (i < 0) throw new ExecError(`no matching subnet for range ${range}`);
+      if (pools[i].ipRange) {
+        throw new ExecError(`cannot configure multiple ranges (${pools[i].ipRange}, ${range}) on the same subnet (${pools[i].subnet})`);
+      }
+      pools[i].ipRange = range;
+    }
+    for (const gateway of parsed.flags.get("gateway") || []) {
+      const ip = parseIp(gateway);
+      const i = ip ? blocks.findIndex((b) => cidrContainsIp(b, ip)) : -1;
+      if (i < 0) throw new ExecError(`no matching subnet for gateway ${gateway}`);
+      if (pools[i].gateway) {
+        throw new ExecError(`cannot configure multiple gateways (${pools[i].gateway}, ${gateway}) for the same subnet (${pools[i].subnet})`);
+      }
+      pools[i].gateway = gateway;
+    }
+    for (const aux of parsed.flags.get("aux-address") || []) {
+      const [host, addr] = splitKeyValue(aux);
+      const ip = parseIp(addr);
+      const i = ip ? blocks.findIndex((b) => cidrContainsIp(b, ip)) : -1;
+      if (i < 0) throw new ExecError(`no matching subnet for aux-address ${addr}`);
+      pools[i].auxAddresses[host] = addr;
+    }
+    pools.forEach((p, i) => {
+      if (!p.gateway) p.gateway = firstHost(blocks[i]);
+    });
+
+    const driver = configOnly ? "null" : lastFlag(parsed, "driver") || "bridge";
+    const ipv6 = parsed.flags.has("ipv6");
+    if (!configOnly && !configFrom) {
+      const taken = allocatedBlocks();
+      for (const block of blocks) {
+        if (taken.some((t) => cidrsOverlap(t, block))) {
+          throw daemonError("invalid pool request: Pool overlaps with other one on this address space");
+        }
+      }
+      if (!blocks.some((b) => b.version === 4)) pools.push(defaultPool(4));
+      if (ipv6 && !blocks.some((b) => b.version === 6)) pools.push(defaultPool(6));
+    }
+
+    const net = addNetwork({
+      name,
+      driver,
+      scope: lastFlag(parsed, "scope") || (driver === "overlay" ? "swarm" : "local"),
+      internal: parsed.flags.has("internal"),
+      attachable: parsed.flags.has("attachable"),
+      ipv6,
+      configOnly,
+      configFrom,
+      ipamDriver: lastFlag(parsed, "ipam-driver") || "default",
+      ipamOptions: mapFlag(parsed, "ipam-opt"),
+      options: mapFlag(parsed, "opt"),
+      labels: mapFlag(parsed, "label"),
+      pools,
+      userSubnets: blocks.length > 0,
+    });
+    emit("create", net.id, { name: net.name, type: net.driver });
+    return net.id + "\n";
+  }
+
+  function removeNetwork(net: SimNetwork) {
+    if (PREDEFINED.includes(net.name)) throw daemonError(`${net.name} is a pre-defined network and cannot be removed`);
+    const inUseBy = Array.from(state.networks.values()).find((n) => n.configFrom === net.name);
+    if (net.configOnly && inUseBy) throw daemonError(`configuration network "${net.name}" is in use`);
+    const active = Array.from(state.containers.values()).some((c) => c.running && c.endpoints.has(net.id));
+    if (active) throw daemonError(`error while removing network: network ${net.name} id ${net.id} has active endpoints`);
+    // Stopped containers simply lose their endpoint config
+    state.containers.forEach((c) => c.endpoints.delete(net.id));
+    state.networks.delete(net.id);
+    emit("destroy", net.id, { name: net.name, type: net.driver });
+  }
+
+  function networkRm(args: string[]): string {
+    const parsed = parseArgs("network rm", args, [], ["force"], { "-f": "--force" });
+    if (parsed.positional.length === 0) {
+      throw new ExecError(`"docker network rm" requires at least 1 argument.\nSee 'docker network rm --help'.`);
+    }
+    const removed: string[] = [];
+    const errors: string[] = [];
+    for (const ref of parsed.positional) {
+      try {
+        const net = findNetwork(ref);
+        if (!net) {
+          if (parsed.flags.has("force")) continue;
+          throw daemonError(`network ${ref} not found`);
+        }
+        removeNetwork(net);
+        removed.push(ref);
+      } catch (e: any) {
+        errors.push(e.stderr || String(e));
+      }
+    }
+    const stdout = removed.map((r) => r + "\n").join("");
+    if (errors.length) throw new ExecError(errors.join("\n"), stdout);
+    return stdout;
+  }
+
+  function networkPrune(args: string[]): string {
+    const parsed = parseArgs("network prune", args, ["filter"], ["force"], { "-f": "--force" });
+    let filters;
+    try {
+      filters = parsePruneFilters(parsed.flags.get("filter") || []);
+    } catch (e: any) {
+      throw daemonError(e.message);
+    }
+    const candidates = pruneCandidates(Array.from(state.networks.values()).map(inspectNetworkJson), filters);
+    candidates.forEach((n) => removeNetwork(state.networks.get(n.Id)!));
+    return candidates.length ? `Deleted Networks:\n${candidates.map((n) => n.Name + "\n").join("")}` : "";
+  }
+
+  function networkConnect(args: string[]): string {
+    const parsed = parseArgs("network connect", args, ["alias", "ip", "ip6", "link-local-ip", "driver-opt", "link"], []);
+    if (parsed.positional.length !== 2) {
+      throw new ExecError(`"docker network connect" requires exactly 2 arguments.\nSee 'docker network connect --help'.`);
+    }
+    const [netRef, containerRef] = parsed.positional;
+    const net = requireNetwork(netRef);
+    const c = requireContainer(containerRef);
+    if (net.driver === "host" || net.driver === "null") {
+      throw daemonError(`container cannot be disconnected from host network or connected to host network`);
+    }
+    if (net.configOnly) throw daemonError(`cannot attach to config-only network ${net.name}`);
+    if (c.endpoints.has(net.id)) throw daemonError(`endpoint with name ${c.name} already exists in network ${net.name}`);
+
+    const aliases = parsed.flags.get("alias") || [];
+    const staticIpv4 = lastFlag(parsed, "ip");
+    const staticIpv6 = lastFlag(parsed, "ip6");
+    const isDefaultBridge = net.name === "bridge";
+    if (isDefaultBridge && aliases.length) {
+      throw daemonError("network-scoped alias is supported only for containers in user defined networks");
+    }
+    if ((staticIpv4 || staticIpv6) && isDefaultBridge) {
+      throw daemonError("user specified IP address is supported on user defined networks only");
+    }
+    if ((staticIpv4 || staticIpv6) && !net.userSubnets && !net.configFrom) {
+      throw daemonError("user specified IP address is supported only when connecting to networks with user configured subnets");
+    }
+
+    const ep: SimEndpoint = {
+      endpointId: randomHex(64),
+      mac: randomMac(),
+      aliases,
+      driverOpts: mapFlag(parsed, "driver-opt"),
+      staticIpv4,
+      staticIpv6,
+      linkLocalIps: parsed.flags.get("link-local-ip") || [],
+    };
+    attachAddresses(c, net, ep);
+    c.endpoints.set(net.id, ep);
+    emit("connect", net.id, { container: c.id, name: net.name, type: net.driver });
+    return "";
+  }
+
+  function networkDisconnect(args: string[]): string {
+    const parsed = parseArgs("network disconnect", args, [], ["force"], { "-f": "--force" });
+    if (parsed.positional.length !== 2) {
+      throw new ExecError(`"docker network disconnect" requires exactly 2 arguments.\nSee 'docker network disconnect --help'.`);
+    }
+    const [netRef, containerRef] = parsed.positional;
+    const net = requireNetwork(netRef);
+    const c = findContainer(containerRef);
+    if (!c) {
+      // --force cleans up endpoints of containers that no longer exist
+      if (parsed.flags.has("force")) return "";
+      throw daemonError(`No such container: ${containerRef}`);
+    }
+    if (net.driver === "host") {
+      throw daemonError(`container cannot be disconnected from host network or connected to host network`);
+    }
+    if (!c.endpoints.has(net.id)) throw daemonError(`container ${c.id} is not connected to network ${net.name}`);
+    c.endpoints.delete(net.id);
+    emit("disconnect", net.id, { container: c.id, name: net.name, type: net.driver });
+    return "";
+  }
+
+  function inspectMany<T>(kind: string, refs: string[], find: (ref: string) => T | undefined, render: (item: T) => any) {
+    if (refs.length === 0) {
+      throw new ExecError(`"docker ${kind} inspect" requires at least 1 argument.\nSee 'docker ${kind} inspect --help'.`);
+    }
+    const found: any[] = [];
+    const missing: string[] = [];
+    for (const ref of refs) {
+      const item = find(ref);
+      if (item) found.push(render(item));
+      else missing.push(ref);
+    }
+    const stdout = JSON.stringify(found, null, 4) + "\n";
+    if (missing.length) {
+      const what = kind === "network" ? "network" : "container";
+      throw new ExecError(missing.map((m) => `Error: No such ${what}: ${m}`).join("\n"), stdout);
+    }
+    return stdout;
+  }
+
+  function formatRows(parsed: ParsedArgs, rows: object[]) {
+    const format = lastFlag(parsed, "format");
+    if (format && format !== "{{json .}}" && format !== "json") {
+      throw new ExecError(`the simulator only supports --format "{{json .}}"`);
+    }
+    return rows.map((r) => JSON.stringify(r) + "\n").join("");
+  }
+
+  // Interface counters grow while containers run, at a steady rate per endpoint, so traffic sampling has data
+  const traffic = new Map<string, { at: number; rx: number; tx: number; rxPackets: number; txPackets: number }>();
+
+  function endpointTraffic(ep: SimEndpoint) {
+    const now = Date.now();
+    const t = traffic.get(ep.endpointId) || { at: now, rx: 0, tx: 0, rxPackets: 0, txPackets: 0 };
+    const rate = 2000 + (parseInt(ep.endpointId.slice(0, 4), 16) % 64) * 3000;
+    const seconds = (now - t.at) / 1000;
+    const rx = Math.round(rate * seconds * (0.5 + Math.random()));
+    const tx = Math.round(rate * 0.4 * seconds * (0.5 + Math.random()));
+    const next = {
+      at: now,
+      rx: t.rx + rx,
+      tx: t.tx + tx,
+      rxPackets: t.rxPackets + Math.ceil(rx / 800),
+      txPackets: t.txPackets + Math.ceil(tx / 800),
+    };
+    traffic.set(ep.endpointId, next);
+    return next;
+  }
+
+  /** `docker exec`, limited to the reads traffic sampling does; interfaces are eth0… in connection order */
+  function containerExec(args: string[]): string {
+    const [ref, ...command] = args;
+    const c = requireContainer(ref);
+    if (!c.running) throw daemonError(`container ${c.id} is not running`);
+    const interfaces = Array.from(c.endpoints.values(), (ep, i) => ({ name: `eth${i}`, ep }));
+    if (command.join(" ") === "cat /proc/net/dev") {
+      const lines = [
+        "Inter-|   Receive                                                |  Transmit",
+        " face |bytes    packets errs drop fifo frame compressed multicast|bytes    packets errs drop fifo colls carrier compressed",
+        "    lo: 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0",
+        ...interfaces.map(({ name, ep }) => {
+          const t = endpointTraffic(ep);
+          return `  ${name}: ${t.rx} ${t.rxPackets} 0 0 0 0 0 0 ${t.tx} ${t.txPackets} 0 0 0 0 0 0`;
+        }),
+      ];
+      return lines.join("\n") + "\n";
+    }
+    if (command[0] === "tail") {
+      const files = command.filter((a) => a.startsWith("/"));
+      return files
+        .map((f) => {
+          const found = interfaces.find((i) => f === `/sys/class/net/${i.name}/address`);
+          if (!found) throw new ExecError(`tail: cannot open '${f}' for reading: No such file or directory`);
+          return `==> ${f} <==\n${found.ep.mac}\n`;
+        })
+        .join("\n");
+    }
+    throw new ExecError(
+      `OCI runtime exec failed: exec failed: unable to start container process: exec: "${command[0]}": executable file not found in $PATH: unknown`
+    );
+  }
+
+  function formatSize(bytes: number) {
+    return bytes < 1000 ? `${bytes}B` : bytes < 1e6 ? `${(bytes / 1e3).toFixed(1)}kB` : `${(bytes / 1e6).toFixed(1)}MB`;
+  }
+
+  function run(cmd: string, args: string[]): string {
+    if (cmd === "network") {
+      const [sub, ...rest] = args;
+      switch (sub) {
+        case "ls":
+        case "list": {
+          const parsed = parseArgs("network ls", rest, ["format", "filter"], ["no-trunc", "quiet"], { "-q": "--quiet", "-f": "--filter" });
+          const nets = Array.from(state.networks.values()).sort((a, b) => a.name.localeCompare(b.name));
+          return formatRows(parsed, nets.map(networkRow));
+        }
+        case "inspect": {
+          const parsed = parseArgs("network inspect", rest, ["format"], ["verbose"], { "-f": "--format", "-v": "--verbose" });
+          return inspectMany("network", parsed.positional, findNetwork, inspectNetworkJson);
+        }
+        case "create":
+          return networkCreate(rest);
+        case "rm":
+        case "remove":
+          return networkRm(rest);
+        case "prune":
+          return networkPrune(rest);
+        case "connect":
+          return networkConnect(rest);
+        case "disconnect":
+          return networkDisconnect(rest);
+      }
+      throw new ExecError(`docker: 'network ${sub}' is not a docker command.\nSee 'docker network --help'`);
+    }
+    if (cmd === "ps") {
+      const parsed = parseArgs("ps", args, ["filter", "format"], ["all", "no-trunc", "quiet"], {
+        "-a": "--all",
+        "-q": "--quiet",
+        "-f": "--filter",
+      });
+      const all = parsed.flags.has("all");
+      const filters = parsed.flags.get("filter") || [];
+      const rows = Array.from(state.containers.values())
+        .filter((c) => all || c.running)
+        .filter((c) => filters.every((f) => matchesPsFilter(c, f)))
+        .map(containerRow);
+      return formatRows(parsed, rows);
+    }
+    if (cmd === "container" && args[0] === "inspect") {
+      const parsed = parseArgs("container inspect", args.slice(1), ["format"], ["size"], { "-f": "--format", "-s": "--size" });
+      return inspectMany("container", parsed.positional, findContainer, inspectContainerJson);
+    }
+    if (cmd === "exec") {
+      return containerExec(args);
+    }
+    if (cmd === "stats") {
+      const parsed = parseArgs("stats", args, ["format"], ["no-stream", "no-trunc", "all"], { "-a": "--all" });
+      const rows = Array.from(state.containers.values())
+        .filter((c) => c.running)
+        .map((c) => {
+          const totals = Array.from(c.endpoints.values(), endpointTraffic);
+          const rx = totals.reduce((sum, t) => sum + t.rx, 0);
+          const tx = totals.reduce((sum, t) => sum + t.tx, 0);
+          return { ID: c.id, Name: c.name, NetIO: `${formatSize(rx)} / ${formatSize(tx)}` };
+        });
+      return formatRows(parsed, rows);
+    }
+    if (cmd === "info") {
+      const parsed = parseArgs("info", args, ["format"], [], { "-f": "--format" });
+      if (lastFlag(parsed, "format") !== "{{json .Swarm}}") {
+        throw new ExecError(`the simulator only supports docker info --format "{{json .Swarm}}"`);
+      }
+      // The simulated engine is never part of a swarm
+      return JSON.stringify({ NodeID: "", NodeAddr: "", LocalNodeState: "inactive", ControlAvailable: false }) + "\n";
+    }
+    throw new ExecError(`docker: '${[cmd, ...args.slice(0, 1)].join(" ")}' is not supported by the simulator`);
+  }
+
+  // A fresh engine starts with just the predefined networks
+  addNetwork({
+    name: "bridge",
+    pools: [{ subnet: "172.17.0.0/16", gateway: "172.17.0.1", auxAddresses: {} }],
+    options: { "com.docker.network.bridge.default_bridge": "true" },
+  });
+  addNetwork({ name: "host", driver: "host" });
+  addNetwork({ name: "none", driver: "null" });
+  if (options.demo) seedDemo();
+
+  /** Sample compose project and standalone containers for the dev server */
+  function seedDemo() {
+    const compose = (project: string, network: string) => ({
+      [COMPOSE_PROJECT_LABEL]: project,
+      [COMPOSE_NETWORK_LABEL]: network,
+      "com.docker.compose.version": "2.27.0",
+    });
+    addNetwork({ name: "shop_default", pools: [defaultPool(4)], labels: compose("shop", "default") });
+    addNetwork({
+      name: "shop_backend",
+      internal: true,
+      userSubnets: true,
+      pools: [{ subnet: "10.10.0.0/24", gateway: "10.10.0.1", auxAddresses: {} }],
+      labels: compose("shop", "backend"),
+    });
+    addNetwork({
+      name: "monitoring",
+      ipv6: true,
+      attachable: true,
+      userSubnets: true,
+      pools: [
+        { subnet: "10.20.0.0/16", ipRange: "10.20.5.0/24", gateway: "10.20.0.1", auxAddresses: {} },
+        { subnet: "fd00:20::/64", gateway: "fd00:20::1", auxAddresses: {} },
+      ],
+      options: { "com.docker.network.driver.mtu": "1400" },
+    });
+    addNetwork({ name: "scratch", created: new Date(Date.now() - 45 * 24 * 3600 * 1000), pools: [defaultPool(4)] });
+
+    const service = (project: string, name: string) => ({ [COMPOSE_PROJECT_LABEL]: project, [COMPOSE_SERVICE_LABEL]: name });
+    addContainer({
+      name: "shop-web-1",
+      image: "nginx:1.27",
+      labels: service("shop", "web"),
+      ports: { "80/tcp": [{ HostIp: "0.0.0.0", HostPort: "8080" }] },
+      networks: [{ name: "shop_default", aliases: ["web", "shop-web-1"] }],
+    });
+    addContainer({
+      name: "shop-api-1",
+      image: "node:20-alpine",
+      labels: service("shop", "api"),
+      networks: [
+        { name: "shop_default", aliases: ["api", "shop-api-1"] },
+        { name: "shop_backend", aliases: ["api", "shop-api-1"] },
+      ],
+    });
+    addContainer({
+      name: "shop-api-2",
+      image: "node:20-alpine",
+      labels: service("shop", "api"),
+      networks: [
+        { name: "shop_default", aliases: ["api", "shop-api-2"] },
+        { name: "shop_backend", aliases: ["api", "shop-api-2"] },
+      ],
+    });
+    addContainer({
+      name: "shop-db-1",
+      image: "postgres:16",
+      labels: service("shop", "db"),
+      ports: { "5432/tcp": [{ HostIp: "127.0.0.1", HostPort: "5432" }] },
+      networks: [
+        { name: "shop_backend", aliases: ["db", "shop-db-1"] },
+        { name: "bridge" },
+      ],
+    });
+    addContainer({ name: "prometheus", image: "prom/prometheus:v2.53.0", networks: [{ name: "monitoring" }] });
+    addContainer({ name: "redis", image: "redis:7", networks: [{ name: "bridge" }] });
+    addContainer({ name: "old-worker", image: "busybox:latest", running: false, networks: [{ name: "bridge" }] });
+  }
+
+  return {
+    state,
+    addContainer,
+    async exec(cmd: string, args: string[]): Promise<ExecResult> {
+      // Yield like a real round trip so callers can't depend on synchronous results
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      return { stdout: run(cmd, args), stderr: "", code: 0 };
+    },
+    stream(cmd: string, args: string[], handlers: StreamHandlers) {
+      if (cmd !== "events") {
+        setTimeout(() => handlers.onError?.(new ExecError(`docker: '${cmd}' streaming is not supported by the simulator`)), 0);
+        return { close: () => {} };
+      }
+      listeners.add(handlers);
+      return {
+        close: () => {
+          listeners.delete(handlers);
+          handlers.onClose?.(0);
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Several simulated engines behind `docker --context <name>`, with `docker context ls`
+ * listing them. Commands without --context go to the current one.
+ */
+export function createSimulatedContexts(engines: Record<string, ExecBackend>, current: string): ExecBackend {
+  function route(cmd: string, args: string[]): [ExecBackend, string, string[]] {
+    if (cmd !== "--context") return [engines[current], cmd, args];
+    const [name, next, ...rest] = args;
+    const engine = engines[unquote(name || "")];
+    if (!engine) {
+      throw new ExecError(`context "${name}" does not exist`);
+    }
+    return [engine, next, rest];
+  }
+
+  return {
+    async exec(cmd, args) {
+      const [engine, c, a] = route(cmd, args);
+      if (c === "context" && a[0] === "ls") {
+        const rows = Object.keys(engines).map((name) => ({
+          Name: name,
+          Description: name === current ? "Simulated Docker Desktop engine" : "Simulated remote engine",
+          DockerEndpoint: `simulator://${name}`,
+          Current: name === current,
+          Error: "",
+        }));
+        return { stdout: rows.map((r) => JSON.stringify(r) + "\n").join(""), stderr: "", code: 0 };
+      }
+      return engine.exec(c, a);
+    },
+    stream(cmd, args, handlers) {
+      const [engine, c, a] = route(cmd, args);
+      return engine.stream(c, a, handlers);
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import { inspectContainers } from "./containerApi";
+import { SYSTEM_NETWORKS, inspectNetworks, listNetworks, type ConnectOptions } from "./networkApi";
+import { connectOptionsFromEndpoint } from "./recreateNetwork";
+import type { NetworkInspect } from "./types";
+
+// Kept in the webview's localStorage like the operation history
+const NETWORK_SNAPSHOTS_KEY = "networks-ui.network-snapshots";
+const MAX_NETWORK_SNAPSHOTS = 100;
+const ENVIRONMENT_SNAPSHOTS_KEY = "networks-ui.environment-snapshots";
+const SNAPSHOT_FILE_VERSION = 1;
+
+/** A single network's inspect output saved at a point in time, for comparing against later. */
+export type NetworkSnapshot = {
+  id: string;
+  time: number;
+  network: NetworkInspect;
+};
+
+function newId() {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function loadNetworkSnapshots(): NetworkSnapshot[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(NETWORK_SNAPSHOTS_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeNetworkSnapshots(snapshots: NetworkSnapshot[]) {
+  localStorage.setItem(NETWORK_SNAPSHOTS_KEY, JSON.stringify(snapshots.slice(0, MAX_NETWORK_SNAPSHOTS)));
+}
+
+/** Saves a snapshot of the network, newest first. Throws if storage is full. */
+export function saveNetworkSnapshot(network: NetworkInspect): NetworkSnapshot {
+  const snapshot: NetworkSnapshot = { id: newId(), time: Date.now(), network };
+  storeNetworkSnapshots([snapshot, ...loadNetworkSnapshots()]);
+  return snapshot;
+}
+
+export function deleteNetworkSnapshot(id: string) {
+  storeNetworkSnapshots(loadNetworkSnapshots().filter((s) => s.id !== id));
+}
+
+/** How a container was attached to a network, by name so it survives containers being recreated */
+export type SnapshotAttachment = {
+  network: string;
+  container: string;
+  options: ConnectOptions;
+};
+
+/** Every user network and its container attachments, saved under a name. */
+export type EnvironmentSnapshot = {
+  id: string;
+  name: string;
+  time: number;
+  networks: NetworkInspect[];
+  attachments: SnapshotAttachment[];
+};
+
+export async function captureEnvironment(name: string): Promise<EnvironmentSnapshot> {
+  const rows = (await listNetworks()).filter((r) => !SYSTEM_NETWORKS.has(r.Name));
+  const networks = await inspectNetworks(rows.map((r) => r.ID));
+  const ids = Array.from(new Set(networks.flatMap((n) => Object.keys(n.Containers || {}))));
+  const containers = new Map((await inspectContainers(ids)).map((c) => [c.Id, c]));
+  const attachments: SnapshotAttachment[] = [];
+  for (const net of networks) {
+    for (const id of Object.keys(net.Containers || {})) {
+      const c = containers.get(id);
+      if (!c) continue;
+      attachments.push({
+        network: net.Name,
+        container: c.Name.replace(/^\//, ""),
+        options: connectOptionsFromEndpoint(c, net.Name),
+      });
+    }
+  }
+  return { id: newId(), name, time: Date.now(), networks, attachments };
+}
+
+export function loadEnvironmentSnapshots(): EnvironmentSnapshot[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(ENVIRONMENT_SNAPSHOTS_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Saves (or replaces, by ID) a snapshot. Throws if storage is full. */
+export function saveEnvironmentSnapshot(snapshot: EnvironmentSnapshot) {
+  const rest = loadEnvironmentSnapshots().filter((s) => s.id !== snapshot.id);
+  localStorage.setItem(ENVIRONMENT_SNAPSHOTS_KEY, JSON.stringify([snapshot, ...rest]));
+}
+
+export function deleteEnvironmentSnapshot(id: string) {
+  const rest = loadEnvironmentSnapshots().filter((s) => s.id !== id);
+  localStorage.setItem(ENVIRONMENT_SNAPSHOTS_KEY, JSON.stringify(rest));
+}
+
+export function environmentSnapshotFile(snapshot: EnvironmentSnapshot): string {
+  return JSON.stringify({ version: SNAPSHOT_FILE_VERSION, snapshot }, null, 2);
+}
+
+/** Reads a file written by environmentSnapshotFile. Throws with a readable message if it isn't one. */
+export function parseEnvironmentSnapshotFile(text: string): EnvironmentSnapshot {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  const s = parsed?.snapshot;
+  if (parsed?.version !== SNAPSHOT_FILE_VERSION || !s || !Array.isArray(s.networks) || !Array.isArray(s.attachments)) {
+    throw new Error("The file is not a network snapshot exported from this extension");
+  }
+  // A fresh ID so importing the same file twice doesn't clash with the stored copy
+  return { ...s, id: newId(), name: String(s.name || "Imported snapshot"), time: Number(s.time) || Date.now() };
+}
@@ -0,0 +1,47 @@
+import { dockerExec, execError } from "./api";
+import type { NetworkInspect, SwarmInfo, SwarmNetworkInspect } from "./types";
+
+const SWARM_FORMAT = '"{{json .Swarm}}"';
+const VXLAN_OPTION = "com.docker.network.driver.overlay.vxlanid_list";
+export const ENCRYPTED_OPTION = "encrypted";
+
+export async function getSwarmInfo(): Promise<SwarmInfo> {
+  const r = await dockerExec("info", ["--format", SWARM_FORMAT]);
+  if (r.stderr) throw execError(r);
+  try {
+    return JSON.parse(r.stdout || "");
+  } catch {
+    throw new Error("Unexpected docker info output");
+  }
+}
+
+/** Only managers can see services, tasks and peers of swarm networks. */
+export function isSwarmManager(info: SwarmInfo | null) {
+  return !!info && info.LocalNodeState === "active" && info.ControlAvailable;
+}
+
+export function isSwarmOverlay(net: NetworkInspect) {
+  return net.Driver === "overlay" && net.Scope === "swarm";
+}
+
+/** `--verbose` adds services with their tasks and the peer list for swarm-scoped networks. */
+export async function inspectSwarmNetwork(idOrName: string): Promise<SwarmNetworkInspect> {
+  const r = await dockerExec("network", ["inspect", "--verbose", idOrName]);
+  if (r.stderr) throw execError(r);
+  let net: SwarmNetworkInspect | undefined;
+  try {
+    [net] = JSON.parse(r.stdout || "[]");
+  } catch {
+    // Reported below
+  }
+  if (!net) throw new Error("Unexpected inspect output");
+  return net;
+}
+
+export function vxlanIds(net: NetworkInspect): string[] {
+  return (net.Options?.[VXLAN_OPTION] || "").split(",").filter(Boolean);
+}
+
+export function isEncrypted(net: NetworkInspect) {
+  return !!net.Options && ENCRYPTED_OPTION in net.Options;
+}
@@ -0,0 +1,379 @@
+import { JSON_FORMAT, dockerExec, parseJsonLines } from "./api";
+import type { NetworkInspect } from "./types";
+
+/*
+ * Per-network traffic from `docker stats`, which reports one rx/tx total per container:
+ * containers on a single network are attributed to it, those on several can't be split.
+ * Reading interface counters inside the containers is opt-in, since it runs `docker exec`
+ * in every container on each poll: counters come from /proc/net/dev, matched to networks
+ * by MAC address, and containers without cat or tail (distroless, scratch) still use the stats totals.
+ */
+
+const STORAGE_KEY = "networks-ui.traffic-interval";
+const PROBE_STORAGE_KEY = "networks-ui.traffic-probe-interfaces";
+
+/** Containers read at once when probing interfaces */
+const PROBE_CONCURRENCY = 4;
+
+/** Polling intervals on offer, in milliseconds; 0 turns sampling off */
+export const TRAFFIC_INTERVALS = [0, 2000, 5000, 10000, 30000];
+
+/** Points kept per sparkline */
+export const MAX_POINTS = 60;
+
+export type TrafficCounters = {
+  rxBytes: number;
+  txBytes: number;
+  // Only known when read from the container's interface
+  rxPackets?: number;
+  txPackets?: number;
+  rxErrors?: number;
+  txErrors?: number;
+  rxDropped?: number;
+  txDropped?: number;
+};
+
+/** A running container's endpoint on a network */
+export type TrafficEndpoint = {
+  networkId: string;
+  containerId: string;
+  containerName: string;
+  mac: string;
+};
+
+export type EndpointSample = TrafficEndpoint & {
+  counters: TrafficCounters;
+  /** False when taken from `docker stats` totals rather than the interface itself */
+  exact: boolean;
+};
+
+/** Bytes per second since the previous sample */
+export type TrafficPoint = { time: number; rx: number; tx: number };
+
+export type TrafficSeries = {
+  points: TrafficPoint[];
+  totals: TrafficCounters;
+  /** Some of the numbers come from `docker stats` totals */
+  estimated: boolean;
+};
+
+export type TrafficState = {
+  time: number;
+  /** Raw counters of the last sample, by endpoint key, to compute rates from */
+  last: Map<string, TrafficCounters>;
+  endpoints: Map<string, TrafficSeries>;
+  networks: Map<string, TrafficSeries>;
+  /** Containers whose traffic couldn't be measured or attributed */
+  unmeasured: string[];
+};
+
+export function loadTrafficInterval(): number {
+  try {
+    const value = Number(localStorage.getItem(STORAGE_KEY));
+    return TRAFFIC_INTERVALS.includes(value) ? value : 0;
+  } catch {
+    return 0;
+  }
+}
+
+export function saveTrafficInterval(ms: number) {
+  try {
+    localStorage.setItem(STORAGE_KEY, String(ms));
+  } catch (e) {
+    console.warn("Failed to save the traffic polling interval:", e);
+  }
+}
+
+export function loadTrafficProbe(): boolean {
+  try {
+    return localStorage.getItem(PROBE_STORAGE_KEY) === "true";
+  } catch {
+    return false;
+  }
+}
+
+export function saveTrafficProbe(enabled: boolean) {
+  try {
+    localStorage.setItem(PROBE_STORAGE_KEY, String(enabled));
+  } catch (e) {
+    console.warn("Failed to save the traffic probe setting:", e);
+  }
+}
+
+export function endpointKey(networkId: string, containerId: string) {
+  return `${networkId}/${containerId}`;
+}
+
+/** The running endpoints of the given networks, as listed by `docker network inspect` */
+export function trafficEndpoints(networks: Iterable<NetworkInspect>): TrafficEndpoint[] {
+  const out: TrafficEndpoint[] = [];
+  for (const net of networks) {
+    for (const [containerId, c] of Object.entries(net.Containers || {})) {
+      // Stopped containers have no MAC; swarm load balancer endpoints aren't containers
+      if (c.MacAddress && !containerId.startsWith("lb-")) {
+        out.push({ networkId: net.Id, containerId, containerName: c.Name, mac: c.MacAddress.toLowerCase() });
+      }
+    }
+  }
+  return out;
+}
+
+/** Counters per interface from the contents of /proc/net/dev */
+export function parseProcNetDev(text: string): Record<string, TrafficCounters> {
+  const out: Record<string, TrafficCounters> = {};
+  for (const line of text.split("\n")) {
+    const m = line.match(/^\s*([^:\s]+):\s*(.*)$/);
+    if (!m) continue;
+    const f = m[2].trim().split(/\s+/).map(Number);
+    if (f.length < 16 || f.some(isNaN)) continue;
+    out[m[1]] = {
+      rxBytes: f[0],
+      rxPackets: f[1],
+      rxErrors: f[2],
+      rxDropped: f[3],
+      txBytes: f[8],
+      txPackets: f[9],
+      txErrors: f[10],
+      txDropped: f[11],
+    };
+  }
+  return out;
+}
+
+const UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1e3,
+  mb: 1e6,
+  gb: 1e9,
+  tb: 1e12,
+  kib: 1024,
+  mib: 1024 ** 2,
+  gib: 1024 ** 3,
+  tib: 1024 ** 4,
+};
+
+/** "1.5kB", "20MiB", "0B" → bytes; NaN when unreadable */
+export function parseByteSize(text: string): number {
+  const m = text.trim().match(/^([\d.]+)\s*([a-zA-Z]+)$/);
+  const unit = m && UNITS[m[2].toLowerCase()];
+  return m && unit ? Number(m[1]) * unit : NaN;
+}
+
+/** The NetIO column of `docker stats`, e.g. "1.2kB / 648B" (received / sent) */
+export function parseNetIO(text: string): TrafficCounters | null {
+  const [rx, tx] = text.split("/").map(parseByteSize);
+  return isNaN(rx) || isNaN(tx) ? null : { rxBytes: rx, txBytes: tx };
+}
+
+export function formatBytes(n: number) {
+  if (n < 1000) return `${Math.round(n)} B`;
+  const units = ["kB", "MB", "GB", "TB"];
+  let i = -1;
+  while (n >= 1000 && i < units.length - 1) {
+    n /= 1000;
+    i++;
+  }
+  return `${n.toFixed(n < 10 ? 1 : 0)} ${units[i]}`;
+}
+
+export function formatRate(bytesPerSecond: number) {
+  return `${formatBytes(bytesPerSecond)}/s`;
+}
+
+/** "↓ 1.2 kB/s  ↑ 300 B/s" for the newest point, or null before there are two samples */
+export function latestRate(series?: TrafficSeries) {
+  const last = series?.points[series.points.length - 1];
+  return last ? `↓ ${formatRate(last.rx)}  ↑ ${formatRate(last.tx)}` : null;
+}
+
+// Output of `tail -v -n +1 a b`: each file preceded by "==> a <=="
+function splitTailOutput(text: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  let current: string | null = null;
+  for (const line of text.split("\n")) {
+    const header = line.match(/^==> (.+) <==$/);
+    if (header) current = header[1];
+    else if (current && line.trim()) out[current] = line.trim();
+  }
+  return out;
+}
+
+// docker exits non-zero when the command fails inside the container; whatever it printed still counts
+async function execIn(containerId: string, args: string[]): Promise<string> {
+  try {
+    const r = await dockerExec("exec", [containerId, ...args]);
+    return r.stdout || "";
+  } catch (e: any) {
+    if (e?.stdout) return e.stdout;
+    throw e;
+  }
+}
+
+function missingTool(e: any) {
+  return /executable file not found|no such file or directory|not found in \$PATH/i.test(String(e?.stderr || e?.message || e));
+}
+
+/**
+ * Reads traffic counters for a set of endpoints. When probing interfaces, keeps the
+ * interface names it has matched to MAC addresses and the containers that can't be read, across calls.
+ */
+export function createTrafficSampler(options: { probeInterfaces: boolean }) {
+  const interfaceNames = new Map<string, Map<string, string>>();
+  const noTools = new Set<string>();
+
+  async function readContainer(containerId: string, endpoints: TrafficEndpoint[]): Promise<EndpointSample[]> {
+    const counters = parseProcNetDev(await execIn(containerId, ["cat", "/proc/net/dev"]));
+    const names = Object.keys(counters).filter((n) => n !== "lo");
+    let byMac = interfaceNames.get(containerId);
+    if (!byMac || endpoints.some((e) => !counters[byMac!.get(e.mac) || ""])) {
+      // New container, or its interfaces changed with a connect/disconnect
+      const files = names.map((n) => `/sys/class/net/${n}/address`);
+      const output = await execIn(containerId, ["tail", "-v", "-n", "+1", ...files]);
+      const macs = splitTailOutput(output);
+      // Builds without -v print a single file without its header
+      if (names.length === 1 && !macs[files[0]]) macs[files[0]] = output.trim();
+      byMac = new Map(names.map((n, i) => [(macs[files[i]] || "").toLowerCase(), n]));
+      interfaceNames.set(containerId, byMac);
+    }
+    return endpoints.flatMap((e) => {
+      const name = byMac!.get(e.mac);
+      return name && counters[name] ? [{ ...e, counters: counters[name], exact: true }] : [];
+    });
+  }
+
+  // Reads a few containers at a time so a poll doesn't start an exec in every container at once
+  async function probeContainers(byContainer: Map<string, TrafficEndpoint[]>): Promise<Map<string, EndpointSample[]>> {
+    const queue = Array.from(byContainer.keys()).filter((id) => !noTools.has(id));
+    const out = new Map<string, EndpointSample[]>();
+    const worker = async () => {
+      for (let id = queue.shift(); id; id = queue.shift()) {
+        try {
+          out.set(id, await readContainer(id, byContainer.get(id)!));
+        } catch (e: any) {
+          if (missingTool(e)) noTools.add(id);
+          // Anything else (container just stopped, exec refused) falls back to stats this round
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(PROBE_CONCURRENCY, queue.length) }, worker));
+    return out;
+  }
+
+  async function statsTotals(): Promise<Map<string, TrafficCounters>> {
+    const r = await dockerExec("stats", ["--no-stream", "--no-trunc", "--format", JSON_FORMAT]);
+    const rows = parseJsonLines<{ ID: string; NetIO: string }>(r.stdout);
+    const out = new Map<string, TrafficCounters>();
+    rows.forEach((row) => {
+      const io = parseNetIO(row.NetIO || "");
+      if (io) out.set(row.ID, io);
+    });
+    return out;
+  }
+
+  return {
+    async sample(endpoints: TrafficEndpoint[]): Promise<{ samples: EndpointSample[]; unmeasured: string[] }> {
+      const byContainer = new Map<string, TrafficEndpoint[]>();
+      endpoints.forEach((e) => byContainer.set(e.containerId, [...(byContainer.get(e.containerId) || []), e]));
+
+      const samples: EndpointSample[] = [];
+      if (options.probeInterfaces) {
+        (await probeContainers(byContainer)).forEach((probed, id) => {
+          samples.push(...probed);
+          byContainer.delete(id);
+        });
+      }
+
+      const unmeasured: string[] = [];
+      if (byContainer.size) {
+        const totals = await statsTotals();
+        byContainer.forEach((eps, id) => {
+          const io = totals.get(id);
+          // A total can't be split between several networks
+          if (io && eps.length === 1) samples.push({ ...eps[0], counters: io, exact: false });
+          else unmeasured.push(eps[0].containerName);
+        });
+      }
+      return { samples, unmeasured: unmeasured.sort() };
+    },
+  };
+}
+
+export function emptyTrafficState(): TrafficState {
+  return { time: 0, last: new Map(), endpoints: new Map(), networks: new Map(), unmeasured: [] };
+}
+
+function addCounters(a: TrafficCounters, b: TrafficCounters): TrafficCounters {
+  const sum = (x?: number, y?: number) => (x === undefined && y === undefined ? undefined : (x || 0) + (y || 0));
+  return {
+    rxBytes: a.rxBytes + b.rxBytes,
+    txBytes: a.txBytes + b.txBytes,
+    rxPackets: sum(a.rxPackets, b.rxPackets),
+    txPackets: sum(a.txPackets, b.txPackets),
+    rxErrors: sum(a.rxErrors, b.rxErrors),
+    txErrors: sum(a.txErrors, b.txErrors),
+    rxDropped: sum(a.rxDropped, b.rxDropped),
+    txDropped: sum(a.txDropped, b.txDropped),
+  };
+}
+
+function appendPoint(points: TrafficPoint[] | undefined, point: TrafficPoint) {
+  return [...(points || []), point].slice(-MAX_POINTS);
+}
+
+/**
+ * Folds a new sample into the history: rates per endpoint from the counter deltas,
+ * summed per network. Endpoints and networks missing from the sample drop out.
+ */
+export function addTrafficSample(
+  state: TrafficState,
+  samples: EndpointSample[],
+  unmeasured: string[],
+  time: number
+): TrafficState {
+  const seconds = (time - state.time) / 1000;
+  const last = new Map<string, TrafficCounters>();
+  const endpoints = new Map<string, TrafficSeries>();
+  const rates = new Map<string, { rx: number; tx: number } | null>();
+  const totals = new Map<string, { counters: TrafficCounters; estimated: boolean }>();
+
+  for (const s of samples) {
+    const key = endpointKey(s.networkId, s.containerId);
+    const prev = state.last.get(key);
+    last.set(key, s.counters);
+    // Counters restart from zero with the container, which reads as no traffic
+    const rate =
+      prev && seconds > 0
+        ? {
+            rx: Math.max(0, s.counters.rxBytes - prev.rxBytes) / seconds,
+            tx: Math.max(0, s.counters.txBytes - prev.txBytes) / seconds,
+          }
+        : null;
+    const previous = state.endpoints.get(key);
+    endpoints.set(key, {
+      points: rate ? appendPoint(previous?.points, { time, ...rate }) : previous?.points || [],
+      totals: s.counters,
+      estimated: !s.exact,
+    });
+
+    const netRate = rates.get(s.networkId);
+    rates.set(s.networkId, rate ? { rx: (netRate?.rx || 0) + rate.rx, tx: (netRate?.tx || 0) + rate.tx } : netRate ?? null);
+    const netTotals = totals.get(s.networkId);
+    totals.set(s.networkId, {
+      counters: netTotals ? addCounters(netTotals.counters, s.counters) : s.counters,
+      estimated: !!netTotals?.estimated || !s.exact,
+    });
+  }
+
+  const networks = new Map<string, TrafficSeries>();
+  totals.forEach(({ counters, estimated }, id) => {
+    const rate = rates.get(id);
+    const previous = state.networks.get(id);
+    networks.set(id, {
+      points: rate ? appendPoint(previous?.points, { time, ...rate }) : previous?.points || [],
+      totals: counters,
+      estimated,
+    });
+  });
+
+  return { time, last, endpoints, networks, unmeasured };
+}
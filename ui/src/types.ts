@@ -1,19 +1,40 @@
+/** One line of `docker network ls --format "{{json .}}"` */
 export type NetworkListRow = {
   ID: string;
   Name: string;
   Driver: string;
   Scope: string;
+  CreatedAt?: string;
+  Labels?: string;
+};
+
+export type IPAMConfig = {
+  Subnet?: string;
+  IPRange?: string;
+  Gateway?: string;
+  AuxiliaryAddresses?: Record<string, string>;
+};
+
+export type IPAM = {
+  Driver?: string;
+  Options?: Record<string, string> | null;
+  Config?: IPAMConfig[] | null;
 };
 
 export type NetworkInspect = {
   Name: string;
   Id: string;
+  Created?: string;
   Driver: string;
   Scope: string;
   Internal?: boolean;
   Attachable?: boolean;
   EnableIPv6?: boolean;
-  IPAM?: any;
+  ConfigOnly?: boolean;
+  ConfigFrom?: { Network: string };
+  /** True for the swarm routing-mesh network */
+  Ingress?: boolean;
+  IPAM?: IPAM;
   Labels?: Record<string, string>;
   Options?: Record<string, string>;
   Containers?: Record<
@@ -28,9 +49,113 @@ export type NetworkInspect = {
   >;
 };
 
+/** A task of a swarm service, from `docker network inspect --verbose` */
+export type SwarmTaskEndpoint = {
+  Name: string;
+  EndpointID: string;
+  EndpointIP: string;
+  /** Includes "Host IP", the node the task runs on */
+  Info?: Record<string, string>;
+};
+
+export type SwarmServiceEndpoints = {
+  VIP: string;
+  Ports: string[] | null;
+  LocalLBIndex: number;
+  Tasks: SwarmTaskEndpoint[] | null;
+};
+
+/** Extra fields `docker network inspect --verbose` adds for swarm-scoped networks */
+export type SwarmNetworkInspect = NetworkInspect & {
+  Peers?: { Name: string; IP: string }[] | null;
+  Services?: Record<string, SwarmServiceEndpoints> | null;
+};
+
+/** `docker info --format "{{json .Swarm}}"` */
+export type SwarmInfo = {
+  NodeID: string;
+  NodeAddr: string;
+  /** "inactive", "pending", "active", "error" or "locked" */
+  LocalNodeState: string;
+  ControlAvailable: boolean;
+  Nodes?: number;
+  Managers?: number;
+};
+
 export type NetworkWithDetails = NetworkListRow & {
   Internal?: boolean;
   Attachable?: boolean;
   EnableIPv6?: boolean;
   ContainerCount?: number;
 };
+
+/** One line of `docker ps --format "{{json .}}"` */
+export type ContainerListRow = {
+  ID: string;
+  Names: string;
+  Image: string;
+  State: string;
+  Status: string;
+  Labels?: string;
+  Networks?: string;
+};
+
+/** Per-network endpoint settings from `docker container inspect` */
+export type EndpointSettings = {
+  IPAMConfig?: {
+    IPv4Address?: string;
+    IPv6Address?: string;
+    LinkLocalIPs?: string[] | null;
+  } | null;
+  Links?: string[] | null;
+  Aliases?: string[] | null;
+  DNSNames?: string[] | null;
+  DriverOpts?: Record<string, string> | null;
+  NetworkID: string;
+  EndpointID: string;
+  Gateway?: string;
+  IPAddress?: string;
+  IPPrefixLen?: number;
+  GlobalIPv6Address?: string;
+  MacAddress?: string;
+};
+
+export type PortBinding = { HostIp: string; HostPort: string };
+
+export type ContainerInspect = {
+  Id: string;
+  /** Leading slash included, e.g. "/web-1" */
+  Name: string;
+  State: { Status: string; Running: boolean };
+  Config: {
+    Image: string;
+    Labels?: Record<string, string> | null;
+  };
+  HostConfig?: { NetworkMode?: string };
+  NetworkSettings: {
+    Networks?: Record<string, EndpointSettings>;
+    Ports?: Record<string, PortBinding[] | null> | null;
+  };
+};
+
+/** One line of `docker events --format "{{json .}}"` */
+export type DockerEvent = {
+  Type: "network" | "container" | string;
+  Action: string;
+  Actor: {
+    ID: string;
+    Attributes?: Record<string, string>;
+  };
+  scope?: string;
+  time: number;
+  timeNano?: number;
+};
+
+export type StepStatus = "pending" | "running" | "done" | "failed" | "skipped";
+
+/** One step of a multi-step operation shown to the user as it runs */
+export type OperationStep = {
+  label: string;
+  status: StepStatus;
+  error?: string;
+};
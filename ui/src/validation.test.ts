@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+
+import type { NetworkSpec } from "./networkSpec";
+import { assertValid, hasErrors, issueFor, validateConnect, validateName, validateNetworkSpec, ValidationError } from "./validation";
+
+function spec(extra: Partial<NetworkSpec> = {}): NetworkSpec {
+  return { name: "app", driver: "bridge", ...extra };
+}
+
+function errorFields(issues: ReturnType<typeof validateNetworkSpec>) {
+  return issues.filter((i) => i.severity === "error").map((i) => i.field);
+}
+
+describe("validateName", () => {
+  it("accepts Docker's name grammar", () => {
+    expect(validateName("my_app.net-1", "network")).toBeNull();
+    expect(validateName("/web", "container")).toBeNull();
+  });
+
+  it("rejects names that would be read as flags or split on spaces", () => {
+    expect(validateName("--internal", "network")).toBe('The network name can\'t start with "-"');
+    expect(validateName("a b", "network")).toMatch(/isn't a valid network name/);
+    expect(validateName("/web", "network")).toMatch(/isn't a valid network name/);
+    expect(validateName(" ", "alias")).toBe("The alias name is required");
+  });
+});
+
+describe("validateNetworkSpec", () => {
+  it("passes a plain spec", () => {
+    expect(validateNetworkSpec(spec())).toEqual([]);
+  });
+
+  it("checks pools against their subnet", () => {
+    const issues = validateNetworkSpec(
+      spec({
+        pools: [
+          { subnet: "10.1.0.0/16", gateway: "10.2.0.1", ipRange: "10.1.0.0/8", auxAddresses: { host: "10.3.0.1" } },
+          { subnet: "10.1.5.0/24" },
+        ],
+      })
+    );
+    expect(errorFields(issues)).toEqual(["pools.0.gateway", "pools.0.ipRange", "pools.0.auxAddresses", "pools.1.subnet"]);
+    expect(issueFor(issues, "pools.1.subnet")?.message).toBe("Overlaps pool 1 (10.1.0.0/16)");
+  });
+
+  it("suggests the network address when host bits are set", () => {
+    expect(issueFor(validateNetworkSpec(spec({ pools: [{ subnet: "10.1.2.3/16" }] })), "pools.0.subnet")?.message).toBe(
+      "10.1.2.3/16 has host bits set; did you mean 10.1.0.0/16?"
+    );
+  });
+
+  it("warns about reserved ranges and IPv6 subnets without IPv6", () => {
+    const issues = validateNetworkSpec(spec({ pools: [{ subnet: "169.254.0.0/24" }, { subnet: "fd00:1::/64" }] }));
+    expect(hasErrors(issues)).toBe(false);
+    expect(issues.map((i) => i.message)).toEqual([
+      "Overlaps the reserved range 169.254.0.0/16 (link-local)",
+      "IPv6 subnet given but IPv6 isn't enabled for the network",
+    ]);
+  });
+
+  it("rejects option keys that would become flags", () => {
+    const issues = validateNetworkSpec(spec({ options: { "-x": "1" }, labels: { "a b": "c" } }));
+    expect(errorFields(issues)).toEqual(["options", "labels"]);
+  });
+
+  it("rejects arguments smuggled into address fields", () => {
+    const issues = validateNetworkSpec(
+      spec({
+        ipv6: true,
+        pools: [
+          { subnet: "fd00::/64", gateway: "fd00::1%z --internal", auxAddresses: { host: "fd00::2 --attachable" } },
+          { subnet: "10.5.0.0/16 --internal", ipRange: "10.5.0.0/24 -x" },
+        ],
+      })
+    );
+    expect(errorFields(issues)).toEqual(["pools.0.gateway", "pools.0.auxAddresses", "pools.1.subnet", "pools.1.ipRange"]);
+  });
+});
+
+describe("validateConnect", () => {
+  it("passes valid options", () => {
+    const issues = validateConnect("app", "web", {
+      aliases: ["www"],
+      ipv4: "10.0.0.5",
+      ipv6: "fd00::5",
+      linkLocalIps: ["169.254.1.1", "fe80::1%eth0"],
+      driverOpts: { "com.example.opt": "a value" },
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it("rejects arguments smuggled into address fields", () => {
+    expect(validateConnect("app", "web", { ipv6: "fd00::5%x --privileged" })).toEqual([
+      { field: "ipv6", message: '"fd00::5%x --privileged" isn\'t an IP address', severity: "error" },
+    ]);
+    expect(validateConnect("app", "web", { linkLocalIps: ["fe80::1%a -x"] })).toEqual([
+      { field: "linkLocalIps", message: '"fe80::1%a -x" isn\'t an IP address', severity: "error" },
+    ]);
+    expect(errorFields(validateConnect("app", "web", { ipv4: "10.0.0.5 --ip6", ipv6: "fd00::5%eth0" }))).toEqual(["ipv4", "ipv6"]);
+  });
+
+  it("checks address families and references", () => {
+    const issues = validateConnect("-net", "web;rm", { ipv4: "fd00::5", aliases: ["-a"] });
+    expect(errorFields(issues)).toEqual(["network", "container", "aliases", "ipv4"]);
+  });
+});
+
+describe("assertValid", () => {
+  it("throws only for errors", () => {
+    expect(() => assertValid([{ field: "name", message: "careful", severity: "warning" }])).not.toThrow();
+    expect(() => assertValid(validateConnect("app", "web", { ipv4: "nope" }))).toThrow(ValidationError);
+  });
+});
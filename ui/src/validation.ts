@@ -0,0 +1,238 @@
+import { cidrContainsCidr, cidrContainsIp, cidrsOverlap, formatIp, parseCidr, parseIp, type ParsedCidr } from "./ipam";
+import type { ConnectOptions } from "./networkApi";
+import type { NetworkSpec } from "./networkSpec";
+
+/*
+ * Checks every value that ends up on a docker command line before it gets there.
+ * The Extensions SDK joins arguments into one command line, so a value that starts
+ * with "-" would be read as a flag; names must follow Docker's grammar anyway.
+ * Errors block the command, warnings are shown but don't.
+ */
+
+export type IssueSeverity = "error" | "warning";
+
+export type FieldIssue = {
+  /** Form field the issue belongs to, e.g. "name", "pools.0.gateway", "labels" */
+  field: string;
+  message: string;
+  severity: IssueSeverity;
+};
+
+/** Thrown by the network functions when their arguments don't pass validation. */
+export class ValidationError extends Error {
+  issues: FieldIssue[];
+  constructor(issues: FieldIssue[]) {
+    super(issues.map((i) => i.message).join("\n"));
+    this.name = "ValidationError";
+    this.issues = issues;
+  }
+}
+
+// Docker's name grammar for containers and networks; IDs match it too
+const NAME = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+// Plugin drivers may be referenced as vendor/driver:tag
+const DRIVER = /^[a-zA-Z0-9][a-zA-Z0-9_.:/-]*$/;
+const SCOPES = ["local", "swarm", "global"];
+
+const RESERVED_RANGES: [string, string][] = [
+  ["0.0.0.0/8", "\"this network\""],
+  ["127.0.0.0/8", "loopback"],
+  ["169.254.0.0/16", "link-local"],
+  ["100.64.0.0/10", "carrier-grade NAT"],
+  ["192.0.2.0/24", "documentation (TEST-NET-1)"],
+  ["198.51.100.0/24", "documentation (TEST-NET-2)"],
+  ["203.0.113.0/24", "documentation (TEST-NET-3)"],
+  ["224.0.0.0/4", "multicast"],
+  ["240.0.0.0/4", "reserved"],
+  ["::1/128", "loopback"],
+  ["fe80::/10", "link-local"],
+  ["ff00::/8", "multicast"],
+  ["2001:db8::/32", "documentation"],
+];
+
+function error(field: string, message: string): FieldIssue {
+  return { field, message, severity: "error" };
+}
+
+function warning(field: string, message: string): FieldIssue {
+  return { field, message, severity: "warning" };
+}
+
+function flagLike(value: string) {
+  return value.trim().startsWith("-");
+}
+
+/** Parses an address field; only link-local addresses may name an interface zone (fe80::1%eth0). */
+function addressValue(address: string, allowZone = false) {
+  if (/\s/.test(address) || (!allowZone && address.includes("%"))) return null;
+  return parseIp(address);
+}
+
+/** Checks a network or container name (or ID) against Docker's grammar. Returns a message or null. */
+export function validateName(value: string, what: "network" | "container" | "alias"): string | null {
+  // Inspect output prefixes container names with "/", which the CLI accepts
+  const text = what === "container" ? value.trim().replace(/^\//, "") : value.trim();
+  if (!text) return `The ${what} name is required`;
+  if (flagLike(text)) return `The ${what} name can't start with "-"`;
+  if (!NAME.test(text)) {
+    return `"${text}" isn't a valid ${what} name: use letters, digits, "_", "." and "-", starting with a letter or digit`;
+  }
+  return null;
+}
+
+/** The reserved range a block falls in or overlaps, if any */
+export function reservedRange(block: ParsedCidr): string | null {
+  for (const [cidr, label] of RESERVED_RANGES) {
+    const reserved = parseCidr(cidr)!;
+    if (reserved.version === block.version && cidrsOverlap(reserved, block)) return `${cidr} (${label})`;
+  }
+  return null;
+}
+
+function validateKeyValues(field: string, what: string, map?: Record<string, string>): FieldIssue[] {
+  const issues: FieldIssue[] = [];
+  for (const [key, value] of Object.entries(map || {})) {
+    if (flagLike(key)) issues.push(error(field, `${what} "${key}" can't start with "-"`));
+    else if (/[\s=]/.test(key)) issues.push(error(field, `${what} "${key}" can't contain spaces or "="`));
+    if (/[\r\n]/.test(value)) issues.push(error(field, `The value of ${what.toLowerCase()} "${key}" can't contain line breaks`));
+  }
+  return issues;
+}
+
+function validatePools(spec: NetworkSpec): FieldIssue[] {
+  const issues: FieldIssue[] = [];
+  const blocks: (ParsedCidr | null)[] = [];
+  (spec.pools || []).forEach((pool, i) => {
+    const field = (name: string) => `pools.${i}.${name}`;
+    const subnet = pool.subnet && !/\s/.test(pool.subnet) ? parseCidr(pool.subnet) : null;
+    blocks.push(subnet);
+
+    if (!pool.subnet) {
+      if (pool.gateway || pool.ipRange || pool.auxAddresses) {
+        issues.push(error(field("subnet"), "A subnet is needed for the gateway, IP range and aux addresses"));
+      }
+    } else if (!subnet) {
+      issues.push(error(field("subnet"), `"${pool.subnet}" isn't CIDR notation, e.g. 172.28.0.0/16 or fd00:28::/64`));
+    } else {
+      const base = pool.subnet.trim().split("/")[0];
+      if (parseIp(base)!.value !== subnet.start) {
+        const fixed = `${formatIp({ version: subnet.version, value: subnet.start })}/${subnet.prefix}`;
+        issues.push(error(field("subnet"), `${pool.subnet} has host bits set; did you mean ${fixed}?`));
+      }
+      const reserved = reservedRange(subnet);
+      if (reserved) issues.push(warning(field("subnet"), `Overlaps the reserved range ${reserved}`));
+      if (subnet.version === 6 && !spec.ipv6) {
+        issues.push(warning(field("subnet"), "IPv6 subnet given but IPv6 isn't enabled for the network"));
+      }
+      const clash = blocks.findIndex((b, j) => j < i && b && cidrsOverlap(b, subnet));
+      if (clash >= 0) issues.push(error(field("subnet"), `Overlaps pool ${clash + 1} (${spec.pools![clash].subnet})`));
+    }
+
+    if (pool.gateway) {
+      const gw = addressValue(pool.gateway);
+      if (!gw) {
+        issues.push(error(field("gateway"), `"${pool.gateway}" isn't an IP address`));
+      } else if (subnet && (gw.version !== subnet.version || !cidrContainsIp(subnet, gw))) {
+        issues.push(error(field("gateway"), `${pool.gateway} is outside the subnet ${pool.subnet}`));
+      } else if (subnet && gw.value === subnet.start) {
+        issues.push(warning(field("gateway"), "The gateway is the subnet's network address"));
+      } else if (subnet && subnet.version === 4 && subnet.prefix < 31 && gw.value === subnet.end) {
+        issues.push(warning(field("gateway"), "The gateway is the subnet's broadcast address"));
+      }
+    }
+
+    if (pool.ipRange) {
+      const range = /\s/.test(pool.ipRange) ? null : parseCidr(pool.ipRange);
+      if (!range) {
+        issues.push(error(field("ipRange"), `"${pool.ipRange}" isn't CIDR notation`));
+      } else if (subnet && (range.version !== subnet.version || !cidrContainsCidr(subnet, range))) {
+        issues.push(error(field("ipRange"), `${pool.ipRange} is outside the subnet ${pool.subnet}`));
+      }
+    }
+
+    for (const [host, address] of Object.entries(pool.auxAddresses || {})) {
+      const ip = addressValue(address);
+      if (flagLike(host) || /[\s=]/.test(host)) {
+        issues.push(error(field("auxAddresses"), `Aux address name "${host}" can't start with "-" or contain spaces or "="`));
+      }
+      if (!ip) issues.push(error(field("auxAddresses"), `Aux address "${address}" isn't an IP address`));
+      else if (subnet && (ip.version !== subnet.version || !cidrContainsIp(subnet, ip))) {
+        issues.push(error(field("auxAddresses"), `Aux address ${address} is outside the subnet ${pool.subnet}`));
+      }
+    }
+  });
+  return issues;
+}
+
+/** Everything wrong with a network spec, keyed by the create form's fields. */
+export function validateNetworkSpec(spec: NetworkSpec): FieldIssue[] {
+  const issues: FieldIssue[] = [];
+  const nameError = validateName(spec.name, "network");
+  if (nameError) issues.push(error("name", nameError));
+
+  if (spec.driver && (flagLike(spec.driver) || !DRIVER.test(spec.driver))) {
+    issues.push(error("driver", `"${spec.driver}" isn't a valid driver name`));
+  }
+  if (spec.ipamDriver && (flagLike(spec.ipamDriver) || !DRIVER.test(spec.ipamDriver))) {
+    issues.push(error("ipamDriver", `"${spec.ipamDriver}" isn't a valid IPAM driver name`));
+  }
+  if (spec.scope && !SCOPES.includes(spec.scope)) {
+    issues.push(error("scope", `Scope must be one of ${SCOPES.join(", ")}`));
+  }
+  if (spec.configFrom) {
+    const fromError = validateName(spec.configFrom, "network");
+    if (fromError) issues.push(error("configFrom", fromError));
+  }
+
+  issues.push(...validatePools(spec));
+  issues.push(...validateKeyValues("ipamOptions", "IPAM option", spec.ipamOptions));
+  issues.push(...validateKeyValues("options", "Option", spec.options));
+  issues.push(...validateKeyValues("labels", "Label", spec.labels));
+  return issues;
+}
+
+/** Checks a network or container reference given by name or ID. */
+export function validateReference(field: string, value: string, what: "network" | "container"): FieldIssue[] {
+  const message = validateName(value, what);
+  return message ? [error(field, message)] : [];
+}
+
+/** Checks the arguments of `docker network connect` apart from subnet membership, which needs the network. */
+export function validateConnect(network: string, container: string, opts: ConnectOptions = {}): FieldIssue[] {
+  const issues = [...validateReference("network", network, "network"), ...validateReference("container", container, "container")];
+  for (const alias of opts.aliases || []) {
+    const message = validateName(alias, "alias");
+    if (message) issues.push(error("aliases", message));
+  }
+  const addresses: [string, string | undefined, 4 | 6][] = [
+    ["ipv4", opts.ipv4, 4],
+    ["ipv6", opts.ipv6, 6],
+  ];
+  for (const [field, address, version] of addresses) {
+    if (!address) continue;
+    const ip = addressValue(address);
+    if (!ip) issues.push(error(field, `"${address}" isn't an IP address`));
+    else if (ip.version !== version) issues.push(error(field, `Expected an IPv${version} address`));
+  }
+  for (const address of opts.linkLocalIps || []) {
+    if (!addressValue(address, true)) issues.push(error("linkLocalIps", `"${address}" isn't an IP address`));
+  }
+  issues.push(...validateKeyValues("driverOpts", "Driver option", opts.driverOpts));
+  return issues;
+}
+
+/** First error for a field, or its first warning */
+export function issueFor(issues: FieldIssue[], field: string): FieldIssue | undefined {
+  const forField = issues.filter((i) => i.field === field);
+  return forField.find((i) => i.severity === "error") || forField[0];
+}
+
+export function hasErrors(issues: FieldIssue[]) {
+  return issues.some((i) => i.severity === "error");
+}
+
+/** Throws a ValidationError if any issue is an error; warnings pass. */
+export function assertValid(issues: FieldIssue[]) {
+  const errors = issues.filter((i) => i.severity === "error");
+  if (errors.length) throw new ValidationError(errors);
+}
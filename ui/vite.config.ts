@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -6,5 +7,9 @@ export default defineConfig({
   base: './', // Use relative paths for assets (required for Docker Desktop extensions)
   build: {
     outDir: "dist"
+  },
+  test: {
+    // The SDK client only declares a browser entry; tests never create it and run against the simulator
+    alias: [{ find: /^@docker\/extension-api-client$/, replacement: "@docker/extension-api-client/dist/index.js" }]
   }
 })